@@ -7,10 +7,21 @@
  * @since 1.0.0
  * @version 1.1.0
  */
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { ISecretArgs } from '../models/Secret';
+import { ISecretArgs, ISecretDue, ISecretLease, ISecretManagerOptions, ISecretMetadata, ISecretRotateResult, ISecretSaveResult, SecretEncoding } from '../models/Secret';
+import { ISecretAuditEvent, ISecretAuditor } from '../models/SecretAudit';
 import { ISecretManager } from '../models/SecretManager';
-import { CLIController, IAction, IArgs, IConfig, IModule } from '@kozen/engine';
+import { ISecretRotationResult } from '../models/SecretRotator';
+import { ISecretSyncResult } from '../models/SecretSync';
+import { ISecretTemplateResolver } from '../models/SecretTemplate';
+import { SecretCodec } from '../services/SecretCodec';
+import { SecretSerializer } from '../services/SecretSerializer';
+import { SecretManagerMDB } from '../services/SecretManagerMDB';
+import { SecretRedactor } from '../services/SecretRedactor';
+import { CLIController, IAction, IArgs, IConfig, IIoC, ILogger, IModule } from '@kozen/engine';
 
 /**
  * @class SecretController
@@ -19,6 +30,24 @@ import { CLIController, IAction, IArgs, IConfig, IModule } from '@kozen/engine';
  */
 export class SecretCLIController extends CLIController {
 
+    /**
+     * Shared redactor masking the secret values in the logs and in the output of get
+     * @protected
+     * @type {SecretRedactor}
+     */
+    protected redactor: SecretRedactor;
+
+    /**
+     * Creates a new SecretCLIController instance
+     * @constructor
+     * @param {Object} [dep] - Injected dependencies
+     */
+    constructor(dep?: { assistant: IIoC, logger: ILogger, srvFile?: any, redactor?: SecretRedactor }) {
+        super(dep);
+        this.redactor = dep?.redactor || new SecretRedactor();
+        this.logger = this.redactor.wrap(this.logger);
+    }
+
     /**
      * Saves an encrypted secret to the configured secret management backend
      * Stores the secret using the resolved SecretManager service with automatic encryption
@@ -26,15 +55,41 @@ export class SecretCLIController extends CLIController {
      * @param {Object} options - Secret storage options
      * @param {string} options.key - Unique identifier for the secret
      * @param {string} options.value - Secret value to be encrypted and stored
+     * @param {string} [options.expires] - Optional expiry date, ISO 8601
+     * @param {string} [options.rotate-every] - Optional rotation period in days
+     * @param {string} [options.owner] - Optional owner of the secret
+     * @param {string} [options.tags] - Optional comma separated 'name=value' tags
+     * @param {string} [options.description] - Optional description of the secret
+     * @param {string} options.driver - Secret backend driver
      * @returns {Promise<boolean>} Promise resolving to true if save operation succeeds, false otherwise
      * @throws {Error} When secret manager resolution fails or storage operation encounters errors
      * @public
      */
-    public async set(options: { key: string, value: string }): Promise<boolean> {
+    public async set(options: { key: string, value: string, expires?: string, 'rotate-every'?: number | string, owner?: string, tags?: string, description?: string, driver: string }): Promise<boolean> {
         try {
-            const { key, value } = options;
+            const { key, value, driver } = options;
             const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
-            const result = await srvSecret!.save(key, value);
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const result = await srvSecret.save(key, value, { lease: this.getLease(options) });
+            if (!result) {
+                this.logger?.error({
+                    flow: this.getId(options as unknown as IConfig),
+                    src: 'Secret:Controller:set',
+                    message: `❌ Failed to save secret '${key}': the ${driver ? `'${driver}' backend` : 'write target'} did not store it.`
+                });
+                process.exitCode = 1;
+                return false;
+            }
             this.logger?.info({
                 flow: this.getId(options as unknown as IConfig),
                 src: 'Secret:Controller:set',
@@ -45,8 +100,9 @@ export class SecretCLIController extends CLIController {
             this.logger?.error({
                 flow: this.getId(options as unknown as IConfig),
                 src: 'Secret:Controller:set',
-                message: `❌ Failed to resolve secret '${options.key}': ${(error as Error).message}`
+                message: `❌ Failed to save secret '${options.key}': ${(error as Error).message}`
             });
+            process.exitCode = 1;
             return false;
         }
     }
@@ -56,14 +112,24 @@ export class SecretCLIController extends CLIController {
      * Resolves the secret using the SecretManager service with automatic decryption
      * 
      * @param {Object} options - Secret retrieval options
-     * @param {string} options.key - Unique identifier of the secret to retrieve
-     * @returns {Promise<string | null>} Promise resolving to decrypted secret value or null if not found
+     * @param {string | string[]} options.key - Unique identifier of the secret to retrieve, optionally followed by a '#jsonPath' selector;
+     *                                          several keys, given as repeated or comma separated values, are resolved in one batch
+     * @param {string} [options.file] - Optional file listing the keys to resolve in one batch, one per line
+     * @param {string} [options.revision] - Optional version to retrieve instead of the current one
+     * @param {string} [options.stage] - Optional stage to retrieve, e.g. previous
+     * @param {string} [options.encoding] - Optional stored representation: auto, text, json, base64 or binary
+     * @param {boolean | string} [options.reveal] - Prints the values to the standard output instead of masking them
+     * @returns {Promise<string | null>} Promise resolving to decrypted secret value, binary data as base64 and documents as JSON, or null if not found;
+     *                                   a JSON map of the values by key for batches; values are masked unless revealed
      * @throws {Error} When secret manager resolution fails or retrieval operation encounters errors
      * @public
      */
-    public async get(options: { key: string, driver: string }): Promise<string | null> {
+    public async get(options: { key: string | string[], driver: string, file?: string, revision?: string, stage?: string, encoding?: string, reveal?: boolean | string }): Promise<string | null> {
         try {
-            const { key, driver } = options;
+            const { driver, file, revision, stage, encoding } = options;
+            const reveal = this.isEnabled(options.reveal);
+            const keys = await this.getKeys(options.key, file);
+            const key = keys[0];
             const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
 
             if (!srvSecret) {
@@ -71,17 +137,27 @@ export class SecretCLIController extends CLIController {
             }
 
             srvSecret.configure({
-                flow: this.getId(options as unknown as IConfig),
-                type: driver
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
             });
 
-            const value = await srvSecret.resolve(key);
-            if (value) {
+            if (keys.length > 1 || file) {
+                return await this.getMany(srvSecret, keys, options as unknown as IConfig, { version: revision, stage, encoding: encoding as SecretEncoding }, reveal);
+            }
+
+            const { value, provider } = await srvSecret.lookup(key, { version: revision, stage, encoding: encoding as SecretEncoding });
+            const text = new SecretCodec().stringify(value);
+            if (text) {
                 this.logger?.info({
                     flow: this.getId(options as unknown as IConfig),
                     src: 'Secret:Controller:get',
-                    message: `✅ Resolved secret '${key}': ${value}`
+                    message: `✅ Resolved secret '${key}' from '${provider}'.`
                 });
+                if (!reveal) {
+                    return this.redactor.mask(text);
+                }
+                process.stdout.write(text + '\n');
             } else {
                 this.logger?.info({
                     flow: this.getId(options as unknown as IConfig),
@@ -89,7 +165,7 @@ export class SecretCLIController extends CLIController {
                     message: `🔍 Secret '${key}' not found.`
                 });
             }
-            return String(value) || null;
+            return text || null;
         } catch (error) {
             this.logger?.error({
                 flow: this.getId(options as unknown as IConfig),
@@ -100,6 +176,438 @@ export class SecretCLIController extends CLIController {
         }
     }
 
+    /**
+     * Deletes a secret from the configured secret management backend
+     * 
+     * @param {Object} options - Secret deletion options
+     * @param {string} options.key - Unique identifier of the secret to delete
+     * @param {string} options.driver - Secret backend driver
+     * @param {boolean} [options.shred] - Also destroys the per-secret data key (MDB 'secret' key strategy)
+     * @returns {Promise<boolean>} Promise resolving to true if the secret was deleted, false otherwise
+     * @public
+     */
+    public async delete(options: { key: string, driver: string, shred?: boolean | string }): Promise<boolean> {
+        try {
+            const { key, driver } = options;
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const result = await srvSecret.delete(key, { shred: this.isEnabled(options.shred) });
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:delete',
+                message: result ? `✅ Secret '${key}' deleted successfully.` : `🔍 Secret '${key}' not found.`
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:delete',
+                message: `❌ Failed to delete secret '${options.key}': ${(error as Error).message}`
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Lists the secrets stored in the configured secret management backend
+     * Returns metadata only, secret values are never included
+     * 
+     * @param {Object} options - Secret listing options
+     * @param {string} [options.prefix] - Optional key prefix filter
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the secret metadata list
+     * @public
+     */
+    public async list(options: { prefix?: string, driver: string }): Promise<ISecretMetadata[]> {
+        try {
+            const { prefix, driver } = options;
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const result = await srvSecret.list({ prefix });
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:list',
+                message: `✅ Found ${result.length} secret(s).`,
+                data: result
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:list',
+                message: `❌ Failed to list secrets: ${(error as Error).message}`
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Lists the secrets that are expired or due for rotation, the most overdue first
+     * Returns metadata only, secret values are never included
+     * 
+     * @param {Object} options - Due secrets options
+     * @param {string} [options.prefix] - Optional key prefix filter
+     * @param {string} [options.within] - Optional number of days ahead to include
+     * @param {string} [options.limit] - Optional maximum number of secrets
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<ISecretDue[]>} Promise resolving to the due secrets with the reason and the due date
+     * @public
+     */
+    public async due(options: { prefix?: string, within?: number | string, limit?: number | string, driver: string }): Promise<ISecretDue[]> {
+        try {
+            const { prefix, driver } = options;
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const result = await srvSecret.due({
+                prefix,
+                within: options.within ? Number(options.within) : undefined,
+                limit: options.limit ? parseInt(String(options.limit), 10) : undefined
+            });
+            this.logger?.[result.length ? 'warn' : 'info']({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:due',
+                message: result.length
+                    ? `⏰ ${result.length} secret(s) expired or due for rotation: ${result.map(item => `${item.key} (${item.reason} ${item.dueAt.toISOString()})`).join(', ')}.`
+                    : `✅ No secret expired or due for rotation.`,
+                data: result
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:due',
+                message: `❌ Failed to list due secrets: ${(error as Error).message}`
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Describes a secret stored in the configured secret management backend
+     * Returns metadata only, the secret value is never included
+     * 
+     * @param {Object} options - Secret description options
+     * @param {string} options.key - Unique identifier of the secret to describe
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<ISecretMetadata | null>} Promise resolving to the secret metadata or null if not found
+     * @public
+     */
+    public async describe(options: { key: string, driver: string }): Promise<ISecretMetadata | null> {
+        try {
+            const { key, driver } = options;
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const result = await srvSecret.describe(key);
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:describe',
+                message: result ? `✅ Secret '${key}' described.` : `🔍 Secret '${key}' not found.`,
+                data: result
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:describe',
+                message: `❌ Failed to describe secret '${options.key}': ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Lists the stored versions of a secret, newest first
+     * Returns metadata only, secret values are never included
+     * 
+     * @param {Object} options - Secret history options
+     * @param {string} options.key - Unique identifier of the secret to inspect
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the version metadata list
+     * @public
+     */
+    public async history(options: { key: string, driver: string }): Promise<ISecretMetadata[]> {
+        try {
+            const { key, driver } = options;
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const result = await srvSecret.history(key);
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:history',
+                message: `✅ Found ${result.length} version(s) of secret '${key}'.`,
+                data: result
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:history',
+                message: `❌ Failed to retrieve the history of secret '${options.key}': ${(error as Error).message}`
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Promotes a previous version of a secret back to the current stage
+     * 
+     * @param {Object} options - Secret rollback options
+     * @param {string} options.key - Unique identifier of the secret to roll back
+     * @param {string} options.revision - Version to promote
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<boolean>} Promise resolving to true if the version was promoted, false otherwise
+     * @public
+     */
+    public async rollback(options: { key: string, revision: string, driver: string }): Promise<boolean> {
+        try {
+            const { key, revision, driver } = options;
+            if (!revision) {
+                throw new Error("The --revision parameter is required for rollback operations.");
+            }
+
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const result = await srvSecret.rollback(key, revision);
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:rollback',
+                message: result ? `✅ Secret '${key}' rolled back to version '${revision}'.` : `🔍 Version '${revision}' of secret '${key}' not found.`
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:rollback',
+                message: `❌ Failed to roll back secret '${options.key}': ${(error as Error).message}`
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Generates a new local master key for the MongoDB CSFLE backend
+     * Writes the key to a file readable only by its owner, the key itself is never logged
+     * 
+     * @param {Object} options - Master key generation options
+     * @param {string} [options.file] - Destination file path (default: master.key)
+     * @param {boolean} [options.force] - Overwrites an existing file
+     * @returns {Promise<string | null>} Promise resolving to the written file path or null on failure
+     * @public
+     */
+    public async 'init-master-key'(options: { file?: string, force?: boolean | string }): Promise<string | null> {
+        try {
+            const srvSecret = await this.assistant?.resolve<SecretManagerMDB>('secret:manager:mdb');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManagerMDB.");
+            }
+
+            const file = await srvSecret.initMasterKey(options.file || 'master.key', this.isEnabled(options.force));
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:init-master-key',
+                message: `✅ Master key written to '${file}'. Load it through the MDB_MASTER_KEY variable or the 'mdb.keyFile' option, and keep a backup: secrets cannot be decrypted without it.`
+            });
+            return file;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:init-master-key',
+                message: `❌ Failed to generate the master key: ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Moves the data keys stored in the secrets collection by former releases to the dedicated key vault collection
+     * 
+     * @param {Object} options - Migration options
+     * @returns {Promise<number | null>} Promise resolving to the number of moved data keys or null on failure
+     * @public
+     */
+    public async 'migrate-key-vault'(options: {}): Promise<number | null> {
+        try {
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+            const srvMdb = await this.assistant?.resolve<SecretManagerMDB>('secret:manager:mdb');
+
+            if (!srvSecret || !srvMdb) {
+                throw new Error("Failed to resolve SecretManagerMDB.");
+            }
+
+            const result = await srvMdb.migrateKeyVault({
+                ...srvSecret.options,
+                flow: this.getId(options as unknown as IConfig)
+            });
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:migrate-key-vault',
+                message: `✅ Moved ${result} data key(s) to the key vault collection.`
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:migrate-key-vault',
+                message: `❌ Failed to migrate the data keys: ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Rotates the CSFLE master key or the data encryption key of the MongoDB backend
+     * Progress is reported through the logger, an interrupted rotation resumes on the next run
+     * 
+     * @param {Object} options - Rotation options
+     * @param {string} options.target - Key type to rotate: master or data
+     * @param {boolean} [options.dry-run] - Reports the planned changes without applying them
+     * @returns {Promise<ISecretRotateResult | null>} Promise resolving to the rotation outcome or null on failure
+     * @public
+     */
+    public async rotate(options: { target: string, 'dry-run'?: boolean | string }): Promise<ISecretRotateResult | null> {
+        try {
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+            const srvMdb = await this.assistant?.resolve<SecretManagerMDB>('secret:manager:mdb');
+
+            if (!srvSecret || !srvMdb) {
+                throw new Error("Failed to resolve SecretManagerMDB.");
+            }
+
+            const result = await srvMdb.rotate(options.target, this.isEnabled(options['dry-run']), {
+                ...srvSecret.options,
+                ...this.getCaller(options)
+            });
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:rotate',
+                message: `✅ ${result.dryRun ? '[dry-run] ' : ''}Rotation of the ${result.target} key: ${result.keys} data key(s), ${result.secrets} secret document(s).`,
+                data: result
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:rotate',
+                message: `❌ Failed to rotate the ${options.target} key: ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Rotates the value of a secret with a rotation handler and reports every step
+     * The new value is generated, applied to the target system, saved as a new version and verified, a failed step is undone
+     * 
+     * @param {Object} options - Value rotation options
+     * @param {string} options.key - Unique identifier of the secret to rotate
+     * @param {string} [options.handler] - Optional rotation handler: password, token, mdb or a custom one
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<ISecretRotationResult | null>} Promise resolving to the outcome of every step or null on failure
+     * @public
+     */
+    public async 'rotate-value'(options: { key: string, handler?: string, driver: string }): Promise<ISecretRotationResult | null> {
+        try {
+            const { key, handler, driver } = options;
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const result = await srvSecret.rotateValue(key, handler);
+            for (const item of result.steps) {
+                this.logger?.[item.status === 'ok' ? 'info' : 'error']({
+                    flow: this.getId(options as unknown as IConfig),
+                    src: 'Secret:Controller:rotate-value',
+                    message: `[${item.step}] ${item.status}${item.message ? `: ${item.message}` : ''}`
+                });
+            }
+            this.logger?.[result.rotated ? 'info' : 'error']({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:rotate-value',
+                message: result.rotated
+                    ? `✅ Secret '${result.key}' rotated with the '${result.handler}' handler, version ${result.version ?? 'unknown'}.`
+                    : `❌ Failed to rotate secret '${result.key}' with the '${result.handler}' handler: ${result.error}`,
+                data: result
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:rotate-value',
+                message: `❌ Failed to rotate secret '${options.key}': ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
     /**
      * Retrieves metadata information about the secret management configuration
      * Provides details about the current SecretManager backend and its configuration
@@ -142,6 +650,528 @@ export class SecretCLIController extends CLIController {
         });
     }
 
+    /**
+     * Exports secrets to an env file, written with 0600 permissions
+     * Printing plaintext secrets to the standard output requires the --unsafe-plaintext flag
+     * 
+     * @param {Object} options - Secret export options
+     * @param {string | string[]} [options.key] - Keys to export, all the secrets matching the prefix by default
+     * @param {string} [options.prefix] - Key prefix filter
+     * @param {string} [options.rename] - Comma separated 'from=to' renaming rules, e.g. 'prod/app/*=*'
+     * @param {string} [options.format] - Output format: dotenv, json, yaml or shell; detected from the file extension by default
+     * @param {string} [options.file] - Output file
+     * @param {boolean | string} [options.unsafe-plaintext] - Allows printing the secrets without an output file
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<string | null>} Promise resolving to the file path, or to the content when printed; null on failure
+     * @public
+     */
+    public async export(options: { key?: string | string[], prefix?: string, rename?: string, format?: string, file?: string, 'unsafe-plaintext'?: boolean | string, driver: string }): Promise<string | null> {
+        try {
+            const { prefix, rename, file, driver } = options;
+            if (!file && !this.isEnabled(options['unsafe-plaintext'])) {
+                throw new Error("Refusing to print plaintext secrets: write them to a 0600 file with --file, or pass --unsafe-plaintext.");
+            }
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            // explicit keys, or every secret of the prefix
+            let keys = await this.getKeys(options.key);
+            keys = keys.length ? keys.filter(key => !prefix || key.startsWith(prefix)) : (await srvSecret.list({ prefix })).map(item => item.key);
+
+            const codec = new SecretCodec();
+            const serializer = new SecretSerializer();
+            const secrets: Record<string, string> = {};
+            for (const { key, value, error } of await srvSecret.resolveMany(keys)) {
+                if (error || value === null || value === undefined) {
+                    this.logger?.warn({
+                        flow: this.getId(options as unknown as IConfig),
+                        src: 'Secret:Controller:export',
+                        message: `⚠️ Skipped secret '${key}': ${error || 'not found'}.`
+                    });
+                    continue;
+                }
+                const name = serializer.rename(key, rename);
+                if (name in secrets) {
+                    throw new Error(`Several secrets are exported as '${name}', adjust the --rename rules.`);
+                }
+                secrets[name] = codec.stringify(value);
+            }
+
+            const format = serializer.getFormat(file, options.format);
+            const content = serializer.stringify(secrets, format);
+            if (!file) {
+                process.stdout.write(content);
+                return content;
+            }
+
+            // restrict an existing file before writing, the creation mode only applies to new files
+            const target = path.resolve(file);
+            const handle = await fs.promises.open(target, 'w', 0o600);
+            try {
+                await handle.chmod(0o600);
+                await handle.writeFile(content, 'utf-8');
+            } finally {
+                await handle.close();
+            }
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:export',
+                message: `✅ Exported ${Object.keys(secrets).length} secret(s) to '${target}' (${format}).`,
+                data: Object.keys(secrets)
+            });
+            return target;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:export',
+                message: `❌ Failed to export secrets: ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Imports the secrets of an env file, every value is stored through the configured backend so it is encrypted
+     * 
+     * @param {Object} options - Secret import options
+     * @param {string} options.file - Input file
+     * @param {string} [options.prefix] - Imports only the names starting with the prefix
+     * @param {string} [options.rename] - Comma separated 'from=to' renaming rules, e.g. '*=prod/app/*'
+     * @param {string} [options.format] - Input format: dotenv, json, yaml or shell; detected from the file extension by default
+     * @param {boolean | string} [options.dry-run] - Reports the keys to import without saving them
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<ISecretSaveResult[]>} Promise resolving to one result per imported key
+     * @public
+     */
+    public async import(options: { file: string, prefix?: string, rename?: string, format?: string, 'dry-run'?: boolean | string, driver: string }): Promise<ISecretSaveResult[]> {
+        try {
+            const { file, prefix, rename, driver } = options;
+            if (!file) {
+                throw new Error("The --file parameter is required for import operations.");
+            }
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const serializer = new SecretSerializer();
+            const content = await fs.promises.readFile(path.resolve(file), 'utf-8');
+            const secrets = serializer.parse(content, serializer.getFormat(file, options.format));
+            const dryRun = this.isEnabled(options['dry-run']);
+
+            const results: ISecretSaveResult[] = [];
+            for (const [name, value] of Object.entries(secrets)) {
+                if (prefix && !name.startsWith(prefix)) {
+                    continue;
+                }
+                const key = serializer.rename(name, rename);
+                try {
+                    const saved = dryRun || await srvSecret.save(key, value);
+                    results.push({ key, saved });
+                } catch (error) {
+                    results.push({ key, saved: false, error: (error as Error).message });
+                }
+            }
+
+            const failed = results.filter(item => !item.saved);
+            this.logger?.[failed.length ? 'warn' : 'info']({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:import',
+                message: `${failed.length ? '⚠️' : '✅'} ${dryRun ? '[dry-run] ' : ''}Imported ${results.length - failed.length} of ${results.length} secret(s) from '${file}'.`,
+                data: results
+            });
+            return results;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:import',
+                message: `❌ Failed to import secrets: ${(error as Error).message}`
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Copies the secrets of one backend into another, e.g. during a migration or to mirror them for disaster recovery
+     * Reports every key as added (+), changed (~), unchanged (=), skipped (-) or failed (!), never the values
+     * 
+     * @param {Object} options - Synchronization options
+     * @param {string} options.from - Source backend driver
+     * @param {string} options.to - Target backend driver
+     * @param {string} [options.prefix] - Optional key prefix filter
+     * @param {string} [options.conflict] - Keys holding another value in the target: overwrite (default), skip or newest-wins
+     * @param {boolean | string} [options.dry-run] - Reports the differences without writing anything
+     * @param {string} [options.checkpoint] - Optional checkpoint file of the run
+     * @param {string} [options.batch] - Optional number of secrets per batch
+     * @returns {Promise<ISecretSyncResult | null>} Promise resolving to the action taken for every key or null on failure
+     * @public
+     */
+    public async sync(options: { from: string, to: string, prefix?: string, conflict?: string, 'dry-run'?: boolean | string, checkpoint?: string, batch?: number | string }): Promise<ISecretSyncResult | null> {
+        try {
+            const { from, to, prefix, conflict, checkpoint } = options;
+            if (!from || !to) {
+                throw new Error("The --from and --to parameters are required for sync operations.");
+            }
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure(this.getCaller(options));
+
+            const result = await srvSecret.sync(from, to, {
+                prefix,
+                conflict,
+                checkpoint,
+                dryRun: this.isEnabled(options['dry-run']),
+                batch: options.batch ? parseInt(String(options.batch), 10) : undefined
+            });
+            const symbols = { add: '+', change: '~', unchanged: '=', skip: '-', error: '!' };
+            const count = (action: string) => result.items.filter(item => item.action === action).length;
+            const failed = count('error');
+            this.logger?.[failed ? 'warn' : 'info']({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:sync',
+                message: [
+                    `${failed ? '⚠️' : '✅'} ${result.dryRun ? '[dry-run] ' : ''}Synchronized '${result.from}' to '${result.to}'${result.resumed ? ` after '${result.resumed}'` : ''}: ${count('add')} added, ${count('change')} changed, ${count('unchanged')} unchanged, ${count('skip')} skipped, ${failed} failed.`,
+                    ...result.items.map(item => `  ${symbols[item.action]} ${item.key}${item.reason ? ` (${item.reason})` : ''}`)
+                ].join('\n'),
+                data: result
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:sync',
+                message: `❌ Failed to synchronize secrets: ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Renders a template file, substituting its secret references such as '${secret:aws:prod/db#password}'
+     * Every unresolved reference is reported at once and nothing is written
+     * 
+     * @param {Object} options - Template rendering options
+     * @param {string} options.file - Template file, JSON files are rendered value by value
+     * @param {string} [options.out] - Output file, written with 0600 permissions
+     * @param {boolean | string} [options.unsafe-plaintext] - Allows printing the rendered content without an output file
+     * @param {string} options.driver - Secret backend driver used for references without backend
+     * @returns {Promise<string | null>} Promise resolving to the output path, or to the content when printed; null on failure
+     * @public
+     */
+    public async render(options: { file: string, out?: string, 'unsafe-plaintext'?: boolean | string, driver: string }): Promise<string | null> {
+        try {
+            const { file, out, driver } = options;
+            if (!file) {
+                throw new Error("The --file parameter is required for render operations.");
+            }
+            if (!out && !this.isEnabled(options['unsafe-plaintext'])) {
+                throw new Error("Refusing to print plaintext secrets: write them to a 0600 file with --out, or pass --unsafe-plaintext.");
+            }
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+            const srvTemplate = await this.assistant?.resolve<ISecretTemplateResolver>('secret:template');
+
+            if (!srvSecret || !srvTemplate) {
+                throw new Error("Failed to resolve SecretTemplateResolver.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            const content = await srvTemplate.renderFile(file, out, { flow: this.getId(options as unknown as IConfig) });
+            if (!out) {
+                process.stdout.write(content);
+                return content;
+            }
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:render',
+                message: `✅ Rendered '${file}' to '${path.resolve(out)}'.`
+            });
+            return path.resolve(out);
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:render',
+                message: `❌ Failed to render the template: ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Queries the audit trail of the secret operations, or verifies its hash chain
+     * 
+     * @param {Object} options - Audit query options
+     * @param {string} [options.key] - Secret key, a trailing '*' matches a prefix
+     * @param {string} [options.actor] - Identity that performed the operations
+     * @param {string} [options.operation] - Audited operation: resolve, save, delete, rollback or rotate
+     * @param {string} [options.from] - Earliest event time, an ISO 8601 date
+     * @param {string} [options.to] - Latest event time, an ISO 8601 date
+     * @param {string} [options.limit] - Maximum number of events, the latest ones are returned
+     * @param {boolean | string} [options.verify] - Verifies the hash chain instead of querying
+     * @returns {Promise<ISecretAuditEvent[] | null>} Promise resolving to the matching events, null on failure or when the chain is broken
+     * @public
+     */
+    public async audit(options: { key?: string, actor?: string, operation?: string, from?: string, to?: string, limit?: string, verify?: boolean | string }): Promise<ISecretAuditEvent[] | null> {
+        try {
+            const srvAudit = await this.assistant?.resolve<ISecretAuditor>('secret:auditor');
+
+            if (!srvAudit) {
+                throw new Error("Failed to resolve SecretAuditor.");
+            }
+
+            if (this.isEnabled(options.verify)) {
+                const result = await srvAudit.verify();
+                this.logger?.[result.valid ? 'info' : 'error']({
+                    flow: this.getId(options as unknown as IConfig),
+                    src: 'Secret:Controller:audit',
+                    message: result.valid
+                        ? `✅ Audit trail verified: ${result.count} event(s).`
+                        : `❌ Audit trail broken at event ${result.broken}: ${result.reason}.`,
+                    data: result
+                });
+                return result.valid ? [] : null;
+            }
+
+            const from = options.from ? new Date(options.from) : undefined;
+            const to = options.to ? new Date(options.to) : undefined;
+            if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+                throw new Error("The --from and --to parameters must be ISO 8601 dates, e.g. 2024-05-01T00:00:00Z.");
+            }
+            const result = await srvAudit.query({
+                key: options.key,
+                actor: options.actor,
+                action: options.operation,
+                from,
+                to,
+                limit: options.limit ? parseInt(options.limit, 10) : undefined
+            });
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:audit',
+                message: `✅ Found ${result.length} audit event(s).`,
+                data: result
+            });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:audit',
+                message: `❌ Failed to query the audit trail: ${(error as Error).message}`
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Runs a command with secrets injected as environment variables, nothing is written to disk
+     * The child inherits the standard streams, receives the termination signals and its exit code becomes the one of the process
+     * 
+     * @param {Object} options - Command execution options
+     * @param {string | string[]} [options.map] - 'VAR=key' mappings, repeated or comma separated, e.g. DB_PASS=prod/db#password
+     * @param {string} [options.file] - Manifest of 'VAR=key' mappings: dotenv, json, yaml or shell
+     * @param {string} [options.format] - Manifest format, detected from the file extension by default
+     * @param {string[]} options.command - Command and arguments given after '--'
+     * @param {string} options.driver - Secret backend driver
+     * @returns {Promise<number | null>} Promise resolving to the exit code of the command, or null when it was not started
+     * @public
+     */
+    public async exec(options: { map?: string | string[], file?: string, format?: string, command?: string[], driver: string }): Promise<number | null> {
+        try {
+            const { file, driver } = options;
+            const command = options.command || [];
+            if (!command.length) {
+                throw new Error("Missing command, pass it after '--', e.g. -- node app.js.");
+            }
+            const mapping = await this.getMapping(options.map, file, options.format);
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+
+            if (!srvSecret) {
+                throw new Error("Failed to resolve SecretManager.");
+            }
+
+            srvSecret.configure({
+                ...this.getCaller(options),
+                type: driver,
+                chain: driver ? [driver, 'env'] : undefined
+            });
+
+            // resolve every mapping before starting, failures only report names
+            const names = Object.keys(mapping);
+            const results = await srvSecret.resolveMany(names.map(name => mapping[name]));
+            const codec = new SecretCodec();
+            const env: Record<string, string> = {};
+            const failed: string[] = [];
+            results.forEach(({ key, value, error }, index) => {
+                if (error || value === null || value === undefined) {
+                    failed.push(`${names[index]} (${key}): ${error || 'not found'}`);
+                } else {
+                    env[names[index]] = codec.stringify(value);
+                }
+            });
+            if (failed.length) {
+                throw new Error(`Unresolved secrets: ${failed.join('; ')}`);
+            }
+
+            this.logger?.info({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:exec',
+                message: `🚀 Running '${command[0]}' with ${names.length} secret variable(s).`,
+                data: names
+            });
+            const code = await this.run(command, { ...process.env, ...env });
+            process.exitCode = code;
+            return code;
+        } catch (error) {
+            this.logger?.error({
+                flow: this.getId(options as unknown as IConfig),
+                src: 'Secret:Controller:exec',
+                message: `❌ Failed to run the command: ${(error as Error).message}`
+            });
+            process.exitCode = 1;
+            return null;
+        }
+    }
+
+    /**
+     * Spawns a command, forwarding the termination signals until it exits
+     * 
+     * @param {string[]} command - Command and arguments
+     * @param {NodeJS.ProcessEnv} env - Child environment
+     * @returns {Promise<number>} Promise resolving to the exit code, 128 plus the signal number when the child was killed
+     * @throws {Error} When the command cannot be started
+     * @protected
+     */
+    protected run(command: string[], env: NodeJS.ProcessEnv): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(command[0], command.slice(1), { env, stdio: 'inherit' });
+            const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP', 'SIGQUIT', 'SIGUSR2'];
+            const forward = (signal: NodeJS.Signals) => child.kill(signal);
+            const release = () => signals.forEach(signal => process.removeListener(signal, forward));
+            signals.forEach(signal => process.on(signal, forward));
+            child.once('error', (error) => {
+                release();
+                reject(error);
+            });
+            child.once('exit', (code, signal) => {
+                release();
+                resolve(code ?? 128 + (signal ? os.constants.signals[signal] : 0));
+            });
+        });
+    }
+
+    /**
+     * Gathers the 'VAR=key' mappings of the exec action, the --map values override the manifest
+     * 
+     * @param {string | string[]} [map] - Mappings, repeated or comma separated
+     * @param {string} [file] - Manifest file
+     * @param {string} [format] - Manifest format
+     * @returns {Promise<Record<string, string>>} Secret keys by variable name
+     * @throws {Error} When a mapping is malformed, names an invalid variable or no mapping is given
+     * @protected
+     */
+    protected async getMapping(map?: string | string[], file?: string, format?: string): Promise<Record<string, string>> {
+        const mapping: Record<string, string> = {};
+        if (file) {
+            const serializer = new SecretSerializer();
+            const content = await fs.promises.readFile(path.resolve(file), 'utf-8');
+            for (const [name, key] of Object.entries(serializer.parse(content, serializer.getFormat(file, format)))) {
+                if (typeof key !== 'string') {
+                    throw new Error(`The manifest entry '${name}' must be a secret key.`);
+                }
+                mapping[name] = key;
+            }
+        }
+        for (const item of (Array.isArray(map) ? map : [map]).flatMap(value => String(value ?? '').split(','))) {
+            if (!item.trim()) {
+                continue;
+            }
+            const index = item.indexOf('=');
+            if (index < 1 || !item.slice(index + 1).trim()) {
+                throw new Error(`Invalid mapping '${item}', use VAR=key.`);
+            }
+            mapping[item.slice(0, index).trim()] = item.slice(index + 1).trim();
+        }
+        const invalid = Object.keys(mapping).filter(name => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name));
+        if (invalid.length) {
+            throw new Error(`Invalid variable names: ${invalid.join(', ')}.`);
+        }
+        if (!Object.keys(mapping).length) {
+            throw new Error("No secret mapping, pass --map=VAR=key or a manifest with --file.");
+        }
+        return mapping;
+    }
+
+    /**
+     * Resolves several secrets in one batch and logs the outcome of every key
+     * 
+     * @param {ISecretManager} srvSecret - Secret manager service
+     * @param {string[]} keys - Secret keys to resolve
+     * @param {IConfig} config - CLI options used for the flow identifier
+     * @param {ISecretManagerOptions} selectors - Version, stage and encoding selectors
+     * @param {boolean} [reveal] - Prints the map to the standard output instead of masking the values
+     * @returns {Promise<string>} Promise resolving to a JSON map of the values by key, null for missing keys
+     * @protected
+     */
+    protected async getMany(srvSecret: ISecretManager, keys: string[], config: IConfig, selectors: ISecretManagerOptions, reveal?: boolean): Promise<string> {
+        const codec = new SecretCodec();
+        const results = await srvSecret.resolveMany(keys, selectors);
+        for (const { key, value, provider, error } of results) {
+            const text = codec.stringify(value);
+            this.logger?.[error ? 'error' : 'info']({
+                flow: this.getId(config),
+                src: 'Secret:Controller:get',
+                message: error
+                    ? `❌ Failed to resolve secret '${key}': ${error}`
+                    : text ? `✅ Resolved secret '${key}' from '${provider}'.` : `🔍 Secret '${key}' not found.`
+            });
+        }
+        const content = JSON.stringify(Object.fromEntries(results.map(({ key, value }) => [key, reveal ? codec.stringify(value) || null : this.redactor.mask(codec.stringify(value))])), null, 2);
+        reveal && process.stdout.write(content + '\n');
+        return content;
+    }
+
+    /**
+     * Collects the keys of a request from repeated or comma separated --key values and an optional key file
+     * Key files hold one key per line, blank lines and lines starting with '#' are skipped
+     * 
+     * @param {string | string[]} [key] - Key argument value
+     * @param {string} [file] - Key file path
+     * @returns {Promise<string[]>} Promise resolving to the distinct keys in request order
+     * @protected
+     */
+    protected async getKeys(key?: string | string[], file?: string): Promise<string[]> {
+        const keys = (Array.isArray(key) ? key : [key]).flatMap(item => String(item ?? '').split(','));
+        if (file) {
+            const content = await fs.promises.readFile(path.resolve(file), 'utf-8');
+            keys.push(...content.split(/\r?\n/).filter(line => !line.trim().startsWith('#')));
+        }
+        return [...new Set(keys.map(item => item.trim()).filter(Boolean))];
+    }
+
     /**
      * Parses and processes command line arguments specific to secret management operations
      * Extends base argument parsing with secret-specific defaults and environment variable fallbacks
@@ -151,10 +1181,66 @@ export class SecretCLIController extends CLIController {
      * @public
      */
     public async fill(args: string[] | IArgs): Promise<ISecretArgs> {
-        let parsed: Partial<ISecretArgs> = this.extract(args);
-        parsed.action !== 'metadata' && (parsed.key = parsed.key || (process.env.KOZEN_SM_KEY as IAction));
+        // the arguments after '--' form the command of the exec action
+        const separator = Array.isArray(args) ? args.indexOf('--') : -1;
+        const command = separator >= 0 ? (args as string[]).slice(separator + 1) : undefined;
+        let parsed: Partial<ISecretArgs> = this.extract(separator >= 0 ? (args as string[]).slice(0, separator) : args);
+        command && (parsed.command = command);
+        parsed.action === 'exec' && (parsed.file = parsed.file || process.env.KOZEN_SM_MANIFEST);
+        !['metadata', 'list', 'due', 'export', 'import', 'render', 'exec', 'audit', 'sync', 'init-master-key', 'migrate-key-vault', 'rotate'].includes(parsed.action as string) && (parsed.key = parsed.key || (process.env.KOZEN_SM_KEY as IAction));
         parsed.action === 'set' && (parsed.value = parsed.value || process.env.KOZEN_SM_VAL);
         parsed.driver = process.env.KOZEN_SM_DRIVER || parsed.driver;
         return parsed as ISecretArgs;
     }
+
+    /**
+     * Builds the caller options of an action: flow identifier, cli source, the --role of the access policy and the
+     * --namespace and --environment scope, an omitted scope flag keeps the configured or KOZEN_SM_* scope
+     * 
+     * @param {unknown} options - CLI options of the action
+     * @returns {ISecretManagerOptions} The flow, source, role and scope options
+     * @protected
+     */
+    protected getCaller(options: unknown): ISecretManagerOptions {
+        const { role, namespace, environment } = options as ISecretArgs;
+        return {
+            flow: this.getId(options as IConfig),
+            source: 'cli',
+            role,
+            ...(namespace !== undefined ? { namespace: String(namespace) } : {}),
+            ...(environment !== undefined ? { environment: String(environment) } : {})
+        };
+    }
+
+    /**
+     * Builds the lifecycle metadata of the 'set' action from its options
+     * 
+     * @param {Object} options - CLI options of the action
+     * @returns {ISecretLease | undefined} The lifecycle metadata, undefined when none is given
+     * @protected
+     */
+    protected getLease(options: { expires?: string, 'rotate-every'?: number | string, owner?: string, tags?: string, description?: string }): ISecretLease | undefined {
+        const lease: ISecretLease = {
+            expiresAt: options.expires || undefined,
+            rotateEvery: options['rotate-every'] ? Number(options['rotate-every']) : undefined,
+            owner: options.owner || undefined,
+            description: options.description || undefined,
+            tags: options.tags ? Object.fromEntries(String(options.tags).split(',').map(item => {
+                const [name, ...value] = item.split('=');
+                return [name.trim(), value.join('=').trim()];
+            }).filter(([name]) => name)) : undefined
+        };
+        return Object.values(lease).some(value => value !== undefined) ? lease : undefined;
+    }
+
+    /**
+     * Interprets a command line switch that may be parsed as a boolean or a string
+     * 
+     * @param {boolean | string} [value] - Raw switch value
+     * @returns {boolean} True if the switch is enabled
+     * @protected
+     */
+    protected isEnabled(value?: boolean | string): boolean {
+        return value === true || value === 'true' || value === '';
+    }
 }
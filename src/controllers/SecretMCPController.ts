@@ -1,22 +1,48 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types";
 import { z } from "zod";
-import { MCPController } from "@kozen/engine";
+import { IIoC, ILogger, MCPController } from "@kozen/engine";
+import { ISecretManagerOptions } from "../models/Secret";
 import { ISecretManager } from "../models/SecretManager";
+import { ISecretWatcher } from "../models/SecretWatch";
+import { SecretRedactor } from "../services/SecretRedactor";
 
 export class SecretMCPController extends MCPController {
 
+    /**
+     * Shared redactor, the tools only return secret values when its 'reveal' option allows it
+     * @protected
+     * @type {SecretRedactor}
+     */
+    protected redactor: SecretRedactor;
+
+    /**
+     * Watches of the subscribed resources by URI, stored while they start so concurrent subscriptions share them
+     * @protected
+     * @type {Map<string, Promise<ISecretWatcher>>}
+     */
+    protected watchers: Map<string, Promise<ISecretWatcher>> = new Map();
+
+    constructor(dep?: { assistant: IIoC, logger: ILogger, redactor?: SecretRedactor }) {
+        super(dep);
+        this.redactor = dep?.redactor || new SecretRedactor();
+        this.logger = this.redactor.wrap(this.logger);
+    }
+
     public async register(server: McpServer): Promise<void> {
         // select secrets
         server.registerTool("kozen_secret_select",
             {
                 description: "Get secret content",
                 inputSchema: {
-                    key: z.string().describe("secret key")
+                    key: z.string().describe("secret key, 'name#jsonPath' selects a single field of a JSON secret"),
+                    version: z.string().optional().describe("secret version, defaults to the current one"),
+                    stage: z.string().optional().describe("secret stage, e.g. current or previous")
                 },
             },
             this.select.bind(this)
         );
-        // list secrets
+        // save secrets
         server.registerTool("kozen_secret_save",
             {
                 description: "Create or update a secret",
@@ -27,26 +53,95 @@ export class SecretMCPController extends MCPController {
             },
             this.create.bind(this)
         );
+        // delete secrets
+        server.registerTool("kozen_secret_delete",
+            {
+                description: "Delete a secret",
+                inputSchema: {
+                    key: z.string().describe("secret key")
+                }
+            },
+            this.delete.bind(this)
+        );
+        // list secrets
+        server.registerTool("kozen_secret_list",
+            {
+                description: "List secret keys and metadata, values are never returned",
+                inputSchema: {
+                    prefix: z.string().optional().describe("secret key prefix")
+                }
+            },
+            this.list.bind(this)
+        );
+        // describe secrets
+        server.registerTool("kozen_secret_describe",
+            {
+                description: "Get secret metadata, the value is never returned",
+                inputSchema: {
+                    key: z.string().describe("secret key")
+                }
+            },
+            this.describe.bind(this)
+        );
+        // select several secrets at once
+        server.registerTool("kozen_secret_select_many",
+            {
+                description: "Get the content of several secrets in one batch, a missing or failed key does not fail the others",
+                inputSchema: {
+                    keys: z.array(z.string()).describe("secret keys, 'name#jsonPath' selects a single field of a JSON secret"),
+                    version: z.string().optional().describe("secret version, defaults to the current one"),
+                    stage: z.string().optional().describe("secret stage, e.g. current or previous")
+                },
+            },
+            this.selectMany.bind(this)
+        );
+        // save several secrets at once
+        server.registerTool("kozen_secret_save_many",
+            {
+                description: "Create or update several secrets in one batch",
+                inputSchema: {
+                    entries: z.array(z.object({
+                        key: z.string().describe("secret key"),
+                        value: z.string().describe("secret value")
+                    })).describe("secrets to save")
+                }
+            },
+            this.createMany.bind(this)
+        );
+        // secret metadata as resources, 'kozen-secret://prod/*' covers a prefix; subscribers learn about every change
+        server.registerResource("kozen_secret",
+            new ResourceTemplate(`${RESOURCE}{+key}`, { list: undefined }),
+            {
+                description: "Secret metadata, the value is never returned; subscribe to be notified when the secret changes",
+                mimeType: "application/json"
+            },
+            this.read.bind(this)
+        );
+        server.server.registerCapabilities({ resources: { subscribe: true } });
+        server.server.setRequestHandler(SubscribeRequestSchema, (request, extra) => this.subscribe(server, request.params.uri, extra));
+        server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => this.unsubscribe(request.params.uri));
     }
 
-    public async select(args: { key: string }, extra?: any) {
-        const { key } = args;
+    public async select(args: { key: string, version?: string, stage?: string }, extra?: any) {
+        const { key, version, stage } = args;
         try {
             if (!key) {
                 throw new Error('Secret key is required for get operation');
             }
 
             const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
-            const value = await srvSecret!.resolve(key);
-            if (!value) {
+            const { value, provider } = await srvSecret!.lookup(key, { version, stage, ...this.getCaller(extra) });
+            if (value === null || value === undefined) {
                 throw new Error('Failed to resolve secret key');
             }
 
+            // binary secrets are returned as base64 text, values are withheld unless redact.reveal is set
+            const content = !this.redactor.options.reveal ? this.redactor.mask(value) : Buffer.isBuffer(value) ? value.toString('base64') : value;
             return {
                 content: [
                     {
                         type: "text" as const,
-                        text: JSON.stringify({ key, value }, null, 2)
+                        text: JSON.stringify({ key, value: content, provider, redacted: !this.redactor.options.reveal }, null, 2)
                     }
                 ]
             };
@@ -62,7 +157,74 @@ export class SecretMCPController extends MCPController {
         }
     }
 
-    public async create(options?: { key?: string, value?: string }): Promise<{ content: { type: "text"; text: string; }[] }> {
+    public async selectMany(args: { keys: string[], version?: string, stage?: string }, extra?: any) {
+        const { keys, version, stage } = args;
+        try {
+            if (!keys?.length) {
+                throw new Error('Secret keys are required for get operation');
+            }
+
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+            const results = await srvSecret!.resolveMany(keys, { version, stage, ...this.getCaller(extra) });
+
+            // binary secrets are returned as base64 text, values are withheld unless redact.reveal is set
+            const reveal = !!this.redactor.options.reveal;
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify(results.map(item => ({
+                            ...item,
+                            value: !reveal ? this.redactor.mask(item.value) : Buffer.isBuffer(item.value) ? item.value.toString('base64') : item.value,
+                            redacted: !reveal
+                        })), null, 2)
+                    }
+                ]
+            };
+        } catch (error) {
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `❌ Failed to resolve secrets: ${(error as Error).message}`
+                    }
+                ]
+            };
+        }
+    }
+
+    public async createMany(options?: { entries?: Array<{ key: string, value: string }> }, extra?: any): Promise<{ content: { type: "text"; text: string; }[] }> {
+        try {
+            const { entries } = options || {};
+
+            if (!entries?.length) {
+                throw new Error('Secret entries are required for save operation');
+            }
+
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+            const results = await srvSecret!.saveMany(entries, this.getCaller(extra));
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify(results, null, 2)
+                    }
+                ]
+            };
+        } catch (error) {
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `❌ Failed to create secrets: ${(error as Error).message}`
+                    }
+                ]
+            };
+        }
+    }
+
+    public async create(options?: { key?: string, value?: string }, extra?: any): Promise<{ content: { type: "text"; text: string; }[] }> {
         try {
             const { key, value } = options || {};
 
@@ -71,7 +233,7 @@ export class SecretMCPController extends MCPController {
             }
 
             const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
-            const result = await srvSecret!.save(key, value);
+            const result = await srvSecret!.save(key, value, this.getCaller(extra));
 
             return {
                 content: [
@@ -92,4 +254,174 @@ export class SecretMCPController extends MCPController {
             };
         }
     }
-}
\ No newline at end of file
+
+    public async delete(args: { key: string }, extra?: any) {
+        const { key } = args;
+        try {
+            if (!key) {
+                throw new Error('Secret key is required for delete operation');
+            }
+
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+            const result = await srvSecret!.delete(key, this.getCaller(extra));
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: String(result)
+                    }
+                ]
+            };
+        } catch (error) {
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `❌ Failed to delete secret '${key}': ${(error as Error).message}`
+                    }
+                ]
+            };
+        }
+    }
+
+    public async list(args: { prefix?: string }, extra?: any) {
+        try {
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+            const result = await srvSecret!.list({ prefix: args?.prefix }, this.getCaller(extra));
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify(result, null, 2)
+                    }
+                ]
+            };
+        } catch (error) {
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `❌ Failed to list secrets: ${(error as Error).message}`
+                    }
+                ]
+            };
+        }
+    }
+
+    public async describe(args: { key: string }, extra?: any) {
+        const { key } = args;
+        try {
+            if (!key) {
+                throw new Error('Secret key is required for describe operation');
+            }
+
+            const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+            const result = await srvSecret!.describe(key, this.getCaller(extra));
+            if (!result) {
+                throw new Error('Failed to describe secret key');
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify(result, null, 2)
+                    }
+                ]
+            };
+        } catch (error) {
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `🔍 Secret '${key}' not found or ${(error as Error).message}.`
+                    }
+                ]
+            };
+        }
+    }
+
+    public async read(uri: URL, variables: Record<string, string | string[]>, extra?: any) {
+        const key = this.getResourceKey(uri.href);
+        const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+        const result = key.endsWith('*')
+            ? await srvSecret!.list({ prefix: key.slice(0, -1) }, this.getCaller(extra))
+            : await srvSecret!.describe(key, this.getCaller(extra));
+        return {
+            contents: [
+                {
+                    uri: uri.href,
+                    mimeType: "application/json",
+                    text: JSON.stringify(result, null, 2)
+                }
+            ]
+        };
+    }
+
+    public async subscribe(server: McpServer, uri: string, extra?: any) {
+        let watcher = this.watchers.get(uri);
+        if (!watcher) {
+            watcher = this.watch(server, uri, extra);
+            this.watchers.set(uri, watcher);
+        }
+        try {
+            await watcher;
+        } catch (error) {
+            this.watchers.get(uri) === watcher && this.watchers.delete(uri);
+            throw error;
+        }
+        return {};
+    }
+
+    /**
+     * Starts watching the secret, or the prefix, of a subscribed resource
+     * @protected
+     * @param {McpServer} server - The MCP server notified of the updates
+     * @param {string} uri - The resource URI
+     * @param {any} [extra] - Request context of the subscription
+     * @returns {Promise<ISecretWatcher>} The started watcher
+     */
+    protected async watch(server: McpServer, uri: string, extra?: any): Promise<ISecretWatcher> {
+        const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+        return srvSecret!.watch(this.getResourceKey(uri), () => server.server.sendResourceUpdated({ uri }), this.getCaller(extra));
+    }
+
+    public async unsubscribe(uri: string) {
+        const pending = this.watchers.get(uri);
+        this.watchers.delete(uri);
+        const watcher = await pending?.catch(() => undefined);
+        await watcher?.close();
+        return {};
+    }
+
+    /**
+     * Retrieves the secret key, or the prefix followed by '*', of a resource URI
+     * @protected
+     * @param {string} uri - The resource URI
+     * @returns {string} The secret key
+     * @throws {Error} When the URI is not a secret resource
+     */
+    protected getResourceKey(uri: string): string {
+        if (!uri.startsWith(RESOURCE)) {
+            throw new Error(`Unsupported resource '${uri}', expected '${RESOURCE}<key>'.`);
+        }
+        return decodeURIComponent(uri.slice(RESOURCE.length));
+    }
+
+    /**
+     * Builds the identity of a tool call, the authenticated MCP client and its scopes as roles when known
+     * @protected
+     * @param {any} [extra] - Request context of the tool call
+     * @returns {ISecretManagerOptions} The source, actor and role options
+     */
+    protected getCaller(extra?: any): ISecretManagerOptions {
+        return { source: 'mcp', actor: extra?.authInfo?.clientId, role: extra?.authInfo?.scopes?.join(',') };
+    }
+}
+
+/**
+ * URI scheme of the secret resources
+ */
+const RESOURCE = 'kozen-secret://';
\ No newline at end of file
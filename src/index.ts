@@ -46,10 +46,30 @@ export class SecretModule extends KzModule {
 }
 
 export default SecretModule;
-export { ISecretArgs, ISecretManagerOptions } from './models/Secret';
+export { ISecretArgs, ISecretDue, ISecretLease, ISecretManagerOptions, SecretEncoding, SecretExpiredError, SecretValue } from './models/Secret';
 export { ISecretManager } from './models/SecretManager';
+export { IRedactOptions } from './models/RedactOptions';
+export { IAuditOptions, ISecretAuditEvent, ISecretAuditFilter, ISecretAuditor } from './models/SecretAudit';
+export { IPolicyOptions, ISecretPolicy, ISecretPolicyRule } from './models/SecretPolicy';
+export { IRotationOptions, IRotatorOptions, ISecretRotationContext, ISecretRotationResult, ISecretRotationRule, ISecretRotationStep, ISecretRotator } from './models/SecretRotator';
+export { ISecretSyncCheckpoint, ISecretSyncItem, ISecretSyncOptions, ISecretSyncResult } from './models/SecretSync';
+export { ISecretWatchEvent, ISecretWatcher, IWatchOptions, SecretWatchCallback } from './models/SecretWatch';
+export { ISecretReference, ISecretTemplateOptions, ISecretTemplateResolver } from './models/SecretTemplate';
 export { SecretManager } from './services/SecretManager';
+export { SecretCache } from './services/SecretCache';
+export { SecretCodec } from './services/SecretCodec';
+export { SecretRedactor } from './services/SecretRedactor';
+export { SecretAuditor } from './services/SecretAuditor';
+export { SecretPolicy } from './services/SecretPolicy';
+export { SecretRotator } from './services/SecretRotator';
+export { SecretRotatorMDB } from './services/SecretRotatorMDB';
+export { SecretRotatorPassword } from './services/SecretRotatorPassword';
+export { SecretRotatorToken } from './services/SecretRotatorToken';
+export { SecretSerializer } from './services/SecretSerializer';
 export { SecretManagerAWS } from './services/SecretManagerAWS';
 export { SecretManagerMDB } from './services/SecretManagerMDB';
+export { SecretManagerFile } from './services/SecretManagerFile';
+export { SecretManagerVault } from './services/SecretManagerVault';
+export { SecretTemplateResolver } from './services/SecretTemplateResolver';
 export { SecretCLIController } from './controllers/SecretCLIController';
 export { SecretMCPController } from './controllers/SecretMCPController';
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * In-process cache configuration for resolve operations
+ * Durations are expressed in milliseconds.
+ * @interface ICacheOptions
+ */
+export interface ICacheOptions {
+    /**
+     * Enables the cache, resolved values are kept in memory only
+     * @type {boolean}
+     * @default false
+     */
+    enabled?: boolean;
+
+    /**
+     * Time a resolved value stays fresh; chain entries may set their own to give every backend its TTL
+     * @type {number}
+     * @default 60000
+     */
+    ttl?: number;
+
+    /**
+     * Time an expired value is still served while it is refreshed in the background (stale-while-revalidate), 0 disables it
+     * @type {number}
+     * @default 0
+     */
+    stale?: number;
+
+    /**
+     * Time a missing key is remembered as missing, 0 disables negative caching
+     * @type {number}
+     * @default 5000
+     */
+    negativeTtl?: number;
+
+    /**
+     * Maximum number of cached entries, the least recently used ones are evicted first
+     * @type {number}
+     * @default 500
+     */
+    size?: number;
+
+    /**
+     * TTL overrides by key, a trailing '*' matches a key prefix, e.g. { "prod/db/*": 300000 }
+     * @type {Record<string, number>}
+     */
+    keys?: Record<string, number>;
+}
@@ -16,4 +16,29 @@ export interface ICloudOptions {
      * @type {string}
      */
     secretAccessKey?: string;
-}
\ No newline at end of file
+
+    /**
+     * Custom service endpoint, e.g. a local Secrets Manager emulator
+     * Falls back to the AWS_ENDPOINT_URL_SECRETS_MANAGER and AWS_ENDPOINT_URL variables
+     * @type {string}
+     */
+    endpoint?: string;
+
+    /**
+     * KMS key identifier (ID, ARN or alias) used to encrypt newly created secrets
+     * @type {string}
+     */
+    kmsKeyId?: string;
+
+    /**
+     * Tags applied to secrets created or updated through the AWS backend
+     * @type {Record<string, string>}
+     */
+    tags?: Record<string, string>;
+
+    /**
+     * Days AWS keeps a deleted secret recoverable (7-30), 0 deletes it immediately
+     * @type {number}
+     */
+    recoveryWindow?: number;
+}
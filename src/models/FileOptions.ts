@@ -0,0 +1,34 @@
+/**
+ * Local encrypted file storage configuration
+ * Key fields hold the name of the environment variable that provides the value, the same way ICloudOptions does.
+ * @interface IFileOptions
+ */
+export interface IFileOptions {
+    /**
+     * Path of the encrypted secrets file
+     * @type {string}
+     * @default .kozen/secrets.enc
+     */
+    path?: string;
+
+    /**
+     * Environment variable holding the base64 encoded 32-byte AES-256-GCM key
+     * @type {string}
+     * @default KOZEN_SM_FILE_KEY
+     */
+    key?: string;
+
+    /**
+     * Environment variable holding a passphrase, the key is derived with scrypt when no raw key is set
+     * @type {string}
+     * @default KOZEN_SM_FILE_PASSPHRASE
+     */
+    passphrase?: string;
+
+    /**
+     * Maximum time in milliseconds to wait for the file lock held by a parallel process
+     * @type {number}
+     * @default 10000
+     */
+    lockTimeout?: number;
+}
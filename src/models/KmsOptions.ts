@@ -0,0 +1,241 @@
+/**
+ * @fileoverview KMS provider configuration models
+ * Defines the Key Management Service providers used to wrap MongoDB CSFLE data keys.
+ * Credential fields hold the name of the environment variable that provides the value, the same way ICloudOptions does.
+ * @author MDB SAT
+ * @since 1.0.6
+ * @version 1.0.6
+ */
+
+/**
+ * AWS KMS provider configuration
+ * @interface IKmsAwsOptions
+ */
+export interface IKmsAwsOptions {
+    /**
+     * Environment variable holding the access key identifier
+     * @type {string}
+     * @default cloud.accessKeyId or AWS_ACCESS_KEY_ID
+     */
+    accessKeyId?: string;
+
+    /**
+     * Environment variable holding the secret access key
+     * @type {string}
+     * @default cloud.secretAccessKey or AWS_SECRET_ACCESS_KEY
+     */
+    secretAccessKey?: string;
+
+    /**
+     * Environment variable holding the session token for temporary credentials
+     * @type {string}
+     * @default AWS_SESSION_TOKEN
+     */
+    sessionToken?: string;
+
+    /**
+     * Region of the customer master key
+     * @type {string}
+     * @default cloud.region
+     */
+    region?: string;
+
+    /**
+     * ARN of the customer master key
+     * @type {string}
+     */
+    key?: string;
+
+    /**
+     * Custom KMS endpoint
+     * @type {string}
+     */
+    endpoint?: string;
+}
+
+/**
+ * Azure Key Vault provider configuration
+ * @interface IKmsAzureOptions
+ */
+export interface IKmsAzureOptions {
+    /**
+     * Environment variable holding the tenant identifier
+     * @type {string}
+     * @default AZURE_TENANT_ID
+     */
+    tenantId?: string;
+
+    /**
+     * Environment variable holding the client identifier
+     * @type {string}
+     * @default AZURE_CLIENT_ID
+     */
+    clientId?: string;
+
+    /**
+     * Environment variable holding the client secret
+     * @type {string}
+     * @default AZURE_CLIENT_SECRET
+     */
+    clientSecret?: string;
+
+    /**
+     * Custom identity platform endpoint
+     * @type {string}
+     */
+    identityPlatformEndpoint?: string;
+
+    /**
+     * Key Vault endpoint hosting the customer master key
+     * @type {string}
+     */
+    keyVaultEndpoint?: string;
+
+    /**
+     * Name of the customer master key
+     * @type {string}
+     */
+    keyName?: string;
+
+    /**
+     * Version of the customer master key
+     * @type {string}
+     */
+    keyVersion?: string;
+}
+
+/**
+ * Google Cloud KMS provider configuration
+ * @interface IKmsGcpOptions
+ */
+export interface IKmsGcpOptions {
+    /**
+     * Environment variable holding the service account email
+     * @type {string}
+     * @default GCP_EMAIL
+     */
+    email?: string;
+
+    /**
+     * Environment variable holding the service account private key
+     * @type {string}
+     * @default GCP_PRIVATE_KEY
+     */
+    privateKey?: string;
+
+    /**
+     * Project identifier of the key ring
+     * @type {string}
+     */
+    projectId?: string;
+
+    /**
+     * Location of the key ring
+     * @type {string}
+     */
+    location?: string;
+
+    /**
+     * Name of the key ring
+     * @type {string}
+     */
+    keyRing?: string;
+
+    /**
+     * Name of the customer master key
+     * @type {string}
+     */
+    keyName?: string;
+
+    /**
+     * Version of the customer master key
+     * @type {string}
+     */
+    keyVersion?: string;
+
+    /**
+     * Custom KMS endpoint
+     * @type {string}
+     */
+    endpoint?: string;
+}
+
+/**
+ * KMIP provider configuration
+ * @interface IKmsKmipOptions
+ */
+export interface IKmsKmipOptions {
+    /**
+     * KMIP server endpoint in host[:port] format
+     * @type {string}
+     */
+    endpoint?: string;
+
+    /**
+     * Identifier of an existing KMIP managed object, a new one is created when omitted
+     * @type {string}
+     */
+    keyId?: string;
+
+    /**
+     * Whether the KMIP server performs the encryption of the data key
+     * @type {boolean}
+     */
+    delegated?: boolean;
+
+    /**
+     * Path of the CA file used to verify the KMIP server
+     * @type {string}
+     */
+    tlsCAFile?: string;
+
+    /**
+     * Path of the client certificate and key file
+     * @type {string}
+     */
+    tlsCertificateKeyFile?: string;
+
+    /**
+     * Environment variable holding the client certificate key password
+     * @type {string}
+     */
+    tlsCertificateKeyFilePassword?: string;
+}
+
+/**
+ * KMS configuration for MongoDB CSFLE data keys
+ * @interface IKmsOptions
+ */
+export interface IKmsOptions {
+    /**
+     * Provider used to wrap new data keys
+     * @type {string}
+     * Supported providers: local, aws, azure, gcp, kmip
+     * @default local
+     */
+    provider?: string;
+
+    /**
+     * AWS KMS settings
+     * @type {IKmsAwsOptions}
+     */
+    aws?: IKmsAwsOptions;
+
+    /**
+     * Azure Key Vault settings
+     * @type {IKmsAzureOptions}
+     */
+    azure?: IKmsAzureOptions;
+
+    /**
+     * Google Cloud KMS settings
+     * @type {IKmsGcpOptions}
+     */
+    gcp?: IKmsGcpOptions;
+
+    /**
+     * KMIP settings
+     * @type {IKmsKmipOptions}
+     */
+    kmip?: IKmsKmipOptions;
+}
@@ -0,0 +1,92 @@
+import { IMdbClientOpt } from "@kozen/engine";
+import { IKmsOptions } from "./KmsOptions";
+
+/**
+ * Namespace of the CSFLE key vault holding the data encryption keys
+ * @interface IKeyVaultOptions
+ */
+export interface IKeyVaultOptions {
+    /**
+     * Key vault database
+     * @type {string}
+     * @default mdb.database
+     */
+    database?: string;
+
+    /**
+     * Key vault collection, it must differ from the secrets collection
+     * @type {string}
+     * @default __keyVault
+     */
+    collection?: string;
+}
+
+/**
+ * MongoDB storage configuration for the CSFLE secret backend
+ * @interface IMdbOptions
+ * @extends IMdbClientOpt
+ */
+export interface IMdbOptions extends IMdbClientOpt {
+    /**
+     * KMS providers configuration used to wrap the data encryption keys
+     * @type {IKmsOptions}
+     */
+    kms?: IKmsOptions;
+
+    /**
+     * Refuses to run without a valid local master key instead of using a random ephemeral one
+     * @type {boolean}
+     * @default true
+     */
+    strict?: boolean;
+
+    /**
+     * Path of a file holding the base64 local master key, used when the variable named by `key` is unset
+     * @type {string}
+     */
+    keyFile?: string;
+
+    /**
+     * Environment variable holding the former local master key during a master key rotation
+     * @type {string}
+     * @default MDB_MASTER_KEY_PREVIOUS
+     */
+    previousKey?: string;
+
+    /**
+     * Key vault namespace for the data encryption keys
+     * @type {IKeyVaultOptions}
+     */
+    keyVault?: IKeyVaultOptions;
+
+    /**
+     * Collection holding the bookkeeping documents of the backend, it must differ from the secrets collection
+     * @type {string}
+     * @default <collection>.meta
+     */
+    metaCollection?: string;
+
+    /**
+     * Data key assignment strategy
+     * shared: one data key for the whole collection, named by keyAltName
+     * namespace: one data key per key path prefix, e.g. 'tenant-a' for 'tenant-a/db-password'
+     * secret: one data key per secret, so a single secret can be crypto-shredded
+     * @type {string}
+     * @default shared
+     */
+    keyStrategy?: string;
+
+    /**
+     * Stores the secret key field encrypted with the deterministic algorithm, so names are not readable in plain text
+     * @type {boolean}
+     * @default false
+     */
+    encryptKey?: boolean;
+
+    /**
+     * Creates a TTL index on the expiry date, so MongoDB deletes the secret versions saved with an expiry once it passes
+     * @type {boolean}
+     * @default false
+     */
+    ttl?: boolean;
+}
@@ -0,0 +1,33 @@
+/**
+ * Redaction configuration, masks the secret values handled by the module in logs and outputs
+ * @interface IRedactOptions
+ */
+export interface IRedactOptions {
+    /**
+     * Replacement text of a secret value, its length does not depend on the value
+     * @type {string}
+     * @default "********"
+     */
+    mask?: string;
+
+    /**
+     * Shortest value masked, shorter values would match too much unrelated text
+     * @type {number}
+     * @default 4
+     */
+    minLength?: number;
+
+    /**
+     * Maximum number of remembered values, the oldest ones are forgotten first
+     * @type {number}
+     * @default 1000
+     */
+    size?: number;
+
+    /**
+     * Allows the MCP tools to return secret values, they only report whether a secret resolved otherwise
+     * @type {boolean}
+     * @default false
+     */
+    reveal?: boolean;
+}
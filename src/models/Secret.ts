@@ -6,8 +6,15 @@
  * @version 1.0.5
  */
 
-import { IArgs, IMdbClientOpt } from "@kozen/engine";
+import { IArgs } from "@kozen/engine";
+import { Binary } from "mongodb";
+import { ICacheOptions } from "./CacheOptions";
 import { ICloudOptions } from "./CloudOptions";
+import { IFileOptions } from "./FileOptions";
+import { IMdbOptions } from "./MdbOptions";
+import { IRotationOptions } from "./SecretRotator";
+import { IWatchOptions } from "./SecretWatch";
+import { IVaultOptions } from "./VaultOptions";
 
 /**
  * Configuration interface for secret management backend
@@ -20,13 +27,67 @@ export interface ISecretManagerOptions {
      */
     flow?: string;
 
+    /**
+     * Identity recorded in the audit trail, KOZEN_SM_ACTOR or the operating system user by default
+     * @type {string}
+     */
+    actor?: string;
+
+    /**
+     * Entry point recorded in the audit trail: cli, mcp or api
+     * @type {string}
+     * @default api
+     */
+    source?: string;
+
+    /**
+     * Comma separated caller roles matched by the access policy, KOZEN_SM_ROLE by default
+     * @type {string}
+     */
+    role?: string;
+
+    /**
+     * Tenant namespace of the keys, KOZEN_SM_NAMESPACE by default; a single name, an empty one disables it
+     * @type {string}
+     */
+    namespace?: string;
+
+    /**
+     * Environment scope of the keys, KOZEN_SM_ENVIRONMENT by default; '/' separates nested scopes, e.g. 'prod/eu'
+     * @type {string}
+     */
+    environment?: string;
+
+    /**
+     * Resolves the keys missing in the environment scope from its parent scopes, 'prod/eu' falls back to 'prod'
+     * Only resolve operations inherit, the other operations act on the exact scope
+     * @type {boolean}
+     * @default true
+     */
+    inherit?: boolean;
+
     /**
      * Secret backend type for storage and retrieval operations
      * @type {string}
-     * Supported backends: AWS, MDB, ENV
+     * Supported backends: AWS, MDB, FILE, VAULT, ENV
      */
     type?: string;
 
+    /**
+     * Ordered provider chain for resolve operations, the first provider holding the value wins
+     * Entries are backend types (e.g. mdb, aws, file, env) or provider settings restricted to some environments
+     * Defaults to the configured type followed by env
+     * @type {Array<string | ISecretProviderOptions>}
+     */
+    chain?: Array<string | ISecretProviderOptions>;
+
+    /**
+     * Write target for save operations, a list writes through every provider
+     * Defaults to the first provider of the chain other than env
+     * @type {string | string[]}
+     */
+    write?: string | string[];
+
     /**
      * Cloud provider authentication settings for AWS integration
      * @type {Object}
@@ -37,7 +98,424 @@ export interface ISecretManagerOptions {
      * MongoDB storage configuration for encrypted secret management
      * @type {Object}
      */
-    mdb?: IMdbClientOpt;
+    mdb?: IMdbOptions;
+
+    /**
+     * Local encrypted file storage configuration for offline and development use
+     * @type {Object}
+     */
+    file?: IFileOptions;
+
+    /**
+     * HashiCorp Vault KV v2 configuration
+     * @type {Object}
+     */
+    vault?: IVaultOptions;
+
+    /**
+     * In-process cache of resolve results; chain entries may override the TTL of their backend
+     * @type {Object}
+     */
+    cache?: ICacheOptions;
+
+    /**
+     * Handling of expired secrets on resolve operations: warn, refuse or ignore
+     * AWS reads the expiry of the returned version with a DescribeSecret request
+     * @type {string}
+     * @default warn
+     */
+    expiry?: string;
+
+    /**
+     * Value rotation handlers by key pattern
+     * @type {IRotationOptions}
+     */
+    rotation?: IRotationOptions;
+
+    /**
+     * Change notification settings of the watch operation
+     * @type {IWatchOptions}
+     */
+    watch?: IWatchOptions;
+
+    /**
+     * Lifecycle metadata written with the value on save operations
+     * Per-call metadata, it is not kept in the shared backend configuration
+     * @type {ISecretLease}
+     */
+    lease?: ISecretLease;
+
+    /**
+     * Secret version selector for resolve operations (MDB version number or AWS VersionId)
+     * Per-call selector, it is not kept in the shared backend configuration
+     * @type {string | number}
+     */
+    version?: string | number;
+
+    /**
+     * Secret stage selector for resolve operations: current, previous or a backend specific label
+     * Per-call selector, it is not kept in the shared backend configuration
+     * @type {string}
+     */
+    stage?: string;
+
+    /**
+     * Destroys the per-secret data key together with the secret on delete operations
+     * Per-call flag, it is not kept in the shared backend configuration
+     * @type {boolean}
+     */
+    shred?: boolean;
+
+    /**
+     * Stored representation of the value for resolve operations, 'auto' detects JSON documents and UTF-8 text
+     * Per-call selector, it is not kept in the shared backend configuration
+     * @type {SecretEncoding}
+     * @default auto
+     */
+    encoding?: SecretEncoding;
+}
+
+/**
+ * Stored representation of a secret value
+ * - auto: JSON objects and arrays are parsed, valid UTF-8 bytes become text, anything else stays binary
+ * - text: the value as a string, never parsed
+ * - json: the value must be a JSON document
+ * - base64: the value is base64 text, decoded to bytes
+ * - binary: the value as bytes
+ */
+export type SecretEncoding = 'auto' | 'text' | 'json' | 'base64' | 'binary';
+
+/**
+ * Env-file format of the export and import actions
+ */
+export type SecretFormat = 'dotenv' | 'json' | 'yaml' | 'shell';
+
+/**
+ * Decoded secret value: text, scalars, JSON documents or binary data, null when absent
+ */
+export type SecretValue = string | number | boolean | Buffer | Record<string, any> | any[] | null | undefined;
+
+/**
+ * Provider settings of a chain entry, merged over the secret manager configuration
+ * @interface ISecretProviderOptions
+ * @extends ISecretManagerOptions
+ */
+export interface ISecretProviderOptions extends ISecretManagerOptions {
+    /**
+     * Environments where the provider applies, matched against KOZEN_STACK or NODE_ENV; all when omitted
+     * @type {string[]}
+     */
+    environments?: string[];
+}
+
+/**
+ * Resolved secret value together with the provider that holds it
+ * @interface ISecretResult
+ */
+export interface ISecretResult {
+    /**
+     * Secret key identifier
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Resolved secret value, null or undefined when no provider holds it
+     * @type {SecretValue}
+     */
+    value: SecretValue;
+
+    /**
+     * Provider type the value came from
+     * @type {string}
+     */
+    provider?: string;
+
+    /**
+     * Environment scope the value came from, a parent scope when it was inherited
+     * @type {string}
+     */
+    environment?: string;
+}
+
+/**
+ * Per-key outcome of a batch resolve operation, a failed key does not fail the batch
+ * @interface ISecretBatchResult
+ * @extends ISecretResult
+ */
+export interface ISecretBatchResult extends ISecretResult {
+    /**
+     * Failure reported for this key, the value is null in that case
+     * @type {string}
+     */
+    error?: string;
+
+    /**
+     * Set when the key was refused because it expired, the chain does not fall back to other scopes or providers
+     * @type {boolean}
+     */
+    expired?: boolean;
+}
+
+/**
+ * Secret entry of a batch save operation
+ * @interface ISecretEntry
+ */
+export interface ISecretEntry {
+    /**
+     * Secret key identifier
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Secret value to store
+     * @type {string | Binary | Record<string, any>}
+     */
+    value: string | Binary | Record<string, any>;
+
+    /**
+     * Lifecycle metadata written with the value
+     * @type {ISecretLease}
+     */
+    lease?: ISecretLease;
+}
+
+/**
+ * Lifecycle metadata of a secret
+ * New versions keep the owner, description, tags and rotation period of the former one, the expiry only applies to
+ * the version saved with it
+ * @interface ISecretLease
+ */
+export interface ISecretLease {
+    /**
+     * Date after which the value must no longer be used, as a Date or an ISO 8601 string
+     * @type {Date | string}
+     */
+    expiresAt?: Date | string;
+
+    /**
+     * Rotation period in days, counted from the last value change
+     * @type {number}
+     */
+    rotateEvery?: number;
+
+    /**
+     * Person or team responsible for the secret
+     * @type {string}
+     */
+    owner?: string;
+
+    /**
+     * Free form tags
+     * @type {Record<string, string>}
+     */
+    tags?: Record<string, string>;
+
+    /**
+     * Human readable description of the secret
+     * @type {string}
+     */
+    description?: string;
+}
+
+/**
+ * Error raised when an expired secret is refused, it stops the provider chain instead of falling back
+ * @class SecretExpiredError
+ * @extends Error
+ */
+export class SecretExpiredError extends Error {
+    /**
+     * Creates a new SecretExpiredError instance
+     * @constructor
+     * @param {string} key - The secret key
+     * @param {Date} expiresAt - The expiry date of the resolved version
+     */
+    constructor(public key: string, public expiresAt: Date) {
+        super(`Secret '${key}' expired on ${expiresAt.toISOString()}.`);
+        this.name = 'SecretExpiredError';
+    }
+}
+
+/**
+ * Per-key outcome of a batch save operation, a failed key does not fail the batch
+ * @interface ISecretSaveResult
+ */
+export interface ISecretSaveResult {
+    /**
+     * Secret key identifier
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * True if every write target stored the value
+     * @type {boolean}
+     */
+    saved: boolean;
+
+    /**
+     * Failure reported for this key
+     * @type {string}
+     */
+    error?: string;
+}
+
+/**
+ * Secret metadata returned by describe and list operations, never includes the secret value
+ * @interface ISecretMetadata
+ */
+export interface ISecretMetadata {
+    /**
+     * Secret key identifier
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Backend type holding the secret
+     * @type {string}
+     */
+    type?: string;
+
+    /**
+     * Whether the stored value is encrypted at rest by the backend
+     * @type {boolean}
+     */
+    encrypted?: boolean;
+
+    /**
+     * Human readable description of the secret
+     * @type {string}
+     */
+    description?: string;
+
+    /**
+     * Backend tags associated with the secret
+     * @type {Record<string, string>}
+     */
+    tags?: Record<string, string>;
+
+    /**
+     * Creation date of the secret
+     * @type {Date}
+     */
+    createdAt?: Date;
+
+    /**
+     * Date of the last value change
+     * @type {Date}
+     */
+    updatedAt?: Date;
+
+    /**
+     * Version identifier of the described secret value
+     * @type {string | number}
+     */
+    version?: string | number;
+
+    /**
+     * Stage label of the described version, e.g. current or previous
+     * @type {string}
+     */
+    stage?: string;
+
+    /**
+     * Flow identifier of the operation that wrote the version
+     * @type {string}
+     */
+    flow?: string;
+
+    /**
+     * Date after which the value must no longer be used
+     * @type {Date}
+     */
+    expiresAt?: Date;
+
+    /**
+     * Rotation period in days, counted from the last value change
+     * @type {number}
+     */
+    rotateEvery?: number;
+
+    /**
+     * Person or team responsible for the secret
+     * @type {string}
+     */
+    owner?: string;
+}
+
+/**
+ * Secret reported by the due operation, expired or due for rotation
+ * @interface ISecretDue
+ * @extends ISecretMetadata
+ */
+export interface ISecretDue extends ISecretMetadata {
+    /**
+     * Why the secret needs attention: expiry or rotation
+     * @type {string}
+     */
+    reason: string;
+
+    /**
+     * Expiry or rotation date, in the past for overdue secrets
+     * @type {Date}
+     */
+    dueAt: Date;
+}
+
+/**
+ * Filter applied when listing secrets
+ * @interface ISecretFilter
+ */
+export interface ISecretFilter {
+    /**
+     * Only include secrets whose key starts with this prefix
+     * @type {string}
+     */
+    prefix?: string;
+
+    /**
+     * Maximum number of entries to return
+     * @type {number}
+     */
+    limit?: number;
+
+    /**
+     * Days ahead included by the due operation, only overdue secrets by default
+     * @type {number}
+     */
+    within?: number;
+}
+
+/**
+ * Outcome of a key rotation
+ * @interface ISecretRotateResult
+ */
+export interface ISecretRotateResult {
+    /**
+     * Rotated key type: master or data
+     * @type {string}
+     */
+    target: string;
+
+    /**
+     * Whether the rotation only reported the planned changes
+     * @type {boolean}
+     */
+    dryRun: boolean;
+
+    /**
+     * Number of data keys rewrapped or replaced
+     * @type {number}
+     */
+    keys: number;
+
+    /**
+     * Number of secret documents re-encrypted
+     * @type {number}
+     */
+    secrets: number;
 }
 
 /**
@@ -57,4 +535,214 @@ export interface ISecretArgs extends IArgs {
      * @type {string}
      */
     value?: string;
+
+    /**
+     * Key prefix used to filter list operations
+     * @type {string}
+     */
+    prefix?: string;
+
+    /**
+     * Version selector for get and rollback operations
+     * @type {string}
+     */
+    revision?: string;
+
+    /**
+     * Stage selector for get operations
+     * @type {string}
+     */
+    stage?: string;
+
+    /**
+     * File path used by file based operations such as init-master-key
+     * @type {string}
+     */
+    file?: string;
+
+    /**
+     * Allows file based operations to overwrite existing files
+     * @type {boolean}
+     */
+    force?: boolean;
+
+    /**
+     * Key type targeted by rotate operations: master or data
+     * @type {string}
+     */
+    target?: string;
+
+    /**
+     * Reports the planned changes of an operation without applying them
+     * @type {boolean}
+     */
+    'dry-run'?: boolean;
+
+    /**
+     * Destroys the per-secret data key on delete operations
+     * @type {boolean}
+     */
+    shred?: boolean;
+
+    /**
+     * Stored representation of the value for the 'get' action: auto, text, json, base64 or binary
+     * @type {string}
+     */
+    encoding?: string;
+
+    /**
+     * Env-file format of the 'export' and 'import' actions: dotenv, json, yaml or shell; detected from the file extension by default
+     * @type {string}
+     */
+    format?: string;
+
+    /**
+     * Comma separated 'from=to' key renaming rules of the 'export' and 'import' actions, 'prefix*=*' strips a prefix
+     * @type {string}
+     */
+    rename?: string;
+
+    /**
+     * 'VAR=key' mappings of the 'exec' action, repeated or comma separated
+     * @type {string | string[]}
+     */
+    map?: string | string[];
+
+    /**
+     * Command and arguments run by the 'exec' action, given after '--'
+     * @type {string[]}
+     */
+    command?: string[];
+
+    /**
+     * Prints the values of the 'get' action instead of masking them
+     * @type {boolean}
+     */
+    reveal?: boolean;
+
+    /**
+     * Expiry date of the 'set' action, an ISO 8601 date
+     * @type {string}
+     */
+    expires?: string;
+
+    /**
+     * Rotation period in days of the 'set' action
+     * @type {number}
+     */
+    'rotate-every'?: number;
+
+    /**
+     * Owner of the secret of the 'set' action
+     * @type {string}
+     */
+    owner?: string;
+
+    /**
+     * Comma separated 'name=value' tags of the 'set' action
+     * @type {string}
+     */
+    tags?: string;
+
+    /**
+     * Description of the secret of the 'set' action
+     * @type {string}
+     */
+    description?: string;
+
+    /**
+     * Rotation handler of the 'rotate-value' action
+     * @type {string}
+     */
+    handler?: string;
+
+    /**
+     * Days ahead included by the 'due' action
+     * @type {number}
+     */
+    within?: number;
+
+    /**
+     * Comma separated caller roles matched by the access policy
+     * @type {string}
+     */
+    role?: string;
+
+    /**
+     * Tenant namespace of the keys, KOZEN_SM_NAMESPACE by default
+     * @type {string}
+     */
+    namespace?: string;
+
+    /**
+     * Environment scope of the keys, KOZEN_SM_ENVIRONMENT by default
+     * @type {string}
+     */
+    environment?: string;
+
+    /**
+     * Identity filter of the 'audit' action
+     * @type {string}
+     */
+    actor?: string;
+
+    /**
+     * Operation filter of the 'audit' action: resolve, save, delete, rollback or rotate
+     * @type {string}
+     */
+    operation?: string;
+
+    /**
+     * Earliest event time of the 'audit' action, an ISO 8601 date; source backend of the 'sync' action
+     * @type {string}
+     */
+    from?: string;
+
+    /**
+     * Latest event time of the 'audit' action, an ISO 8601 date; target backend of the 'sync' action
+     * @type {string}
+     */
+    to?: string;
+
+    /**
+     * Handling of keys holding another value in the target of the 'sync' action: overwrite, skip or newest-wins
+     * @type {string}
+     */
+    conflict?: string;
+
+    /**
+     * Checkpoint file of the 'sync' action
+     * @type {string}
+     */
+    checkpoint?: string;
+
+    /**
+     * Secrets per batch of the 'sync' action
+     * @type {number}
+     */
+    batch?: number;
+
+    /**
+     * Maximum number of events returned by the 'audit' action
+     * @type {number}
+     */
+    limit?: number;
+
+    /**
+     * Verifies the hash chain of the audit trail instead of querying it
+     * @type {boolean}
+     */
+    verify?: boolean;
+
+    /**
+     * Output file of the 'render' action, written with 0600 permissions
+     * @type {string}
+     */
+    out?: string;
+
+    /**
+     * Allows the 'export' and 'render' actions to print plaintext secrets instead of writing a 0600 file
+     * @type {boolean}
+     */
+    'unsafe-plaintext'?: boolean;
 }
\ No newline at end of file
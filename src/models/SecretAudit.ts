@@ -0,0 +1,253 @@
+/**
+ * Audit trail configuration
+ * @interface IAuditOptions
+ */
+export interface IAuditOptions {
+    /**
+     * Records an event for every resolve, save, delete, rollback and rotate operation
+     * @type {boolean}
+     * @default false
+     */
+    enabled?: boolean;
+
+    /**
+     * Event store: file (JSON lines) or mdb (MongoDB collection)
+     * @type {string}
+     * @default file
+     */
+    sink?: string;
+
+    /**
+     * JSON lines file of the file sink
+     * @type {string}
+     * @default .kozen/audit.jsonl
+     */
+    path?: string;
+
+    /**
+     * Environment variable holding the MongoDB connection string of the mdb sink
+     * @type {string}
+     * @default MDB_URI
+     */
+    uri?: string;
+
+    /**
+     * Database of the mdb sink
+     * @type {string}
+     * @default kozen
+     */
+    database?: string;
+
+    /**
+     * Collection of the mdb sink
+     * @type {string}
+     * @default audit
+     */
+    collection?: string;
+
+    /**
+     * Fails the audited operation when its event cannot be written, events are only logged as lost otherwise
+     * @type {boolean}
+     * @default false
+     */
+    required?: boolean;
+
+    /**
+     * Maximum time in milliseconds to wait for the lock of the file sink
+     * @type {number}
+     * @default 10000
+     */
+    lockTimeout?: number;
+}
+
+/**
+ * Audited operation
+ */
+export type SecretAuditAction = 'resolve' | 'save' | 'delete' | 'rollback' | 'rotate';
+
+/**
+ * Audited operation outcome
+ */
+export type SecretAuditOutcome = 'success' | 'not-found' | 'denied' | 'failure';
+
+/**
+ * Audit event, it never holds secret values
+ * @interface ISecretAuditEvent
+ */
+export interface ISecretAuditEvent {
+    /**
+     * Position in the chain, starting at 1
+     * @type {number}
+     */
+    seq: number;
+
+    /**
+     * Event time as an ISO 8601 string
+     * @type {string}
+     */
+    time: string;
+
+    /**
+     * Flow identifier of the operation
+     * @type {string}
+     */
+    flow?: string;
+
+    /**
+     * Identity that performed the operation
+     * @type {string}
+     */
+    actor: string;
+
+    /**
+     * Entry point of the operation: cli, mcp or api
+     * @type {string}
+     */
+    source: string;
+
+    /**
+     * Audited operation
+     * @type {SecretAuditAction}
+     */
+    action: SecretAuditAction;
+
+    /**
+     * Backends involved, comma separated
+     * @type {string}
+     */
+    backend?: string;
+
+    /**
+     * Secret key, or the key type of rotate operations
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Operation outcome
+     * @type {SecretAuditOutcome}
+     */
+    outcome: SecretAuditOutcome;
+
+    /**
+     * Failure message
+     * @type {string}
+     */
+    error?: string;
+
+    /**
+     * Hash of the previous event, empty for the first one
+     * @type {string}
+     */
+    prev: string;
+
+    /**
+     * SHA-256 of the previous hash and the event fields
+     * @type {string}
+     */
+    hash: string;
+}
+
+/**
+ * Audit event to record, the chain fields are computed by the auditor
+ */
+export type ISecretAuditRecord = Omit<ISecretAuditEvent, 'seq' | 'time' | 'prev' | 'hash'>;
+
+/**
+ * Audit query filter
+ * @interface ISecretAuditFilter
+ */
+export interface ISecretAuditFilter {
+    /**
+     * Secret key, a trailing '*' matches a prefix
+     * @type {string}
+     */
+    key?: string;
+
+    /**
+     * Identity that performed the operation
+     * @type {string}
+     */
+    actor?: string;
+
+    /**
+     * Audited operation
+     * @type {string}
+     */
+    action?: string;
+
+    /**
+     * Earliest event time, inclusive
+     * @type {Date}
+     */
+    from?: Date;
+
+    /**
+     * Latest event time, inclusive
+     * @type {Date}
+     */
+    to?: Date;
+
+    /**
+     * Maximum number of events, the latest ones are returned
+     * @type {number}
+     */
+    limit?: number;
+}
+
+/**
+ * Audit chain verification outcome
+ * @interface ISecretAuditVerifyResult
+ */
+export interface ISecretAuditVerifyResult {
+    /**
+     * True if every event matches its hash and links to the previous one
+     * @type {boolean}
+     */
+    valid: boolean;
+
+    /**
+     * Number of verified events
+     * @type {number}
+     */
+    count: number;
+
+    /**
+     * Position of the first altered, removed or reordered event
+     * @type {number}
+     */
+    broken?: number;
+
+    /**
+     * Reason of the failure
+     * @type {string}
+     */
+    reason?: string;
+}
+
+/**
+ * Secret audit trail interface, records hash chained events of the secret operations
+ * @interface ISecretAuditor
+ */
+export interface ISecretAuditor {
+    /**
+     * Appends events to the chain, nothing is written when auditing is disabled
+     * @param {ISecretAuditRecord[]} records - The events to record
+     * @returns {Promise<void>} Promise resolving when the events are stored
+     * @throws {Error} When the events cannot be written and auditing is required
+     */
+    record(...records: ISecretAuditRecord[]): Promise<void>;
+
+    /**
+     * Retrieves the events matching a filter in chain order
+     * @param {ISecretAuditFilter} [filter] - Optional key, actor, action and time range filter
+     * @returns {Promise<ISecretAuditEvent[]>} Promise resolving to the matching events
+     */
+    query(filter?: ISecretAuditFilter): Promise<ISecretAuditEvent[]>;
+
+    /**
+     * Recomputes the hash chain to detect altered, removed or reordered events
+     * @returns {Promise<ISecretAuditVerifyResult>} Promise resolving to the verification outcome
+     */
+    verify(): Promise<ISecretAuditVerifyResult>;
+}
@@ -1,5 +1,8 @@
 import { Binary } from "mongodb";
-import { ISecretManagerOptions } from "./Secret";
+import { ISecretBatchResult, ISecretDue, ISecretEntry, ISecretFilter, ISecretManagerOptions, ISecretMetadata, ISecretResult, ISecretSaveResult, SecretValue } from "./Secret";
+import { ISecretRotationResult } from "./SecretRotator";
+import { ISecretSyncOptions, ISecretSyncResult } from "./SecretSync";
+import { ISecretWatcher, SecretWatchCallback } from "./SecretWatch";
 
 /**
  * Secret manager interface defining storage and retrieval operations
@@ -17,20 +20,139 @@ export interface ISecretManager {
      * Resolves a secret value from the configured backend
      * @param {string} key - The secret key to resolve
      * @param {ISecretManagerOptions} [options] - Optional configuration override
-     * @returns {Promise<string | null | undefined | number | boolean>} Promise resolving to the secret value
+     * @returns {Promise<SecretValue>} Promise resolving to the secret value
      * @throws {Error} When secret resolution fails
      */
-    resolve(key: string, options?: ISecretManagerOptions): Promise<string | null | undefined | number | boolean>;
+    resolve(key: string, options?: ISecretManagerOptions): Promise<SecretValue>;
+
+    /**
+     * Resolves a secret value through the provider chain and reports the provider holding it
+     * @param {string} key - The secret key to resolve
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretResult>} Promise resolving to the secret value and its provider
+     * @throws {Error} When secret resolution fails
+     */
+    lookup(key: string, options?: ISecretManagerOptions): Promise<ISecretResult>;
 
     /**
      * Saves a secret value to the configured backend storage
      * @param {string} key - The secret key to store
-     * @param {string | Binary} value - The secret value to store
+     * @param {string | Binary | Record<string, any>} value - The secret value to store
      * @param {ISecretManagerOptions} [options] - Optional configuration override
      * @returns {Promise<boolean>} Promise resolving to true if save operation succeeds
      * @throws {Error} When secret storage fails
      */
-    save(key: string, value: string | Binary, options?: ISecretManagerOptions): Promise<boolean>;
+    save(key: string, value: string | Binary | Record<string, any>, options?: ISecretManagerOptions): Promise<boolean>;
+
+    /**
+     * Resolves several secret values with a single round trip per backend where the backend supports it
+     * @param {string[]} keys - The secret keys to resolve
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretBatchResult[]>} Promise resolving to one result per key, in the order of the keys
+     * @throws {Error} When the backend cannot be reached at all
+     */
+    resolveMany(keys: string[], options?: ISecretManagerOptions): Promise<ISecretBatchResult[]>;
+
+    /**
+     * Saves several secret values with a single round trip per backend where the backend supports it
+     * @param {ISecretEntry[]} entries - The secret entries to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretSaveResult[]>} Promise resolving to one result per entry, in the order of the entries
+     * @throws {Error} When the backend cannot be reached at all
+     */
+    saveMany(entries: ISecretEntry[], options?: ISecretManagerOptions): Promise<ISecretSaveResult[]>;
+
+    /**
+     * Deletes a secret from the configured backend storage
+     * @param {string} key - The secret key to delete
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the secret existed and was deleted
+     * @throws {Error} When secret deletion fails
+     */
+    delete(key: string, options?: ISecretManagerOptions): Promise<boolean>;
+
+    /**
+     * Lists the metadata of the secrets stored in the configured backend
+     * @param {ISecretFilter} [filter] - Optional prefix and limit filter
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the secret metadata list, without values
+     * @throws {Error} When listing fails
+     */
+    list(filter?: ISecretFilter, options?: ISecretManagerOptions): Promise<ISecretMetadata[]>;
+
+    /**
+     * Lists the secrets that are expired or due for rotation, the most overdue first
+     * @param {ISecretFilter} [filter] - Optional prefix, limit and days ahead filter
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretDue[]>} Promise resolving to the due secrets with the reason and the due date
+     * @throws {Error} When listing fails
+     */
+    due(filter?: ISecretFilter, options?: ISecretManagerOptions): Promise<ISecretDue[]>;
+
+    /**
+     * Describes a secret stored in the configured backend
+     * @param {string} key - The secret key to describe
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata | null>} Promise resolving to the secret metadata, without value, or null if not found
+     * @throws {Error} When the describe operation fails
+     */
+    describe(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata | null>;
+
+    /**
+     * Lists the stored versions of a secret, newest first
+     * @param {string} key - The secret key to inspect
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the version metadata list, without values
+     * @throws {Error} When the history cannot be retrieved
+     */
+    history(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata[]>;
+
+    /**
+     * Promotes a previous version of a secret back to the current stage
+     * @param {string} key - The secret key to roll back
+     * @param {string | number} version - The version to promote
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the version was promoted
+     * @throws {Error} When the rollback fails
+     */
+    rollback(key: string, version: string | number, options?: ISecretManagerOptions): Promise<boolean>;
+
+    /**
+     * Rotates the value of a secret with a rotation handler: generate, apply, save and verify, undone after a failed step
+     * @param {string} key - The secret key, a '#field' selector names the rotated field of a JSON secret
+     * @param {string} [handler] - Rotation handler, by default the one of the rotation rule of the key
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretRotationResult>} Promise resolving to the outcome of every step
+     * @throws {Error} When the access policy denies the rotation
+     */
+    rotateValue(key: string, handler?: string, options?: ISecretManagerOptions): Promise<ISecretRotationResult>;
+
+    /**
+     * Copies the secrets of one backend into another, resuming an interrupted run from its checkpoint
+     * @param {string} from - Source backend type
+     * @param {string} to - Target backend type
+     * @param {ISecretSyncOptions} [settings] - Optional prefix, conflict policy, dry-run, checkpoint and batch settings
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretSyncResult>} Promise resolving to the action taken for every key
+     * @throws {Error} When the backends or the conflict policy are invalid
+     */
+    sync(from: string, to: string, settings?: ISecretSyncOptions, options?: ISecretManagerOptions): Promise<ISecretSyncResult>;
+
+    /**
+     * Notifies the changes of a secret, or of every secret of a prefix, with their decrypted values
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix
+     * @param {SecretWatchCallback} callback - Receives the changes one at a time
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretWatcher>} Promise resolving to the handle stopping the notifications
+     * @throws {Error} When the access policy denies reading the watched secrets
+     */
+    watch(pattern: string, callback: SecretWatchCallback, options?: ISecretManagerOptions): Promise<ISecretWatcher>;
+
+    /**
+     * Drops the cached values of a key, or the whole cache when no key is given
+     * @param {string} [key] - The secret key to invalidate
+     */
+    invalidate(key?: string): void;
 
     /**
      * Configures the secret manager with the provided options
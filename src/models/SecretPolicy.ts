@@ -0,0 +1,158 @@
+/**
+ * Access policy configuration
+ * @interface IPolicyOptions
+ */
+export interface IPolicyOptions {
+    /**
+     * Evaluates the rules before every operation of the SecretManager bridge
+     * @type {boolean}
+     * @default false
+     */
+    enabled?: boolean;
+
+    /**
+     * Effect applied when no rule matches: allow or deny
+     * @type {string}
+     * @default allow
+     */
+    default?: string;
+
+    /**
+     * Rules as objects or as text, e.g. 'allow read prod/* for role deployer' or 'deny write * via mcp'
+     * @type {Array<ISecretPolicyRule | string>}
+     */
+    rules?: Array<ISecretPolicyRule | string>;
+
+    /**
+     * JSON file holding more rules, an array or an object with a 'rules' array
+     * @type {string}
+     */
+    file?: string;
+}
+
+/**
+ * Access policy rule, every condition given must match
+ * @interface ISecretPolicyRule
+ */
+export interface ISecretPolicyRule {
+    /**
+     * Rule name reported in denials, the rule text by default
+     * @type {string}
+     */
+    id?: string;
+
+    /**
+     * Rule effect: allow or deny
+     * @type {string}
+     */
+    effect: string;
+
+    /**
+     * Operations: read, write, delete, list, rotate or '*'
+     * @type {string[]}
+     */
+    actions: string[];
+
+    /**
+     * Key patterns, '*' matches any characters
+     * @type {string[]}
+     */
+    keys: string[];
+
+    /**
+     * Caller roles, any of them matches
+     * @type {string[]}
+     */
+    roles?: string[];
+
+    /**
+     * Caller identities, '*' matches any characters
+     * @type {string[]}
+     */
+    actors?: string[];
+
+    /**
+     * Entry points: cli, mcp or api
+     * @type {string[]}
+     */
+    sources?: string[];
+
+    /**
+     * Flow identifier patterns, '*' matches any characters
+     * @type {string[]}
+     */
+    flows?: string[];
+}
+
+/**
+ * Operation submitted to the access policy
+ * @interface ISecretAccessRequest
+ */
+export interface ISecretAccessRequest {
+    /**
+     * Operation: read, write, delete, list or rotate
+     * @type {string}
+     */
+    action: string;
+
+    /**
+     * Secret key without field selector, or the key prefix of list operations
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Caller roles
+     * @type {string[]}
+     */
+    roles?: string[];
+
+    /**
+     * Caller identity
+     * @type {string}
+     */
+    actor?: string;
+
+    /**
+     * Entry point: cli, mcp or api
+     * @type {string}
+     */
+    source?: string;
+
+    /**
+     * Flow identifier
+     * @type {string}
+     */
+    flow?: string;
+}
+
+/**
+ * Access policy decision
+ * @interface ISecretPolicyDecision
+ */
+export interface ISecretPolicyDecision {
+    /**
+     * True if the operation may proceed
+     * @type {boolean}
+     */
+    allowed: boolean;
+
+    /**
+     * Name of the deciding rule, 'default' when no rule matched
+     * @type {string}
+     */
+    rule: string;
+}
+
+/**
+ * Access policy interface, explicit denials override allowances
+ * @interface ISecretPolicy
+ */
+export interface ISecretPolicy {
+    /**
+     * Decides whether an operation may proceed
+     * @param {ISecretAccessRequest} request - The operation and its caller
+     * @returns {Promise<ISecretPolicyDecision>} Promise resolving to the decision and the deciding rule
+     */
+    evaluate(request: ISecretAccessRequest): Promise<ISecretPolicyDecision>;
+}
@@ -0,0 +1,230 @@
+import { ISecretManagerOptions, SecretValue } from "./Secret";
+
+/**
+ * Settings of a rotation handler, the IoC arguments of the handler overridden by the rule of the key
+ * @interface IRotatorOptions
+ */
+export interface IRotatorOptions {
+    /**
+     * Characters of a password, or bytes of a token
+     * @type {number}
+     * @default 32
+     */
+    length?: number;
+
+    /**
+     * Characters a password is drawn from
+     * @type {string}
+     * @default letters, digits and the symbols !#$%&*+-=?@^_
+     */
+    charset?: string;
+
+    /**
+     * Text encoding of a token: base64url, base64 or hex
+     * @type {string}
+     * @default base64url
+     */
+    encoding?: string;
+
+    /**
+     * Field of a JSON secret holding the generated value, the other fields are kept
+     * @type {string}
+     */
+    field?: string;
+
+    /**
+     * Environment variable holding the connection string of a MongoDB user allowed to run updateUser
+     * @type {string}
+     * @default MDB_URI
+     */
+    uri?: string;
+
+    /**
+     * Authentication database of the rotated MongoDB user
+     * @type {string}
+     * @default admin
+     */
+    database?: string;
+
+    /**
+     * Rotated MongoDB user, the 'username' or 'user' field of a JSON secret by default
+     * @type {string}
+     */
+    user?: string;
+
+    /**
+     * Settings of custom handlers
+     */
+    [name: string]: any;
+}
+
+/**
+ * Rotation rule of a key pattern
+ * @interface ISecretRotationRule
+ * @extends IRotatorOptions
+ */
+export interface ISecretRotationRule extends IRotatorOptions {
+    /**
+     * Rotation handler, resolved as 'secret:rotator:<handler>'
+     * @type {string}
+     */
+    handler?: string;
+}
+
+/**
+ * Value rotation configuration
+ * @interface IRotationOptions
+ */
+export interface IRotationOptions {
+    /**
+     * Rotation handler of the keys without rule
+     * @type {string}
+     * @default password
+     */
+    handler?: string;
+
+    /**
+     * Rotation rules by key, a trailing '*' matches a prefix and the longest pattern wins
+     * @type {Record<string, ISecretRotationRule>}
+     */
+    keys?: Record<string, ISecretRotationRule>;
+}
+
+/**
+ * Secret being rotated
+ * @interface ISecretRotationContext
+ */
+export interface ISecretRotationContext {
+    /**
+     * Secret key
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Value before the rotation, null for a new secret
+     * @type {SecretValue}
+     */
+    current: SecretValue;
+
+    /**
+     * Effective handler settings
+     * @type {ISecretRotationRule}
+     */
+    settings: ISecretRotationRule;
+
+    /**
+     * Effective configuration options
+     * @type {ISecretManagerOptions}
+     */
+    options: ISecretManagerOptions;
+}
+
+/**
+ * Outcome of a rotation step: generate, apply, save, verify or rollback
+ * @interface ISecretRotationStep
+ */
+export interface ISecretRotationStep {
+    /**
+     * Step name
+     * @type {string}
+     */
+    step: string;
+
+    /**
+     * Step status: ok or failed
+     * @type {string}
+     */
+    status: string;
+
+    /**
+     * Failure message
+     * @type {string}
+     */
+    message?: string;
+}
+
+/**
+ * Outcome of a value rotation, it never holds the values
+ * @interface ISecretRotationResult
+ */
+export interface ISecretRotationResult {
+    /**
+     * Secret key
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Rotation handler
+     * @type {string}
+     */
+    handler: string;
+
+    /**
+     * True if the new value was applied, saved and verified
+     * @type {boolean}
+     */
+    rotated: boolean;
+
+    /**
+     * Stored version of the new value
+     * @type {string | number}
+     */
+    version?: string | number;
+
+    /**
+     * Steps in execution order
+     * @type {ISecretRotationStep[]}
+     */
+    steps: ISecretRotationStep[];
+
+    /**
+     * Failure message
+     * @type {string}
+     */
+    error?: string;
+}
+
+/**
+ * Rotation handler interface, registered in the IoC container as 'secret:rotator:<name>'
+ * @interface ISecretRotator
+ */
+export interface ISecretRotator {
+    /**
+     * Default handler settings
+     * @type {IRotatorOptions}
+     */
+    options: IRotatorOptions;
+
+    /**
+     * Generates the new value of the secret
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @returns {Promise<string | Record<string, any>>} Promise resolving to the new value
+     */
+    generate(context: ISecretRotationContext): Promise<string | Record<string, any>>;
+
+    /**
+     * Applies the new value to the target system
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {string | Record<string, any>} value - The new value
+     * @returns {Promise<void>} Promise resolving when the target system accepts the value
+     * @throws {Error} When the target system refuses the value
+     */
+    apply(context: ISecretRotationContext, value: string | Record<string, any>): Promise<void>;
+
+    /**
+     * Checks that the target system works with the new value
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {string | Record<string, any>} value - The new value
+     * @returns {Promise<boolean>} Promise resolving to true if the value works
+     */
+    verify(context: ISecretRotationContext, value: string | Record<string, any>): Promise<boolean>;
+
+    /**
+     * Restores the value of the context on the target system after a failed rotation
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @returns {Promise<void>} Promise resolving when the former value is restored
+     */
+    revert(context: ISecretRotationContext): Promise<void>;
+}
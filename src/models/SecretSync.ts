@@ -0,0 +1,140 @@
+/**
+ * Settings of a synchronization between two backends
+ * @interface ISecretSyncOptions
+ */
+export interface ISecretSyncOptions {
+    /**
+     * Key prefix of the synchronized secrets, all of them by default
+     * @type {string}
+     */
+    prefix?: string;
+
+    /**
+     * Handling of keys holding another value in the target: overwrite, skip or newest-wins
+     * @type {string}
+     * @default overwrite
+     */
+    conflict?: string;
+
+    /**
+     * Reports the differences without writing anything
+     * @type {boolean}
+     */
+    dryRun?: boolean;
+
+    /**
+     * Checkpoint file of the run, resumed when it exists; one per source, target, scope and prefix in the temp directory by default
+     * @type {string}
+     */
+    checkpoint?: string;
+
+    /**
+     * Secrets read and written per batch, the checkpoint advances after each batch
+     * @type {number}
+     * @default 50
+     */
+    batch?: number;
+}
+
+/**
+ * Outcome of one synchronized key, it never holds the value
+ * @interface ISecretSyncItem
+ */
+export interface ISecretSyncItem {
+    /**
+     * Secret key
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Missing in the target (add), holding another value (change), the same value (unchanged), kept by the conflict
+     * policy (skip), or failed (error)
+     * @type {string}
+     */
+    action: 'add' | 'change' | 'unchanged' | 'skip' | 'error';
+
+    /**
+     * Reason of a skip or an error
+     * @type {string}
+     */
+    reason?: string;
+}
+
+/**
+ * Outcome of a synchronization between two backends
+ * @interface ISecretSyncResult
+ */
+export interface ISecretSyncResult {
+    /**
+     * Source backend
+     * @type {string}
+     */
+    from: string;
+
+    /**
+     * Target backend
+     * @type {string}
+     */
+    to: string;
+
+    /**
+     * Key prefix of the synchronized secrets
+     * @type {string}
+     */
+    prefix?: string;
+
+    /**
+     * True if nothing was written
+     * @type {boolean}
+     */
+    dryRun: boolean;
+
+    /**
+     * Last key of the interrupted run this one resumed after
+     * @type {string}
+     */
+    resumed?: string;
+
+    /**
+     * Keys in execution order, the ones of a resumed run only
+     * @type {ISecretSyncItem[]}
+     */
+    items: ISecretSyncItem[];
+}
+
+/**
+ * Progress of an interrupted synchronization, keys only
+ * @interface ISecretSyncCheckpoint
+ */
+export interface ISecretSyncCheckpoint {
+    /**
+     * Source backend
+     * @type {string}
+     */
+    from: string;
+
+    /**
+     * Target backend
+     * @type {string}
+     */
+    to: string;
+
+    /**
+     * Key prefix of the synchronized secrets
+     * @type {string}
+     */
+    prefix: string;
+
+    /**
+     * Last processed key, keys are processed in ascending order
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Time of the last batch
+     * @type {string}
+     */
+    updatedAt: string;
+}
@@ -0,0 +1,84 @@
+import { ISecretManagerOptions } from "./Secret";
+
+/**
+ * Secret template resolver configuration
+ * @interface ISecretTemplateOptions
+ */
+export interface ISecretTemplateOptions {
+    /**
+     * Maximum nesting of references found inside secret values
+     * @type {number}
+     * @default 10
+     */
+    depth?: number;
+
+    /**
+     * Backend names recognised as the first segment of a reference, e.g. aws in '${secret:aws:prod/db}'
+     * The types of the configured provider chain are always recognised
+     * @type {string[]}
+     * @default ["aws", "mdb", "file", "vault", "env"]
+     */
+    backends?: string[];
+}
+
+/**
+ * Secret reference found in a template
+ * @interface ISecretReference
+ */
+export interface ISecretReference {
+    /**
+     * Reference text as written in the template, e.g. '${secret:aws:prod/db#password}'
+     * @type {string}
+     */
+    raw: string;
+
+    /**
+     * Backend the reference names, the configured chain applies when omitted
+     * @type {string}
+     */
+    backend?: string;
+
+    /**
+     * Secret key, optionally followed by a '#jsonPath' selector
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Unique reference identifier, the key prefixed with the backend when one is named
+     * @type {string}
+     */
+    id: string;
+}
+
+/**
+ * Secret template resolver interface, substitutes secret references in strings, objects and files
+ * @interface ISecretTemplateResolver
+ */
+export interface ISecretTemplateResolver {
+    /**
+     * Finds the secret references of a string
+     * @param {string} text - The text to inspect
+     * @returns {ISecretReference[]} The references in order of appearance
+     */
+    parse(text: string): ISecretReference[];
+
+    /**
+     * Substitutes the secret references of a string or of every string of an object
+     * @param {T} input - A string, array or object
+     * @param {ISecretManagerOptions} [options] - Optional secret manager configuration override
+     * @returns {Promise<T>} Promise resolving to a rendered copy of the input
+     * @throws {Error} When references cannot be resolved or form a cycle, listing all of them
+     */
+    render<T = any>(input: T, options?: ISecretManagerOptions): Promise<T>;
+
+    /**
+     * Substitutes the secret references of a file, JSON files are rendered value by value
+     * @param {string} file - The template file
+     * @param {string} [out] - Optional output file, written with 0600 permissions
+     * @param {ISecretManagerOptions} [options] - Optional secret manager configuration override
+     * @returns {Promise<string>} Promise resolving to the rendered content
+     * @throws {Error} When references cannot be resolved or form a cycle, listing all of them
+     */
+    renderFile(file: string, out?: string, options?: ISecretManagerOptions): Promise<string>;
+}
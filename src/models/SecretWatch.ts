@@ -0,0 +1,87 @@
+import { SecretValue } from "./Secret";
+
+/**
+ * Change notification settings
+ * @interface IWatchOptions
+ */
+export interface IWatchOptions {
+    /**
+     * Polling interval in milliseconds of the backends without change notifications
+     * @type {number}
+     * @default 30000
+     */
+    interval?: number;
+
+    /**
+     * Delay in milliseconds before a MongoDB change stream reconnects after an error
+     * @type {number}
+     * @default 5000
+     */
+    retry?: number;
+
+    /**
+     * Name of the stored MongoDB resume token, watchers sharing a name share their position
+     * @type {string}
+     * @default '<host name>:<key or prefix>'
+     */
+    id?: string;
+}
+
+/**
+ * Change of a watched secret
+ * @interface ISecretWatchEvent
+ */
+export interface ISecretWatchEvent {
+    /**
+     * Secret key
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Change type: update for a new or promoted version, delete once no version is current
+     * @type {string}
+     */
+    type: 'update' | 'delete';
+
+    /**
+     * Decrypted current value of an update
+     * @type {SecretValue}
+     */
+    value?: SecretValue;
+
+    /**
+     * Current version of an update
+     * @type {string | number}
+     */
+    version?: string | number;
+
+    /**
+     * Backend reporting the change
+     * @type {string}
+     */
+    provider?: string;
+
+    /**
+     * Time the change was noticed
+     * @type {Date}
+     */
+    at: Date;
+}
+
+/**
+ * Receives the changes of the watched secrets, one at a time and in order
+ */
+export type SecretWatchCallback = (event: ISecretWatchEvent) => void | Promise<void>;
+
+/**
+ * Handle of a running watch
+ * @interface ISecretWatcher
+ */
+export interface ISecretWatcher {
+    /**
+     * Stops the notifications
+     * @returns {Promise<void>} Promise resolving once no further change is delivered
+     */
+    close(): Promise<void>;
+}
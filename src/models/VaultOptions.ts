@@ -0,0 +1,62 @@
+/**
+ * HashiCorp Vault KV v2 storage configuration
+ * Credential fields hold the name of the environment variable that provides the value, the same way ICloudOptions does.
+ * @interface IVaultOptions
+ */
+export interface IVaultOptions {
+    /**
+     * Base URL of the Vault server, e.g. a local dev server or an HTTP mock
+     * Falls back to the VAULT_ADDR variable and then to http://127.0.0.1:8200
+     * @type {string}
+     */
+    url?: string;
+
+    /**
+     * Environment variable holding the Vault token, it takes precedence over AppRole
+     * @type {string}
+     * @default VAULT_TOKEN
+     */
+    token?: string;
+
+    /**
+     * Environment variable holding the AppRole role_id
+     * @type {string}
+     * @default VAULT_ROLE_ID
+     */
+    roleId?: string;
+
+    /**
+     * Environment variable holding the AppRole secret_id
+     * @type {string}
+     * @default VAULT_SECRET_ID
+     */
+    secretId?: string;
+
+    /**
+     * Mount path of the AppRole auth method
+     * @type {string}
+     * @default approle
+     */
+    approle?: string;
+
+    /**
+     * Vault Enterprise namespace sent as X-Vault-Namespace, falls back to the VAULT_NAMESPACE variable
+     * @type {string}
+     */
+    namespace?: string;
+
+    /**
+     * Mount path of the KV v2 secrets engine
+     * @type {string}
+     * @default secret
+     */
+    mount?: string;
+
+    /**
+     * Field of the secret data map holding plain values, it is read when no field is selected with 'key#field'
+     * and written when a plain value is saved
+     * @type {string}
+     * @default value
+     */
+    field?: string;
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ISecretAuditEvent, ISecretAuditRecord } from "../models/SecretAudit";
+import { SecretAuditor } from "./SecretAuditor";
+
+function record(key: string, action: ISecretAuditRecord['action'] = 'resolve'): ISecretAuditRecord {
+    return { actor: 'tester', source: 'test', action, backend: 'file', key, outcome: 'success' };
+}
+
+describe('SecretAuditor', () => {
+    let dir: string;
+    let file: string;
+    let auditor: SecretAuditor;
+
+    const read = (): ISecretAuditEvent[] => fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean).map(line => JSON.parse(line));
+    const write = (events: ISecretAuditEvent[]) => fs.writeFileSync(file, events.map(event => JSON.stringify(event) + '\n').join(''));
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kozen-audit-'));
+        file = path.join(dir, 'audit.jsonl');
+        auditor = new SecretAuditor({ enabled: true, path: file });
+        await auditor.record(record('db/password'), record('api/token', 'save'));
+        await auditor.record(record('db/password', 'delete'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('chains the recorded events and verifies them', async () => {
+        const events = read();
+        assert.deepEqual(events.map(event => [event.seq, event.action, event.key]), [[1, 'resolve', 'db/password'], [2, 'save', 'api/token'], [3, 'delete', 'db/password']]);
+        assert.equal(events[0].prev, '');
+        assert.equal(events[2].prev, events[1].hash);
+        assert.deepEqual(await auditor.verify(), { valid: true, count: 3 });
+    });
+
+    it('does not write anything when auditing is disabled', async () => {
+        const disabled = new SecretAuditor({ path: path.join(dir, 'disabled.jsonl') });
+        await disabled.record(record('db/password'));
+        assert.equal(fs.existsSync(path.join(dir, 'disabled.jsonl')), false);
+    });
+
+    it('detects an altered event', async () => {
+        const events = read();
+        events[1].key = 'other/key';
+        write(events);
+        assert.deepEqual(await auditor.verify(), { valid: false, count: 1, broken: 2, reason: 'the event content does not match its hash' });
+    });
+
+    it('detects a removed or reordered event', async () => {
+        const events = read();
+        write([events[0], events[2]]);
+        assert.deepEqual(await auditor.verify(), { valid: false, count: 1, broken: 2, reason: 'expected event 2, found 3' });
+
+        write([events[1], events[0], events[2]]);
+        assert.equal((await auditor.verify()).broken, 1);
+    });
+
+    it('detects a chain rebuilt from a different previous hash', async () => {
+        const events = read();
+        events[1].prev = '0'.repeat(64);
+        write(events);
+        assert.deepEqual(await auditor.verify(), { valid: false, count: 1, broken: 2, reason: 'the previous hash does not match' });
+    });
+
+    it('queries the events by key prefix, action and limit', async () => {
+        assert.deepEqual((await auditor.query({ key: 'db/*' })).map(event => event.seq), [1, 3]);
+        assert.deepEqual((await auditor.query({ action: 'save' })).map(event => event.key), ['api/token']);
+        assert.deepEqual((await auditor.query({ limit: 1 })).map(event => event.seq), [3]);
+    });
+});
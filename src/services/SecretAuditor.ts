@@ -0,0 +1,385 @@
+/**
+ * @fileoverview Secret Auditor - Tamper-evident audit trail of secret operations
+ * Appends hash chained events to a JSON lines file or a MongoDB collection, events never hold secret values.
+ * Every event stores the hash of the previous one, so an altered, removed or reordered event breaks the chain.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Collection, Document, Filter, MongoClient } from "mongodb";
+import { IAuditOptions, ISecretAuditEvent, ISecretAuditFilter, ISecretAuditor, ISecretAuditRecord, ISecretAuditVerifyResult } from "../models/SecretAudit";
+import { BaseService, IIoC, ILogger, VCategory } from "@kozen/engine";
+
+/**
+ * @class SecretAuditor
+ * @extends BaseService
+ * Records and verifies the audit trail of the secret operations
+ */
+export class SecretAuditor extends BaseService implements ISecretAuditor {
+
+    /**
+     * Audit configuration options
+     * @public
+     * @type {IAuditOptions}
+     */
+    public options: IAuditOptions;
+
+    /**
+     * MongoDB client of the mdb sink, opened on first use
+     * @protected
+     * @type {MongoClient | null}
+     */
+    protected client: MongoClient | null = null;
+
+    /**
+     * Appends in progress, events of this process are chained one batch at a time
+     * @private
+     * @type {Promise<unknown>}
+     */
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Creates a new SecretAuditor instance
+     * @constructor
+     * @param {IAuditOptions} [options] - Optional audit configuration
+     */
+    constructor(options?: IAuditOptions, dep?: { assistant: IIoC, logger: ILogger }) {
+        super(dep);
+        this.options = options || {};
+    }
+
+    /**
+     * Appends events to the chain, nothing is written when auditing is disabled
+     * @public
+     * @param {ISecretAuditRecord[]} records - The events to record
+     * @returns {Promise<void>} Promise resolving when the events are stored
+     * @throws {Error} When the events cannot be written and auditing is required
+     */
+    public async record(...records: ISecretAuditRecord[]): Promise<void> {
+        if (!this.options.enabled || !records.length) {
+            return;
+        }
+        const task = this.queue.then(() => this.isMdb() ? this.appendMdb(records) : this.appendFile(records));
+        this.queue = task.catch(() => null);
+        try {
+            await task;
+        } catch (error) {
+            this.logger?.error({
+                flow: records[0].flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Auditor:record',
+                message: `Failed to record ${records.length} audit event(s): ${(error as Error).message}`,
+                data: records.map(item => `${item.action} ${item.key}`)
+            });
+            if (this.options.required) {
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Retrieves the events matching a filter in chain order
+     * @public
+     * @param {ISecretAuditFilter} [filter] - Optional key, actor, action and time range filter
+     * @returns {Promise<ISecretAuditEvent[]>} Promise resolving to the matching events, the latest ones when limited
+     */
+    public async query(filter: ISecretAuditFilter = {}): Promise<ISecretAuditEvent[]> {
+        if (this.isMdb()) {
+            const collection = await this.getCollection();
+            const events = await collection
+                .find(this.getFilter(filter), { projection: { _id: 0 } })
+                .sort({ seq: -1 })
+                .limit(filter.limit || 0)
+                .toArray();
+            return (events as unknown as ISecretAuditEvent[]).reverse();
+        }
+        const events = (await this.readFile()).filter(event => this.matches(event, filter));
+        return filter.limit ? events.slice(-filter.limit) : events;
+    }
+
+    /**
+     * Recomputes the hash chain to detect altered, removed or reordered events
+     * @public
+     * @returns {Promise<ISecretAuditVerifyResult>} Promise resolving to the verification outcome
+     */
+    public async verify(): Promise<ISecretAuditVerifyResult> {
+        const events: AsyncIterable<ISecretAuditEvent> | ISecretAuditEvent[] = this.isMdb()
+            ? (await this.getCollection()).find({}, { projection: { _id: 0 } }).sort({ seq: 1 }) as unknown as AsyncIterable<ISecretAuditEvent>
+            : await this.readFile();
+        let prev = '';
+        let count = 0;
+        for await (const event of events) {
+            count++;
+            if (event.seq !== count) {
+                return { valid: false, count: count - 1, broken: count, reason: `expected event ${count}, found ${event.seq}` };
+            }
+            if (event.prev !== prev) {
+                return { valid: false, count: count - 1, broken: count, reason: 'the previous hash does not match' };
+            }
+            if (event.hash !== this.digest(event)) {
+                return { valid: false, count: count - 1, broken: count, reason: 'the event content does not match its hash' };
+            }
+            prev = event.hash;
+        }
+        return { valid: true, count };
+    }
+
+    /**
+     * Closes the MongoDB connection of the mdb sink
+     * @public
+     * @returns {Promise<void>} Promise resolving when the connection is closed
+     */
+    public async close(): Promise<void> {
+        if (this.client) {
+            await this.client.close();
+            this.client = null;
+        }
+    }
+
+    /**
+     * Builds the next event of the chain
+     * @protected
+     * @param {ISecretAuditRecord} record - The event to record
+     * @param {ISecretAuditEvent | null} [last] - The last event of the chain
+     * @returns {ISecretAuditEvent} The chained event
+     */
+    protected build(record: ISecretAuditRecord, last?: ISecretAuditEvent | null): ISecretAuditEvent {
+        const event: ISecretAuditEvent = {
+            seq: (last?.seq || 0) + 1,
+            time: new Date().toISOString(),
+            flow: record.flow,
+            actor: record.actor,
+            source: record.source,
+            action: record.action,
+            backend: record.backend,
+            key: record.key,
+            outcome: record.outcome,
+            error: record.error,
+            prev: last?.hash || '',
+            hash: ''
+        };
+        event.hash = this.digest(event);
+        return event;
+    }
+
+    /**
+     * Computes the hash of an event over its fields in a fixed order and the previous hash
+     * @protected
+     * @param {ISecretAuditEvent} event - The event
+     * @returns {string} The hex SHA-256 digest
+     */
+    protected digest(event: ISecretAuditEvent): string {
+        const fields = [event.seq, event.time, event.flow, event.actor, event.source, event.action, event.backend, event.key, event.outcome, event.error, event.prev];
+        return crypto.createHash('sha256').update(JSON.stringify(fields.map(item => item ?? null))).digest('hex');
+    }
+
+    /**
+     * Checks whether an event matches a query filter
+     * @protected
+     * @param {ISecretAuditEvent} event - The event
+     * @param {ISecretAuditFilter} filter - The query filter
+     * @returns {boolean} True if the event matches
+     */
+    protected matches(event: ISecretAuditEvent, filter: ISecretAuditFilter): boolean {
+        const time = Date.parse(event.time);
+        return (!filter.key || (filter.key.endsWith('*') ? event.key.startsWith(filter.key.slice(0, -1)) : event.key === filter.key))
+            && (!filter.actor || event.actor === filter.actor)
+            && (!filter.action || event.action === filter.action)
+            && (!filter.from || time >= filter.from.getTime())
+            && (!filter.to || time <= filter.to.getTime());
+    }
+
+    /**
+     * Builds the MongoDB filter of a query
+     * @protected
+     * @param {ISecretAuditFilter} filter - The query filter
+     * @returns {Filter<Document>} The MongoDB filter
+     */
+    protected getFilter(filter: ISecretAuditFilter): Filter<Document> {
+        const query: Filter<Document> = {};
+        if (filter.key) {
+            query.key = filter.key.endsWith('*')
+                ? { $regex: `^${filter.key.slice(0, -1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` }
+                : filter.key;
+        }
+        filter.actor && (query.actor = filter.actor);
+        filter.action && (query.action = filter.action);
+        if (filter.from || filter.to) {
+            // ISO 8601 times in UTC sort as strings
+            query.time = {
+                ...(filter.from ? { $gte: filter.from.toISOString() } : {}),
+                ...(filter.to ? { $lte: filter.to.toISOString() } : {})
+            };
+        }
+        return query;
+    }
+
+    /**
+     * Appends events to the JSON lines file under a lock shared with other processes
+     * @protected
+     * @param {ISecretAuditRecord[]} records - The events to record
+     * @returns {Promise<void>} Promise resolving when the events are written
+     */
+    protected async appendFile(records: ISecretAuditRecord[]): Promise<void> {
+        const file = this.getPath();
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        const release = await this.lock(file, this.options.lockTimeout ?? 10000);
+        try {
+            let last = await this.readLast(file);
+            const lines = records.map(record => {
+                last = this.build(record, last);
+                return JSON.stringify(last);
+            });
+            await fs.promises.appendFile(file, lines.join('\n') + '\n', { encoding: 'utf-8', mode: 0o600 });
+        } finally {
+            await release();
+        }
+    }
+
+    /**
+     * Appends events to the MongoDB collection, the unique sequence index serializes concurrent writers
+     * @protected
+     * @param {ISecretAuditRecord[]} records - The events to record
+     * @returns {Promise<void>} Promise resolving when the events are stored
+     */
+    protected async appendMdb(records: ISecretAuditRecord[]): Promise<void> {
+        const collection = await this.getCollection();
+        for (const record of records) {
+            for (let attempt = 1; ; attempt++) {
+                const [last] = await collection.find({}, { projection: { _id: 0 } }).sort({ seq: -1 }).limit(1).toArray();
+                try {
+                    await collection.insertOne({ ...this.build(record, last as unknown as ISecretAuditEvent) });
+                    break;
+                } catch (error) {
+                    // another writer took the sequence number, chain after its event
+                    if ((error as { code?: number }).code !== 11000 || attempt >= 10) {
+                        throw error;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Reads every event of the JSON lines file
+     * @protected
+     * @returns {Promise<ISecretAuditEvent[]>} Promise resolving to the events in chain order
+     * @throws {Error} When a line is not a valid event
+     */
+    protected async readFile(): Promise<ISecretAuditEvent[]> {
+        const content = await fs.promises.readFile(this.getPath(), 'utf-8').catch((error: NodeJS.ErrnoException) => {
+            if (error.code === 'ENOENT') {
+                return '';
+            }
+            throw error;
+        });
+        return content.split('\n').filter(line => line.trim()).map((line, index) => {
+            try {
+                return JSON.parse(line) as ISecretAuditEvent;
+            } catch {
+                throw new Error(`Invalid audit event at line ${index + 1}.`);
+            }
+        });
+    }
+
+    /**
+     * Reads the last event of the JSON lines file from its tail
+     * @protected
+     * @param {string} file - The file path
+     * @returns {Promise<ISecretAuditEvent | null>} Promise resolving to the last event, null for an empty chain
+     */
+    protected async readLast(file: string): Promise<ISecretAuditEvent | null> {
+        const handle = await fs.promises.open(file, 'r').catch(() => null);
+        if (!handle) {
+            return null;
+        }
+        try {
+            const { size } = await handle.stat();
+            const length = Math.min(size, 65536);
+            const buffer = Buffer.alloc(length);
+            await handle.read(buffer, 0, length, size - length);
+            const line = buffer.toString('utf-8').split('\n').filter(item => item.trim()).pop();
+            return line ? JSON.parse(line) as ISecretAuditEvent : null;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Takes the lock file of the JSON lines file, stale locks are removed after the timeout
+     * @protected
+     * @param {string} file - The file path
+     * @param {number} timeout - Maximum wait in milliseconds
+     * @returns {Promise<Function>} Promise resolving to the release function
+     * @throws {Error} When the lock cannot be taken in time
+     */
+    protected async lock(file: string, timeout: number): Promise<() => Promise<void>> {
+        const lockFile = `${file}.lock`;
+        const start = Date.now();
+        while (true) {
+            try {
+                const handle = await fs.promises.open(lockFile, 'wx', 0o600);
+                await handle.close();
+                return () => fs.promises.rm(lockFile, { force: true });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+            const stat = await fs.promises.stat(lockFile).catch(() => null);
+            if (stat && Date.now() - stat.mtimeMs > timeout) {
+                await fs.promises.rm(lockFile, { force: true });
+                continue;
+            }
+            if (Date.now() - start > timeout) {
+                throw new Error(`Timed out waiting for the lock '${lockFile}'.`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+    }
+
+    /**
+     * Retrieves the audit collection, creating its indexes on first use
+     * @protected
+     * @returns {Promise<Collection<Document>>} Promise resolving to the collection
+     * @throws {Error} When the connection string is not set
+     */
+    protected async getCollection(): Promise<Collection<Document>> {
+        if (!this.client) {
+            const uri = process.env[this.options.uri || 'MDB_URI'];
+            if (!uri) {
+                throw new Error(`The '${this.options.uri || 'MDB_URI'}' environment variable is required by the mdb audit sink.`);
+            }
+            const client = new MongoClient(uri);
+            await client.connect();
+            const collection = client.db(this.options.database || 'kozen').collection(this.options.collection || 'audit');
+            await collection.createIndex({ seq: 1 }, { unique: true });
+            await collection.createIndex({ key: 1, time: 1 });
+            this.client = client;
+        }
+        return this.client.db(this.options.database || 'kozen').collection(this.options.collection || 'audit');
+    }
+
+    /**
+     * Checks whether events go to MongoDB
+     * @protected
+     * @returns {boolean} True for the mdb sink
+     */
+    protected isMdb(): boolean {
+        return (this.options.sink || 'file').toLowerCase() === 'mdb';
+    }
+
+    /**
+     * Retrieves the absolute path of the JSON lines file
+     * @protected
+     * @returns {string} The file path
+     */
+    protected getPath(): string {
+        return path.resolve(this.options.path || '.kozen/audit.jsonl');
+    }
+}
+
+export default SecretAuditor;
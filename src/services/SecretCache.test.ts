@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ISecretCacheEntry, SecretCache } from "./SecretCache";
+
+function entry(name: string, value: string, ttl = 60000, stale = 0): ISecretCacheEntry {
+    const now = Date.now();
+    return { name, result: { key: name, value }, expiresAt: now + ttl, staleUntil: now + ttl + stale };
+}
+
+describe('SecretCache', () => {
+
+    it('evicts the least recently used entry beyond its size', () => {
+        const cache = new SecretCache(2);
+        cache.set('a', entry('a', '1'));
+        cache.set('b', entry('b', '2'));
+        cache.get('a');
+        cache.set('c', entry('c', '3'));
+
+        assert.equal(cache.get('a')?.result.value, '1');
+        assert.equal(cache.get('b'), undefined);
+        assert.equal(cache.get('c')?.result.value, '3');
+    });
+
+    it('drops entries beyond their stale window', () => {
+        const cache = new SecretCache();
+        cache.set('expired', entry('expired', 'x', -10));
+        cache.set('stale', entry('stale', 'y', -10, 60000));
+
+        assert.equal(cache.get('expired'), undefined);
+        assert.equal(cache.get('stale')?.result.value, 'y');
+    });
+
+    it('shares one loader call between concurrent refreshes', async () => {
+        const cache = new SecretCache();
+        let calls = 0;
+        const loader = async () => {
+            calls++;
+            return { result: { key: 'k', value: 'v' }, entry: entry('k', 'v') };
+        };
+
+        const results = await Promise.all([cache.refresh('k', loader), cache.refresh('k', loader)]);
+        assert.equal(calls, 1);
+        assert.deepEqual(results.map(result => result.value), ['v', 'v']);
+        assert.equal(cache.get('k')?.result.value, 'v');
+    });
+
+    it('does not store a refresh that finished after an invalidation', async () => {
+        const cache = new SecretCache();
+        let release!: () => void;
+        const gate = new Promise<void>(resolve => release = resolve);
+        const task = cache.refresh('k', async () => {
+            await gate;
+            return { result: { key: 'k', value: 'old' }, entry: entry('k', 'old') };
+        });
+
+        cache.invalidate('k');
+        release();
+        assert.equal((await task).value, 'old');
+        assert.equal(cache.get('k'), undefined);
+    });
+
+    it('invalidates every variant of a secret or the whole cache', () => {
+        const cache = new SecretCache();
+        cache.set('db', entry('db', '{}'));
+        cache.set('db#user', entry('db', 'admin'));
+        cache.set('api', entry('api', 'token'));
+
+        assert.equal(cache.invalidate('db'), 2);
+        assert.equal(cache.get('db#user'), undefined);
+        assert.equal(cache.invalidate(), 1);
+        assert.equal(cache.get('api'), undefined);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Secret Cache - In-process LRU cache for resolved secrets
+ * Bounded in-memory store used by the SecretManager bridge to avoid a backend round trip on every resolve.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import { ISecretResult } from "../models/Secret";
+
+/**
+ * Cached resolve result
+ * @interface ISecretCacheEntry
+ */
+export interface ISecretCacheEntry {
+    /**
+     * Stored secret name, used to invalidate every variant of a key
+     * @type {string}
+     */
+    name: string;
+
+    /**
+     * Cached resolve result, a null value records a missing key
+     * @type {ISecretResult}
+     */
+    result: ISecretResult;
+
+    /**
+     * Time until the entry is fresh
+     * @type {number}
+     */
+    expiresAt: number;
+
+    /**
+     * Time until the entry may still be served while it is refreshed
+     * @type {number}
+     */
+    staleUntil: number;
+}
+
+/**
+ * @class SecretCache
+ * LRU store of resolve results with in-flight refresh tracking
+ */
+export class SecretCache {
+
+    /**
+     * Cached entries in least recently used order
+     * @private
+     * @type {Map<string, ISecretCacheEntry>}
+     */
+    private entries: Map<string, ISecretCacheEntry> = new Map();
+
+    /**
+     * Refreshes in flight, concurrent misses of the same entry share one backend call
+     * @private
+     * @type {Map<string, Promise<ISecretResult>>}
+     */
+    private pending: Map<string, Promise<ISecretResult>> = new Map();
+
+    /**
+     * Incremented on every invalidation so refreshes started before it do not store outdated values
+     * @private
+     * @type {number}
+     */
+    private generation = 0;
+
+    /**
+     * Creates a new SecretCache instance
+     * @constructor
+     * @param {number} [size=500] - Maximum number of entries
+     */
+    constructor(public size: number = 500) { }
+
+    /**
+     * Retrieves an entry and marks it as recently used
+     * @public
+     * @param {string} id - The cache entry identifier
+     * @returns {ISecretCacheEntry | undefined} The entry, undefined when it is not cached or beyond its stale window
+     */
+    public get(id: string): ISecretCacheEntry | undefined {
+        const entry = this.entries.get(id);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(id);
+        if (entry.staleUntil <= Date.now()) {
+            return undefined;
+        }
+        this.entries.set(id, entry);
+        return entry;
+    }
+
+    /**
+     * Stores an entry, evicting the least recently used ones beyond the size bound
+     * @public
+     * @param {string} id - The cache entry identifier
+     * @param {ISecretCacheEntry} entry - The entry to store
+     */
+    public set(id: string, entry: ISecretCacheEntry): void {
+        this.entries.delete(id);
+        this.entries.set(id, entry);
+        while (this.entries.size > Math.max(this.size, 1)) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    /**
+     * Runs a refresh once per entry, concurrent callers wait for the same promise
+     * The loader result is only stored when no invalidation happened while it was running
+     * @public
+     * @param {string} id - The cache entry identifier
+     * @param {Function} loader - Loads the result and returns the entry to store, or null to store nothing
+     * @returns {Promise<ISecretResult>} Promise resolving to the loaded result
+     */
+    public refresh(id: string, loader: () => Promise<{ result: ISecretResult, entry: ISecretCacheEntry | null }>): Promise<ISecretResult> {
+        const running = this.pending.get(id);
+        if (running) {
+            return running;
+        }
+        const generation = this.generation;
+        const task = loader()
+            .then(({ result, entry }) => {
+                entry && generation === this.generation && this.set(id, entry);
+                return result;
+            })
+            .finally(() => this.pending.get(id) === task && this.pending.delete(id));
+        this.pending.set(id, task);
+        return task;
+    }
+
+    /**
+     * Drops every cached variant of a secret, or the whole cache when no name is given
+     * @public
+     * @param {string} [name] - The stored secret name
+     * @returns {number} Number of dropped entries
+     */
+    public invalidate(name?: string): number {
+        this.generation++;
+        this.pending.clear();
+        if (name === undefined) {
+            const count = this.entries.size;
+            this.entries.clear();
+            return count;
+        }
+        let count = 0;
+        for (const [id, entry] of this.entries) {
+            if (entry.name === name) {
+                this.entries.delete(id);
+                count++;
+            }
+        }
+        return count;
+    }
+}
+
+export default SecretCache;
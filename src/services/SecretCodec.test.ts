@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Binary } from "mongodb";
+import { SecretCodec } from "./SecretCodec";
+
+describe('SecretCodec', () => {
+    const codec = new SecretCodec();
+
+    it('splits the key into the secret name and the selector', () => {
+        assert.deepEqual(codec.parseKey('db-creds'), { name: 'db-creds' });
+        assert.deepEqual(codec.parseKey('db-creds#password'), { name: 'db-creds', path: 'password' });
+        assert.deepEqual(codec.parseKey('db-creds#'), { name: 'db-creds', path: undefined });
+        assert.equal(codec.getName('db-creds'), 'db-creds');
+        assert.throws(() => codec.getName('db-creds#password'), /only applies to read operations/);
+    });
+
+    it('detects JSON documents and keeps scalars as text', () => {
+        assert.deepEqual(codec.decode('{"user":"admin"}'), { user: 'admin' });
+        assert.deepEqual(codec.decode(' [1, 2] '), [1, 2]);
+        assert.equal(codec.decode('1234'), '1234');
+        assert.equal(codec.decode('true'), 'true');
+        assert.equal(codec.decode('{not json'), '{not json');
+        assert.equal(codec.decode(null), null);
+        assert.equal(codec.decode(Buffer.from('plain text')), 'plain text');
+        assert.deepEqual(codec.decode(Buffer.from([0x00, 0xff, 0x10])), Buffer.from([0x00, 0xff, 0x10]));
+        assert.deepEqual(codec.decode(new Binary(Buffer.from('{"a":1}'))), { a: 1 });
+    });
+
+    it('honours the requested encoding', () => {
+        assert.deepEqual(codec.decode('aGVsbG8=', { encoding: 'base64' }), Buffer.from('hello'));
+        assert.throws(() => codec.decode('not base64!', { encoding: 'base64' }), /not base64/);
+        assert.equal(codec.decode('{"a":1}', { encoding: 'text' }), '{"a":1}');
+        assert.equal(codec.decode({ a: 1 }, { encoding: 'text' }), '{"a":1}');
+        assert.equal(codec.decode('42', { encoding: 'json' }), 42);
+        assert.throws(() => codec.decode('{', { encoding: 'json' }), /not a valid JSON document/);
+        assert.deepEqual(codec.decode('raw', { encoding: 'binary' }), Buffer.from('raw'));
+    });
+
+    it('selects fields with dotted, indexed and rooted paths', () => {
+        const value = { db: { user: 'admin' }, hosts: [{ name: 'a' }, { name: 'b' }] };
+        assert.equal(codec.select(value, 'db.user'), 'admin');
+        assert.equal(codec.select(value, '$.db.user'), 'admin');
+        assert.equal(codec.select(value, 'hosts[1].name'), 'b');
+        assert.equal(codec.select(value, 'db.password'), null);
+        assert.equal(codec.select(JSON.stringify(value), 'hosts[0].name'), 'a');
+        assert.equal(codec.decode(JSON.stringify(value), { path: 'db.user' }), 'admin');
+        assert.equal(codec.select(null, 'db'), null);
+        assert.throws(() => codec.select('plain', 'db'), /not a JSON document/);
+    });
+
+    it('prints binary data as base64 and documents as JSON', () => {
+        assert.equal(codec.stringify(Buffer.from('hello')), 'aGVsbG8=');
+        assert.equal(codec.stringify({ a: 1 }), '{"a":1}');
+        assert.equal(codec.stringify('text'), 'text');
+        assert.equal(codec.stringify(null), '');
+    });
+});
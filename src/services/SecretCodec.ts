@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Secret Codec - Shared value decoding for every secret backend
+ * Turns the raw values returned by the backends (strings, JSON documents, base64 text and binary data)
+ * into typed secret values, and applies the 'key#jsonPath' field selector.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import { Binary } from "mongodb";
+import { SecretEncoding, SecretValue } from "../models/Secret";
+
+/**
+ * @class SecretCodec
+ * Decodes raw backend values and selects fields out of JSON secrets
+ */
+export class SecretCodec {
+
+    /**
+     * Splits a key into the stored secret name and the optional JSON path selector, e.g. 'db-creds#password'
+     * @public
+     * @param {string} key - The key in 'name' or 'name#path' form
+     * @returns {{ name: string, path?: string }} The secret name and the selector, if any
+     */
+    public parseKey(key: string): { name: string, path?: string } {
+        const index = key.indexOf('#');
+        return index < 0 ? { name: key } : { name: key.slice(0, index), path: key.slice(index + 1) || undefined };
+    }
+
+    /**
+     * Retrieves the stored secret name of a key for write operations, which cannot target a single field
+     * @public
+     * @param {string} key - The secret key
+     * @returns {string} The secret name
+     * @throws {Error} When the key carries a field selector
+     */
+    public getName(key: string): string {
+        const { name, path } = this.parseKey(key);
+        if (path !== undefined) {
+            throw new Error(`The '#${path}' selector of '${key}' only applies to read operations.`);
+        }
+        return name;
+    }
+
+    /**
+     * Decodes a raw backend value and applies the optional selector
+     * @public
+     * @param {any} raw - Raw value: string, JSON document, Binary or bytes
+     * @param {{ encoding?: SecretEncoding, path?: string }} [options] - Stored representation and field selector
+     * @returns {SecretValue} The decoded value, null when absent
+     * @throws {Error} When the value does not match the requested encoding or the selector cannot be applied
+     */
+    public decode(raw: any, options?: { encoding?: SecretEncoding, path?: string }): SecretValue {
+        const value = this.convert(raw, options?.encoding || 'auto');
+        return options?.path ? this.select(value, options.path) : value;
+    }
+
+    /**
+     * Formats a decoded value for display, binary data as base64 and documents as JSON
+     * @public
+     * @param {SecretValue} value - The decoded value
+     * @returns {string} The printable value, an empty string when absent
+     */
+    public stringify(value: SecretValue): string {
+        if (value === null || value === undefined) {
+            return '';
+        }
+        if (Buffer.isBuffer(value)) {
+            return value.toString('base64');
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    /**
+     * Selects a field out of a JSON secret with a dotted path, e.g. 'password', 'hosts[0].name' or '$.db.user'
+     * @public
+     * @param {SecretValue} value - The decoded value
+     * @param {string} path - The JSON path
+     * @returns {SecretValue} The selected field, null when it does not exist
+     * @throws {Error} When the value is not a JSON document
+     */
+    public select(value: SecretValue, path: string): SecretValue {
+        if (value === null || value === undefined) {
+            return null;
+        }
+        let current: any = value;
+        if (Buffer.isBuffer(current)) {
+            current = current.toString('utf-8');
+        }
+        if (typeof current === 'string') {
+            try {
+                current = JSON.parse(current);
+            } catch {
+                throw new Error(`The secret is not a JSON document, the '#${path}' selector cannot be applied.`);
+            }
+        }
+        const segments = path.replace(/^\$\.?/, '').split(/\.|\[(\d+)\]/).filter(segment => segment !== undefined && segment !== '');
+        for (const segment of segments) {
+            if (current === null || typeof current !== 'object' || !(segment in current)) {
+                return null;
+            }
+            current = current[segment];
+        }
+        return current === undefined ? null : current;
+    }
+
+    /**
+     * Converts a raw value according to its stored representation
+     * @protected
+     * @param {any} raw - Raw backend value
+     * @param {SecretEncoding} encoding - Stored representation, 'auto' detects JSON documents and UTF-8 text
+     * @returns {SecretValue} The converted value
+     * @throws {Error} When the value does not match the encoding
+     */
+    protected convert(raw: any, encoding: SecretEncoding): SecretValue {
+        if (raw === null || raw === undefined) {
+            return null;
+        }
+        if (raw instanceof Binary) {
+            raw = Buffer.from(raw.value());
+        } else if (raw instanceof Uint8Array && !Buffer.isBuffer(raw)) {
+            raw = Buffer.from(raw);
+        }
+
+        switch (encoding) {
+            case 'binary':
+                return Buffer.isBuffer(raw) ? raw : Buffer.from(typeof raw === 'string' ? raw : JSON.stringify(raw), 'utf-8');
+            case 'base64':
+                if (typeof raw !== 'string' || !/^[A-Za-z0-9+/_-]*={0,2}$/.test(raw.trim())) {
+                    throw new Error("The secret is not base64 encoded text.");
+                }
+                return Buffer.from(raw.trim(), 'base64');
+            case 'text':
+                return Buffer.isBuffer(raw) ? raw.toString('utf-8') : typeof raw === 'object' ? JSON.stringify(raw) : String(raw);
+            case 'json':
+                if (Buffer.isBuffer(raw) || typeof raw === 'string') {
+                    try {
+                        return JSON.parse(Buffer.isBuffer(raw) ? raw.toString('utf-8') : raw);
+                    } catch {
+                        throw new Error("The secret is not a valid JSON document.");
+                    }
+                }
+                return raw;
+            default:
+                if (Buffer.isBuffer(raw)) {
+                    const text = this.toText(raw);
+                    return text === null ? raw : this.convert(text, encoding);
+                }
+                if (typeof raw === 'string') {
+                    return this.parseDocument(raw) ?? raw;
+                }
+                return raw;
+        }
+    }
+
+    /**
+     * Parses a string holding a JSON object or array, scalars such as '1234' or 'true' stay plain strings
+     * @protected
+     * @param {string} text - The string to inspect
+     * @returns {Record<string, any> | any[] | undefined} The document, undefined when the string is not one
+     */
+    protected parseDocument(text: string): Record<string, any> | any[] | undefined {
+        const trimmed = text.trim();
+        if (!/^[\[{]/.test(trimmed)) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Decodes bytes as UTF-8 text when they are valid text
+     * @protected
+     * @param {Buffer} bytes - The bytes to decode
+     * @returns {string | null} The text, null for binary data
+     */
+    protected toText(bytes: Buffer): string | null {
+        try {
+            const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+            return /[\u0000-\u0008\u000E-\u001F]/.test(text) ? null : text;
+        } catch {
+            return null;
+        }
+    }
+}
+
+export default SecretCodec;
@@ -0,0 +1,82 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ISecretManagerOptions, SecretExpiredError } from "../models/Secret";
+import { ISecretManager } from "../models/SecretManager";
+import { SecretManager } from "./SecretManager";
+import { SecretManagerFile } from "./SecretManagerFile";
+
+/**
+ * Secret manager bridge delegating to a File backend instead of the IoC container
+ */
+class SecretManagerTest extends SecretManager {
+    constructor(options: ISecretManagerOptions, private file: SecretManagerFile) {
+        super(options);
+    }
+
+    protected async getManager(options: ISecretManagerOptions): Promise<ISecretManager> {
+        assert.equal(options.type, 'file');
+        return this.file;
+    }
+}
+
+describe('SecretManager', () => {
+    let dir: string;
+    let options: ISecretManagerOptions;
+    let file: SecretManagerFile;
+    const expired = { expiresAt: new Date(Date.now() - 60000) };
+
+    before(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kozen-manager-'));
+        process.env.KOZEN_TEST_MANAGER_KEY = crypto.randomBytes(32).toString('base64');
+        options = { type: 'file', chain: ['file', 'env'], environment: 'prod/eu', file: { path: path.join(dir, 'secrets.enc'), key: 'KOZEN_TEST_MANAGER_KEY' } };
+        file = new SecretManagerFile(options);
+
+        await file.save('db', 'parent', { ...options, environment: 'prod' });
+        await file.save('db', 'expired', { ...options, lease: expired });
+        await file.save('KOZEN_TEST_MANAGER_TOKEN', 'expired', { ...options, lease: expired });
+        process.env.KOZEN_TEST_MANAGER_TOKEN = 'fallback';
+    });
+
+    after(() => {
+        delete process.env.KOZEN_TEST_MANAGER_KEY;
+        delete process.env.KOZEN_TEST_MANAGER_TOKEN;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('serves an expired secret with a warning by default', async () => {
+        const manager = new SecretManagerTest(options, file);
+        assert.equal(await manager.resolve('db'), 'expired');
+        assert.equal(await manager.resolve('KOZEN_TEST_MANAGER_TOKEN'), 'expired');
+    });
+
+    it('refuses an expired secret instead of taking it from the parent scope', async () => {
+        const manager = new SecretManagerTest({ ...options, expiry: 'refuse' }, file);
+        await assert.rejects(manager.resolve('db'), SecretExpiredError);
+
+        const [result] = await manager.resolveMany(['db']);
+        assert.equal(result.value, null);
+        assert.equal(result.expired, true);
+        assert.match(result.error!, /Secret 'db' expired on/);
+    });
+
+    it('refuses an expired secret instead of taking it from the env provider', async () => {
+        const manager = new SecretManagerTest({ ...options, expiry: 'refuse' }, file);
+        await assert.rejects(manager.resolve('KOZEN_TEST_MANAGER_TOKEN'), SecretExpiredError);
+
+        const [result] = await manager.resolveMany(['KOZEN_TEST_MANAGER_TOKEN']);
+        assert.equal(result.value, null);
+        assert.equal(result.expired, true);
+    });
+
+    it('still falls back for missing secrets', async () => {
+        const manager = new SecretManagerTest({ ...options, expiry: 'refuse' }, file);
+        await file.save('api', 'parent', { ...options, environment: 'prod' });
+
+        assert.equal(await manager.resolve('api'), 'parent');
+        assert.deepEqual(await manager.resolveMany(['api']), [{ key: 'api', value: 'parent', provider: 'file', environment: 'prod' }]);
+    });
+});
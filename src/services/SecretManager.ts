@@ -5,9 +5,21 @@
  * @since 1.0.4
  * @version 1.0.5
  */
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import { Binary } from "mongodb";
-import { ISecretManagerOptions } from "../models/Secret";
+import { ISecretBatchResult, ISecretDue, ISecretEntry, ISecretFilter, ISecretLease, ISecretManagerOptions, ISecretMetadata, ISecretProviderOptions, ISecretResult, ISecretSaveResult, SecretExpiredError, SecretValue } from "../models/Secret";
+import { ISecretAuditor, ISecretAuditRecord, SecretAuditOutcome } from "../models/SecretAudit";
 import { ISecretManager } from "../models/SecretManager";
+import { ISecretAccessRequest, ISecretPolicy } from "../models/SecretPolicy";
+import { ISecretRotationContext, ISecretRotationResult, ISecretRotationRule, ISecretRotationStep, ISecretRotator } from "../models/SecretRotator";
+import { ISecretSyncCheckpoint, ISecretSyncItem, ISecretSyncOptions, ISecretSyncResult } from "../models/SecretSync";
+import { ISecretWatcher, ISecretWatchEvent, SecretWatchCallback } from "../models/SecretWatch";
+import { ISecretCacheEntry, SecretCache } from "./SecretCache";
+import { SecretCodec } from "./SecretCodec";
+import { SecretRedactor } from "./SecretRedactor";
 import { BaseService, IIoC, ILogger, VCategory } from "@kozen/engine";
 
 /**
@@ -23,6 +35,41 @@ export class SecretManager extends BaseService implements ISecretManager {
      */
     protected _options?: ISecretManagerOptions;
 
+    /**
+     * Shared value codec decoding the raw values of every backend
+     * @protected
+     * @type {SecretCodec}
+     */
+    protected codec: SecretCodec = new SecretCodec();
+
+    /**
+     * In-process cache of resolve results, created on first use when the cache is enabled
+     * @protected
+     * @type {SecretCache | undefined}
+     */
+    protected cache?: SecretCache;
+
+    /**
+     * Shared redactor, learns every resolved and saved value and masks them in the logs
+     * @protected
+     * @type {SecretRedactor}
+     */
+    protected redactor: SecretRedactor;
+
+    /**
+     * Audit trail recording every resolve, save, delete and rollback, none when not injected
+     * @protected
+     * @type {ISecretAuditor | undefined}
+     */
+    protected auditor?: ISecretAuditor;
+
+    /**
+     * Access policy evaluated before every operation, none when not injected
+     * @protected
+     * @type {ISecretPolicy | undefined}
+     */
+    protected policy?: ISecretPolicy;
+
     /**
      * Gets the current secret manager configuration options
      * @public
@@ -49,18 +96,35 @@ export class SecretManager extends BaseService implements ISecretManager {
      * @constructor
      * @param {ISecretManagerOptions} [options] - Optional secret manager configuration
      */
-    constructor(options?: ISecretManagerOptions, dep?: { assistant: IIoC, logger: ILogger }) {
+    constructor(options?: ISecretManagerOptions, dep?: { assistant: IIoC, logger: ILogger, redactor?: SecretRedactor, auditor?: ISecretAuditor, policy?: ISecretPolicy }) {
         super(dep);
         this.options = options!;
         this.prefix = 'secret:manager:';
+        this.redactor = dep?.redactor || new SecretRedactor();
+        this.logger = this.redactor.wrap(this.logger);
+        this.auditor = dep?.auditor;
+        this.policy = dep?.policy;
     }
 
     configure(options: ISecretManagerOptions): void {
         this._options = this._options || {};
         this._options.type = options.type || this._options.type;
         this._options.flow = options.flow || this._options.flow;
+        this._options.actor = options.actor || this._options.actor;
+        this._options.source = options.source || this._options.source;
+        this._options.role = options.role || this._options.role;
+        this._options.namespace = options.namespace ?? this._options.namespace;
+        this._options.environment = options.environment ?? this._options.environment;
+        this._options.inherit = options.inherit ?? this._options.inherit;
+        this._options.chain = options.chain || this._options.chain;
+        this._options.write = options.write || this._options.write;
+        this._options.expiry = options.expiry || this._options.expiry;
+        this._options.rotation = options.rotation || this._options.rotation;
         this._options.cloud = { ...this._options.cloud, ...options.cloud };
         this._options.mdb = { ...this._options.mdb, ...options.mdb };
+        this._options.file = { ...this._options.file, ...options.file };
+        this._options.vault = { ...this._options.vault, ...options.vault };
+        this._options.cache = { ...this._options.cache, ...options.cache };
     }
 
     /**
@@ -68,66 +132,1506 @@ export class SecretManager extends BaseService implements ISecretManager {
      * @public
      * @param {string} key - The secret key to resolve
      * @param {ISecretManagerOptions} [options] - Optional configuration override
-     * @returns {Promise<string | null | undefined | number | boolean>} Promise resolving to the secret value
+     * @returns {Promise<SecretValue>} Promise resolving to the secret value
      * @throws {Error} When secret resolution fails
      */
-    public async resolve(key: string, options?: ISecretManagerOptions): Promise<string | null | undefined | number | boolean> {
-        const value = await this.getValue(key, options);
-        return value ?? process.env[key];
+    public async resolve(key: string, options?: ISecretManagerOptions): Promise<SecretValue> {
+        const result = await this.lookup(key, options);
+        return result.value;
     }
 
     /**
-     * Resolves a secret value from the configured backend
+     * Resolves a secret value through the provider chain, the first provider holding the value wins
+     * A 'key#jsonPath' selector returns a single field of a JSON secret, e.g. 'db-creds#password'
+     * Within a provider, a key missing in the environment scope is looked up in its parent scopes unless inherit is off
+     * With the cache enabled, fresh results are served from memory and stale ones while they are refreshed
      * @public
      * @param {string} key - The secret key to resolve
      * @param {ISecretManagerOptions} [options] - Optional configuration override
-     * @returns {Promise<string | null | undefined | number | boolean>} Promise resolving to the secret value
-     * @throws {Error} When secret resolution fails
+     * @returns {Promise<ISecretResult>} Promise resolving to the secret value and the provider it came from
      */
-    public async save(key: string, value: string | Binary, options?: ISecretManagerOptions): Promise<boolean> {
+    public async lookup(key: string, options?: ISecretManagerOptions): Promise<ISecretResult> {
+        options = { ...this.options, ...options };
+        const denial = await this.authorize('resolve', key, options);
+        if (denial) {
+            throw new Error(denial);
+        }
         try {
-            if (!this.assistant) {
-                throw new Error("Incorrect dependency injection configuration.");
+            const result = await this.getLookup(key, options);
+            await this.audit(options, { action: 'resolve', key, backend: result.provider, outcome: result.value === null || result.value === undefined ? 'not-found' : 'success' });
+            return result;
+        } catch (error) {
+            await this.audit(options, { action: 'resolve', key, outcome: 'failure', error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Reads a secret through the cache when it is enabled, or through the provider chain
+     * @protected
+     * @param {string} key - The secret key to resolve
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {Promise<ISecretResult>} Promise resolving to the secret value and the provider it came from
+     */
+    protected async getLookup(key: string, options: ISecretManagerOptions): Promise<ISecretResult> {
+        if (!options.cache?.enabled) {
+            const result = await this.getResult(key, options);
+            this.redactor.add(result.value);
+            return result;
+        }
+
+        const cache = this.getCache(options);
+        const id = this.getCacheId(key, options);
+        const entry = cache.get(id);
+        if (entry && entry.expiresAt > Date.now()) {
+            this.logCache('hit', key, options);
+            return entry.result;
+        }
+        if (entry) {
+            this.logCache('stale', key, options);
+            this.refresh(id, key, options, entry.result).catch(() => null);
+            return entry.result;
+        }
+        this.logCache('miss', key, options);
+        return await this.refresh(id, key, options);
+    }
+
+    /**
+     * Drops the cached results of a key, or the whole cache when no key is given
+     * @public
+     * @param {string} [key] - The secret key, every version, stage and field selector of it is dropped
+     */
+    public invalidate(key?: string): void {
+        const count = this.cache?.invalidate(key === undefined ? undefined : this.codec.parseKey(key).name) ?? 0;
+        count && this.logCache('invalidate', key ?? '*', this.options);
+    }
+
+    /**
+     * Resolves several secret values through the provider chain, each provider receives the keys still missing in one batch
+     * per environment scope, from the configured scope up to its parents
+     * Cached results are served from memory, a failed key does not fail the batch
+     * @public
+     * @param {string[]} keys - The secret keys to resolve
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretBatchResult[]>} Promise resolving to one result per key, in the order of the keys
+     */
+    public async resolveMany(keys: string[], options?: ISecretManagerOptions): Promise<ISecretBatchResult[]> {
+        options = { ...this.options, ...options };
+        const results = new Map<string, ISecretBatchResult>();
+        const found = (key: string) => results.get(key)?.value !== null && results.get(key)?.value !== undefined;
+        const settled = (key: string) => found(key) || !!results.get(key)?.expired;
+        let pending = [...new Set(keys)];
+
+        // denied keys are reported like missing ones with the denial as error
+        const denied = new Set<string>();
+        for (const key of pending) {
+            const denial = await this.authorize('resolve', key, options);
+            if (denial) {
+                denied.add(key);
+                results.set(key, { key, value: null, error: denial });
             }
-            options = { ...this.options, ...options };
-            if (!this.options?.type) {
-                throw new Error("SecretManager options or type is not defined.");
+        }
+        pending = pending.filter(key => !denied.has(key));
+
+        const cache = options.cache?.enabled ? this.getCache(options) : null;
+        if (cache) {
+            pending = pending.filter(key => {
+                const entry = cache.get(this.getCacheId(key, options!));
+                const fresh = !!entry && entry.expiresAt > Date.now();
+                this.logCache(fresh ? 'hit' : 'miss', key, options!);
+                fresh && results.set(key, entry!.result);
+                return !fresh;
+            });
+        }
+        const fetched = [...pending];
+
+        for (const provider of this.getProviders(options)) {
+            if (!pending.length) {
+                break;
+            }
+            let batch: ISecretBatchResult[];
+            try {
+                batch = provider.type === 'env'
+                    ? pending.map(key => {
+                        try {
+                            return { key, value: this.getEnv(key, provider) };
+                        } catch (error) {
+                            return { key, value: null, error: (error as Error).message };
+                        }
+                    })
+                    : await this.resolveScoped(pending, provider);
+            }
+            catch (error) {
+                this.logger?.error({
+                    flow: options?.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:Manager:resolveMany',
+                    message: `[${provider.type}] ${(error as Error).message}`
+                });
+                batch = pending.map(key => ({ key, value: null, error: `[${provider.type}] ${(error as Error).message}` }));
             }
-            const controller = await this.getDelegate<ISecretManager>((options.type || 'aws').toLowerCase());
-            return controller.save(key, value, options);
+            for (const item of batch) {
+                this.redactor.add(item.value);
+                if (item.value !== null && item.value !== undefined) {
+                    results.set(item.key, { key: item.key, value: item.value, provider: provider.type, environment: item.environment });
+                } else if (item.expired || (item.error && !results.has(item.key))) {
+                    results.set(item.key, { key: item.key, value: null, error: item.error, expired: item.expired });
+                }
+            }
+            // an expired key refused by a provider is not looked up in the next ones
+            pending = pending.filter(key => !settled(key));
+        }
+
+        for (const key of cache ? fetched : []) {
+            const result = results.get(key) || { key, value: null };
+            const entry = !result.error && this.getCacheEntry(key, result, options);
+            entry && cache!.set(this.getCacheId(key, options), entry);
+        }
+        const output = keys.map(key => results.get(key) || { key, value: null });
+        await this.audit(options, ...output.filter(item => !denied.has(item.key)).map(item => ({
+            action: 'resolve' as const,
+            key: item.key,
+            backend: item.provider,
+            outcome: item.error ? 'failure' as const : item.value === null || item.value === undefined ? 'not-found' as const : 'success' as const,
+            error: item.error
+        })));
+        return output;
+    }
+
+    /**
+     * Saves several secret values to the configured write targets, each target receives the entries in one batch
+     * @public
+     * @param {ISecretEntry[]} entries - The secret entries to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretSaveResult[]>} Promise resolving to one result per entry, saved when every write target stored it
+     */
+    public async saveMany(entries: ISecretEntry[], options?: ISecretManagerOptions): Promise<ISecretSaveResult[]> {
+        options = { ...this.options, ...options };
+        const results: ISecretSaveResult[] = entries.map(entry => ({ key: entry.key, saved: true }));
+
+        // denied entries are reported as not saved, the others are written in one batch
+        const allowed: number[] = [];
+        for (const [index, entry] of entries.entries()) {
+            const denial = await this.authorize('save', entry.key, options);
+            if (denial) {
+                results[index] = { key: entry.key, saved: false, error: denial };
+            } else {
+                allowed.push(index);
+            }
+        }
+        const accepted = allowed.map(index => entries[index]);
+        accepted.forEach(entry => this.redactor.add(entry.value));
+        for (const target of accepted.length ? this.getTargets(options) : []) {
+            let batch: ISecretSaveResult[];
+            try {
+                batch = await (await this.getManager(target)).saveMany(accepted, target);
+            }
+            catch (error) {
+                this.logger?.error({
+                    flow: options?.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:Manager:saveMany',
+                    message: `[${target.type}] ${(error as Error).message}`
+                });
+                batch = accepted.map(entry => ({ key: entry.key, saved: false, error: (error as Error).message }));
+            }
+            batch.forEach((item, position) => {
+                const index = allowed[position];
+                if (!item.saved && results[index]) {
+                    results[index].saved = false;
+                    results[index].error = [results[index].error, `[${target.type}] ${item.error || 'not saved'}`].filter(Boolean).join('; ');
+                }
+            });
+        }
+        accepted.forEach(entry => this.invalidate(entry.key));
+        const backend = this.getTargets(options).map(target => target.type).join(',');
+        await this.audit(options, ...allowed.map(index => results[index]).map(item => ({
+            action: 'save' as const,
+            key: item.key,
+            backend,
+            outcome: item.saved ? 'success' as const : 'failure' as const,
+            error: item.error
+        })));
+        return results;
+    }
+
+    /**
+     * Resolves several keys one by one, for backends without a batch read API
+     * @protected
+     * @param {string[]} keys - The secret keys to resolve
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretBatchResult[]>} Promise resolving to one result per key
+     */
+    protected async resolveEach(keys: string[], options?: ISecretManagerOptions): Promise<ISecretBatchResult[]> {
+        return await Promise.all(keys.map(async key => {
+            try {
+                return { key, value: await this.resolve(key, options) ?? null };
+            } catch (error) {
+                return { key, value: null, error: (error as Error).message };
+            }
+        }));
+    }
+
+    /**
+     * Saves several entries one by one, for backends without a batch write API
+     * @protected
+     * @param {ISecretEntry[]} entries - The secret entries to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretSaveResult[]>} Promise resolving to one result per entry
+     */
+    protected async saveEach(entries: ISecretEntry[], options?: ISecretManagerOptions): Promise<ISecretSaveResult[]> {
+        const results: ISecretSaveResult[] = [];
+        for (const { key, value, lease } of entries) {
+            try {
+                results.push({ key, saved: await this.save(key, value, lease ? { ...options, lease } : options) });
+            } catch (error) {
+                results.push({ key, saved: false, error: (error as Error).message });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Resolves a secret value through the provider chain, bypassing the cache
+     * @protected
+     * @param {string} key - The secret key to resolve
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {Promise<ISecretResult>} Promise resolving to the secret value and the provider it came from
+     * @throws {SecretExpiredError} When a provider refuses the secret because it expired
+     */
+    protected async getResult(key: string, options: ISecretManagerOptions): Promise<ISecretResult> {
+        for (const provider of this.getProviders(options)) {
+            // environment variables are not scoped
+            const scopes = provider.type === 'env' ? [{}] : this.getScopes(provider);
+            for (const scope of scopes) {
+                const value = provider.type === 'env' ? this.getEnv(key, provider) : await this.getValue(key, { ...provider, ...scope });
+                if (value !== null && value !== undefined) {
+                    return { key, value, provider: provider.type, environment: scope.environment || undefined };
+                }
+            }
+        }
+        return { key, value: null };
+    }
+
+    /**
+     * Resolves several keys from one provider, the keys missing in the environment scope are requested again from its
+     * parent scopes
+     * @protected
+     * @param {string[]} keys - The secret keys to resolve
+     * @param {ISecretProviderOptions} options - Provider settings
+     * @returns {Promise<ISecretBatchResult[]>} Promise resolving to one result per key with the scope holding the value
+     * @throws {Error} When a batch request fails as a whole
+     */
+    protected async resolveScoped(keys: string[], options: ISecretProviderOptions): Promise<ISecretBatchResult[]> {
+        const controller = await this.getManager(options);
+        const results = new Map<string, ISecretBatchResult>();
+        const found = (key: string) => results.get(key)?.value !== null && results.get(key)?.value !== undefined;
+        const settled = (key: string) => found(key) || !!results.get(key)?.expired;
+        let pending = keys;
+        for (const scope of this.getScopes(options)) {
+            if (!pending.length) {
+                break;
+            }
+            for (const item of await controller.resolveMany(pending, { ...options, ...scope })) {
+                if ((item.value !== null && item.value !== undefined) || item.expired) {
+                    results.set(item.key, { ...item, environment: scope.environment || undefined });
+                } else if (!results.has(item.key)) {
+                    results.set(item.key, item);
+                }
+            }
+            pending = pending.filter(key => !settled(key));
+        }
+        return keys.map(key => results.get(key) || { key, value: null });
+    }
+
+    /**
+     * Saves a secret value to the configured write target, or to every target with a write-through policy
+     * @public
+     * @param {string} key - The secret key to store
+     * @param {string | Binary | Record<string, any>} value - The secret value to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if every write target stored the value
+     */
+    public async save(key: string, value: string | Binary | Record<string, any>, options?: ISecretManagerOptions): Promise<boolean> {
+        options = { ...this.options, ...options };
+        const denial = await this.authorize('save', key, options);
+        if (denial) {
+            throw new Error(denial);
+        }
+        this.redactor.add(value);
+        let result = true;
+        const errors: string[] = [];
+        for (const target of this.getTargets(options)) {
+            try {
+                const controller = await this.getManager(target);
+                result = await controller.save(key, value, target) && result;
+            }
+            catch (error) {
+                this.logger?.error({
+                    flow: options?.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:Manager:save',
+                    message: `[${target.type}] ${(error as Error).message}`
+                });
+                errors.push(`[${target.type}] ${(error as Error).message}`);
+                result = false;
+            }
+        }
+        this.invalidate(key);
+        await this.audit(options, {
+            action: 'save',
+            key,
+            backend: this.getTargets(options).map(target => target.type).join(','),
+            outcome: result ? 'success' : 'failure',
+            error: errors.join('; ') || undefined
+        });
+        return result;
+    }
+
+    /**
+     * Deletes a secret from every write target, a failing target does not stop the other ones
+     * @public
+     * @param {string} key - The secret key to delete
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the secret was deleted and no target failed
+     * @throws {Error} When the access policy denies the deletion
+     */
+    public async delete(key: string, options?: ISecretManagerOptions): Promise<boolean> {
+        options = { ...this.options, ...options };
+        const denial = await this.authorize('delete', key, options);
+        if (denial) {
+            throw new Error(denial);
+        }
+        const outcomes = await this.applyChange('delete', key, options, (controller, target) => controller.delete(key, target));
+        return outcomes.some(outcome => outcome === 'success') && !outcomes.includes('failure');
+    }
+
+    /**
+     * Lists secret metadata from the configured backend
+     * @public
+     * @param {ISecretFilter} [filter] - Optional prefix and limit filter
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the secret metadata list
+     * @throws {Error} When the access policy denies listing
+     */
+    public async list(filter?: ISecretFilter, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        options = { ...this.options, ...options };
+        const denial = await this.authorize('list', filter?.prefix || '', options);
+        if (denial) {
+            throw new Error(denial);
+        }
+        try {
+            return await this.getList(filter, this.getTargets(options)[0]);
         }
         catch (error) {
             this.logger?.error({
                 flow: options?.flow,
                 category: VCategory.core.secret,
-                src: 'Secret:Service:Manager:save',
+                src: 'Secret:Service:Manager:list',
                 message: (error as Error).message
             });
-            return false;
+            return [];
         }
     }
 
     /**
-     * Retrieves secret value from configured backend delegate
+     * Lists the secret metadata of one provider, keys the caller may not list are left out silently
+     * The callers authorize listing the prefix
      * @protected
-     * @param {string} key - The secret key to resolve
+     * @param {ISecretFilter | undefined} filter - Optional prefix and limit filter
+     * @param {ISecretProviderOptions} options - Provider settings
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the secret metadata list
+     * @throws {Error} When the backend fails
+     */
+    protected async getList(filter: ISecretFilter | undefined, options: ISecretProviderOptions): Promise<ISecretMetadata[]> {
+        const controller = await this.getManager(options);
+        const items = await controller.list(filter, options);
+        const decisions = await Promise.all(items.map(item => this.policy?.evaluate(this.getAccess('list', item.key, options))));
+        return items.filter((item, index) => decisions[index]?.allowed !== false);
+    }
+
+    /**
+     * Lists the secrets that are expired or due for rotation, the most overdue first
+     * A secret is due at its expiry date or once its rotation period has elapsed since the last value change
+     * @public
+     * @param {ISecretFilter} [filter] - Optional prefix, limit and days ahead filter
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretDue[]>} Promise resolving to the due secrets with the reason and the due date
+     */
+    public async due(filter?: ISecretFilter, options?: ISecretManagerOptions): Promise<ISecretDue[]> {
+        const { limit, within, ...query } = filter || {};
+        const horizon = Date.now() + (Number(within) || 0) * 86400000;
+        const result: ISecretDue[] = [];
+        for (const item of await this.list(query, options)) {
+            const due = this.getDue(item);
+            due && due.dueAt.getTime() <= horizon && result.push(due);
+        }
+        result.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+        return limit ? result.slice(0, limit) : result;
+    }
+
+    /**
+     * Describes a secret from the configured backend
+     * @public
+     * @param {string} key - The secret key to describe
      * @param {ISecretManagerOptions} [options] - Optional configuration override
-     * @returns {Promise<string | null | undefined | number | boolean>} Promise resolving to secret value or null
-     * @throws {Error} When secret resolution fails or configuration is invalid
+     * @returns {Promise<ISecretMetadata | null>} Promise resolving to the secret metadata or null if not found
+     * @throws {Error} When the access policy denies the description
      */
-    protected async getValue(key: string, options?: ISecretManagerOptions): Promise<string | null | undefined | number | boolean> {
+    public async describe(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata | null> {
+        options = { ...this.options, ...options };
+        const denial = await this.authorize('describe', key, options);
+        if (denial) {
+            throw new Error(denial);
+        }
         try {
-            if (!this.assistant) {
-                throw new Error("Incorrect dependency injection configuration.");
+            options = this.getTargets(options)[0];
+            const controller = await this.getManager(options);
+            return await controller.describe(key, options);
+        }
+        catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Manager:describe',
+                message: (error as Error).message
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Lists the stored versions of a secret from the configured backend
+     * @public
+     * @param {string} key - The secret key to inspect
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the version metadata list
+     * @throws {Error} When the access policy denies reading the history
+     */
+    public async history(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        options = { ...this.options, ...options };
+        const denial = await this.authorize('history', key, options);
+        if (denial) {
+            throw new Error(denial);
+        }
+        try {
+            options = this.getTargets(options)[0];
+            const controller = await this.getManager(options);
+            return await controller.history(key, options);
+        }
+        catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Manager:history',
+                message: (error as Error).message
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Promotes a previous secret version back to the current stage in every write target
+     * @public
+     * @param {string} key - The secret key to roll back
+     * @param {string | number} version - The version to promote
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if every write target promoted the version
+     * @throws {Error} When the access policy denies the rollback
+     */
+    public async rollback(key: string, version: string | number, options?: ISecretManagerOptions): Promise<boolean> {
+        options = { ...this.options, ...options };
+        const denial = await this.authorize('rollback', key, options);
+        if (denial) {
+            throw new Error(denial);
+        }
+        const outcomes = await this.applyChange('rollback', key, options, (controller, target) => controller.rollback(key, version, target));
+        return outcomes.every(outcome => outcome === 'success');
+    }
+
+    /**
+     * Applies a delete or a rollback to every write target, a failing target does not stop the other ones
+     * Every target is audited with its own outcome, the cached results of the key are dropped afterwards
+     * @protected
+     * @param {'delete' | 'rollback'} action - The audited action
+     * @param {string} key - The secret key
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @param {Function} change - Applies the change to one target, resolving to false when the secret or version is missing
+     * @returns {Promise<SecretAuditOutcome[]>} Promise resolving to the outcome of every target
+     */
+    protected async applyChange(
+        action: 'delete' | 'rollback',
+        key: string,
+        options: ISecretManagerOptions,
+        change: (controller: ISecretManager, target: ISecretProviderOptions) => Promise<boolean>
+    ): Promise<SecretAuditOutcome[]> {
+        const events: Array<Pick<ISecretAuditRecord, 'action' | 'key' | 'outcome'> & Partial<ISecretAuditRecord>> = [];
+        const fail = (error: unknown, backend?: string) => {
+            const message = backend ? `[${backend}] ${(error as Error).message}` : (error as Error).message;
+            this.logger?.error({
+                flow: options.flow,
+                category: VCategory.core.secret,
+                src: `Secret:Service:Manager:${action}`,
+                message
+            });
+            events.push({ action, key, backend, outcome: 'failure', error: (error as Error).message });
+        };
+        try {
+            for (const target of this.getTargets(options)) {
+                try {
+                    const controller = await this.getManager(target);
+                    const result = await change(controller, target);
+                    events.push({ action, key, backend: target.type, outcome: result ? 'success' : 'not-found' });
+                }
+                catch (error) {
+                    fail(error, target.type);
+                }
             }
-            options = { ...this.options, ...options };
-            if (!this.options?.type) {
-                throw new Error("SecretManager options or type is not defined.");
+        }
+        catch (error) {
+            fail(error);
+        }
+        this.invalidate(key);
+        await this.audit(options, ...events);
+        return events.map(event => event.outcome);
+    }
+
+    /**
+     * Rotates the value of a secret with a rotation handler: generate, apply to the target system, save as a new version
+     * and verify. After a failed step the target system gets the former value back and the former version is promoted
+     * again, a new secret is deleted instead
+     * @public
+     * @param {string} key - The secret key, a '#field' selector names the rotated field of a JSON secret
+     * @param {string} [handler] - Rotation handler, by default the one of the rotation rule of the key, else password
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretRotationResult>} Promise resolving to the outcome of every step, values are never included
+     * @throws {Error} When the access policy denies the rotation
+     */
+    public async rotateValue(key: string, handler?: string, options?: ISecretManagerOptions): Promise<ISecretRotationResult> {
+        options = { ...this.options, ...options };
+        const { name, path } = this.codec.parseKey(key);
+        const denial = await this.authorize('rotate', name, options);
+        if (denial) {
+            throw new Error(denial);
+        }
+        const { handler: configured, ...rule } = this.getRotation(name, options);
+        const type = (handler || configured || options.rotation?.handler || 'password').toLowerCase();
+        const result: ISecretRotationResult = { key: name, handler: type, rotated: false, steps: [] };
+        let step = 'generate';
+        let rotator: ISecretRotator | undefined;
+        let context: ISecretRotationContext | undefined;
+        let applied = false;
+        let saved = false;
+        let previous: string | number | undefined;
+        try {
+            rotator = await this.getRotator(type);
+            const current = (await this.lookup(name, options)).value;
+            previous = (await this.history(name, options)).find(item => item.stage?.split(',').includes('current'))?.version;
+            context = { key: name, current, settings: { ...rotator.options, ...rule, field: rule.field || path }, options };
+
+            const value = await rotator.generate(context);
+            this.redactor.add(value);
+            result.steps.push({ step, status: 'ok' });
+
+            // a failed apply may have changed the target system already
+            step = 'apply';
+            applied = true;
+            await rotator.apply(context, value);
+            result.steps.push({ step, status: 'ok' });
+
+            step = 'save';
+            if (!await this.save(name, value, options)) {
+                throw new Error("The new value could not be saved.");
+            }
+            saved = true;
+            result.steps.push({ step, status: 'ok' });
+
+            step = 'verify';
+            const stored = (await this.lookup(name, options)).value;
+            if (this.codec.stringify(stored) !== this.codec.stringify(value)) {
+                throw new Error("The stored value differs from the new value.");
+            }
+            if (!await rotator.verify(context, value)) {
+                throw new Error("The target system does not accept the new value.");
+            }
+            result.steps.push({ step, status: 'ok' });
+            result.rotated = true;
+            result.version = (await this.describe(name, options))?.version;
+        } catch (error) {
+            result.error = (error as Error).message;
+            result.steps.push({ step, status: 'failed', message: result.error });
+            this.logger?.error({
+                flow: options.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Manager:rotateValue',
+                message: `Failed to rotate secret '${name}' with the '${type}' handler at the ${step} step. ${result.error}`
+            });
+            if (rotator && context && (applied || saved)) {
+                result.steps.push(await this.restore(name, rotator, context, applied, saved ? previous ?? null : undefined, options));
+            }
+        }
+        await this.audit(options, {
+            action: 'rotate',
+            key: name,
+            backend: type,
+            outcome: result.rotated ? 'success' : 'failure',
+            error: result.error
+        });
+        return result;
+    }
+
+    /**
+     * Copies the secrets of one backend into another, in ascending key order and in batches
+     * Reads and writes go through the access policy and the audit trail like any other operation; a checkpoint file
+     * records the last processed key so an interrupted run resumes after it, a completed run removes it
+     * @public
+     * @param {string} from - Source backend type, e.g. aws
+     * @param {string} to - Target backend type, e.g. mdb
+     * @param {ISecretSyncOptions} [settings] - Optional prefix, conflict policy, dry-run, checkpoint and batch settings
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretSyncResult>} Promise resolving to the action taken for every key, values are never included
+     * @throws {Error} When the backends or the conflict policy are invalid, or a backend cannot be listed
+     */
+    public async sync(from: string, to: string, settings?: ISecretSyncOptions, options?: ISecretManagerOptions): Promise<ISecretSyncResult> {
+        options = { ...this.options, ...options };
+        const prefix = settings?.prefix || '';
+        const conflict = (settings?.conflict || 'overwrite').toLowerCase();
+        const dryRun = !!settings?.dryRun;
+        const result: ISecretSyncResult = { from, to, prefix: prefix || undefined, dryRun, items: [] };
+        try {
+            if (!['overwrite', 'skip', 'newest-wins'].includes(conflict)) {
+                throw new Error(`Unsupported conflict policy '${settings?.conflict}', expected overwrite, skip or newest-wins.`);
+            }
+            const source = this.getBackend(from, options);
+            const target = this.getBackend(to, options);
+            if (source.type === target.type) {
+                throw new Error(`The source and the target must be different backends, both are '${source.type}'.`);
+            }
+            result.from = source.type!;
+            result.to = target.type!;
+            const file = path.resolve(settings?.checkpoint || path.join(os.tmpdir(), `kozen-sync-${crypto.createHash('sha256').update(`${source.type}>${target.type}:${this.getScopedKey(prefix, options)}`).digest('hex').slice(0, 16)}.json`));
+            const checkpoint = dryRun ? null : await this.readCheckpoint(file, { from: result.from, to: result.to, prefix }, options);
+            result.resumed = checkpoint?.key;
+
+            for (const item of [target, source]) {
+                const denial = await this.authorize('list', prefix, item);
+                if (denial) {
+                    throw new Error(denial);
+                }
+            }
+            const listings = await Promise.all([target, source].map(item => this.getList({ prefix }, this.getTargets(item)[0])));
+            const targets = new Map(listings[0].map(item => [item.key, item]));
+            const sources = listings[1]
+                .filter(item => !checkpoint || item.key > checkpoint.key)
+                .sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+            const size = Math.max(1, Number(settings?.batch) || 50);
+
+            for (let start = 0; start < sources.length; start += size) {
+                const chunk = sources.slice(start, start + size);
+                const values = await this.resolveMany(chunk.map(item => item.key), source);
+                const current = new Map((await this.resolveMany(chunk.map(item => item.key).filter(key => targets.has(key)), target)).map(item => [item.key, item]));
+                const entries: ISecretEntry[] = [];
+                const items: ISecretSyncItem[] = chunk.map((metadata, index) => {
+                    const { key, value, error } = values[index];
+                    if (error || value === null || value === undefined) {
+                        return { key, action: 'error', reason: error || 'not found in the source' };
+                    }
+                    const item = this.getSyncItem(metadata, value, targets.get(key), current.get(key), conflict);
+                    if (item.action === 'add' || item.action === 'change') {
+                        // the lifecycle metadata travels with the value, backends report missing fields as null
+                        const { expiresAt, rotateEvery, owner, tags, description } = metadata;
+                        const lease = Object.entries({ expiresAt, rotateEvery, owner, tags, description }).filter(([, field]) => field !== null && field !== undefined);
+                        entries.push({
+                            key,
+                            value: Buffer.isBuffer(value) ? new Binary(value) : typeof value === 'object' ? value : String(value),
+                            lease: lease.length ? this.getLease(Object.fromEntries(lease)) : undefined
+                        });
+                    }
+                    return item;
+                });
+
+                if (!dryRun && entries.length) {
+                    const saved = new Map((await this.saveMany(entries, target)).map(item => [item.key, item]));
+                    for (const item of items) {
+                        const outcome = saved.get(item.key);
+                        if (outcome && !outcome.saved) {
+                            item.action = 'error';
+                            item.reason = outcome.error || 'not saved in the target';
+                        }
+                    }
+                }
+                result.items.push(...items);
+                if (!dryRun) {
+                    await this.writeCheckpoint(file, { from: result.from, to: result.to, prefix, key: chunk[chunk.length - 1].key, updatedAt: new Date().toISOString() });
+                }
+                this.logger?.info({
+                    flow: options.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:Manager:sync',
+                    message: `${dryRun ? '[dry-run] ' : ''}Processed ${start + chunk.length}/${sources.length} secret(s) from '${result.from}' to '${result.to}'.`
+                });
             }
-            const controller = await this.getDelegate<ISecretManager>((options.type || 'aws').toLowerCase());
+            if (!dryRun) {
+                await fs.promises.rm(file, { force: true });
+            }
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: options.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Manager:sync',
+                message: `Failed to synchronize secrets from '${from}' to '${to}'. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Notifies the changes of a secret, or of every secret of a prefix, as the first write target reports them
+     * Each change drops the cached results of its key before the callback runs; changes the access policy denies
+     * are not delivered and a failing callback does not stop the notifications
+     * @public
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix
+     * @param {SecretWatchCallback} callback - Receives the changes one at a time
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretWatcher>} Promise resolving to the handle stopping the notifications
+     * @throws {Error} When the access policy denies reading the watched secrets or the backend cannot be watched
+     */
+    public async watch(pattern: string, callback: SecretWatchCallback, options?: ISecretManagerOptions): Promise<ISecretWatcher> {
+        const target = this.getTargets({ ...this.options, ...options })[0];
+        const denial = await this.authorize('resolve', pattern, target);
+        if (denial) {
+            throw new Error(denial);
+        }
+        const controller = await this.getManager(target);
+        return await controller.watch(pattern, async (event: ISecretWatchEvent) => {
+            this.invalidate(event.key);
+            try {
+                if (await this.authorize('resolve', event.key, target)) {
+                    return;
+                }
+                this.redactor.add(event.value);
+                await this.audit(target, { action: 'resolve', key: event.key, backend: event.provider, outcome: event.type === 'delete' ? 'not-found' : 'success' });
+                await callback(event);
+            } catch (error) {
+                this.logger?.error({
+                    flow: target.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:Manager:watch',
+                    message: `Failed to handle the change of secret '${event.key}'. ${(error as Error).message}`
+                });
+            }
+        }, target);
+    }
+
+    /**
+     * Builds the provider chain applicable to the current environment
+     * @protected
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {ISecretProviderOptions[]} Provider settings merged over the configuration, in resolution order
+     */
+    protected getProviders(options: ISecretManagerOptions): ISecretProviderOptions[] {
+        const environment = process.env.KOZEN_STACK || process.env.NODE_ENV;
+        const chain = options.chain?.length ? options.chain : [options.type || 'aws', 'env'];
+        return chain
+            .map(item => typeof item === 'string' ? { type: item } : item)
+            .filter(item => !item.environments?.length || (!!environment && item.environments.includes(environment)))
+            .map(item => ({
+                ...options,
+                ...item,
+                cloud: { ...options.cloud, ...item.cloud },
+                mdb: { ...options.mdb, ...item.mdb },
+                file: { ...options.file, ...item.file },
+                vault: { ...options.vault, ...item.vault },
+                cache: { ...options.cache, ...item.cache },
+                type: (item.type || options.type || 'aws').toLowerCase()
+            }));
+    }
+
+    /**
+     * Selects the write targets, the first one also serves the list, describe and history operations
+     * @protected
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {ISecretProviderOptions[]} Provider settings of the write targets
+     * @throws {Error} When no writable provider is configured
+     */
+    protected getTargets(options: ISecretManagerOptions): ISecretProviderOptions[] {
+        const providers = this.getProviders(options).filter(provider => provider.type !== 'env');
+        if (!options.write) {
+            if (!providers.length) {
+                throw new Error("No writable provider in the secret manager chain, the env provider is read-only.");
+            }
+            return [providers[0]];
+        }
+        const names = (Array.isArray(options.write) ? options.write : [options.write]).map(name => name.toLowerCase());
+        if (names.includes('env')) {
+            throw new Error("The env provider is read-only and cannot be a write target.");
+        }
+        return names.map(name => providers.find(provider => provider.type === name) || { ...options, type: name });
+    }
+
+    /**
+     * Builds the environment scopes a resolve operation tries, the configured one first and then its parents
+     * 'prod/eu' yields 'prod/eu' and 'prod', an unscoped configuration yields the unscoped one only
+     * @protected
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {ISecretManagerOptions[]} Environment overrides of the provider settings, in resolution order
+     */
+    protected getScopes(options: ISecretManagerOptions): ISecretManagerOptions[] {
+        const parts = this.getScopeParts(this.getScopeFields(options).environment);
+        if (!parts.length) {
+            return [{ environment: '' }];
+        }
+        const depth = options.inherit === false ? 1 : parts.length;
+        return Array.from({ length: depth }, (_, index) => ({ environment: parts.slice(0, parts.length - index).join('/') }));
+    }
+
+    /**
+     * Retrieves the namespace and environment of the keys, from the options or else from KOZEN_SM_NAMESPACE and
+     * KOZEN_SM_ENVIRONMENT
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Effective configuration options
+     * @returns {{ namespace: string, environment: string }} The normalized scope, empty strings when unset
+     * @throws {Error} When the namespace holds several names
+     */
+    protected getScopeFields(options?: ISecretManagerOptions): { namespace: string, environment: string } {
+        options = options || this.options;
+        const namespace = this.getScopeParts(options?.namespace ?? process.env.KOZEN_SM_NAMESPACE).join('/');
+        if (namespace.includes('/')) {
+            throw new Error(`Invalid namespace '${namespace}', a namespace is a single name without '/'.`);
+        }
+        return { namespace, environment: this.getScopeParts(options?.environment ?? process.env.KOZEN_SM_ENVIRONMENT).join('/') };
+    }
+
+    /**
+     * Retrieves the path prefix of the namespace and environment scope, e.g. 'acme/prod/eu'
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Effective configuration options
+     * @returns {string} The scope prefix, empty when the keys are unscoped
+     * @throws {Error} When the namespace holds several names
+     */
+    protected getScope(options?: ISecretManagerOptions): string {
+        const { namespace, environment } = this.getScopeFields(options);
+        return [namespace, environment].filter(Boolean).join('/');
+    }
+
+    /**
+     * Splits a namespace or environment into its names, dropping empty ones and surrounding spaces
+     * @protected
+     * @param {string} [value] - The namespace or environment
+     * @returns {string[]} The names
+     */
+    protected getScopeParts(value?: string): string[] {
+        return (value || '').split('/').map(part => part.trim()).filter(Boolean);
+    }
+
+    /**
+     * Maps a key onto its path in a backend without scope fields: the scope prefix followed by the key
+     * @protected
+     * @param {string} key - The secret key
+     * @param {ISecretManagerOptions} [options] - Effective configuration options
+     * @returns {string} The scoped key, the key itself when unscoped
+     */
+    protected getScopedKey(key: string, options?: ISecretManagerOptions): string {
+        const scope = this.getScope(options);
+        return scope ? `${scope}/${key}` : key;
+    }
+
+    /**
+     * Maps a path of a backend without scope fields back onto the key, see getScopedKey
+     * @protected
+     * @param {string} path - The scoped key
+     * @param {ISecretManagerOptions} [options] - Effective configuration options
+     * @returns {string} The key, the path itself when it is outside the scope
+     */
+    protected getUnscopedKey(path: string, options?: ISecretManagerOptions): string {
+        const scope = this.getScope(options);
+        return scope && path.startsWith(`${scope}/`) ? path.substring(scope.length + 1) : path;
+    }
+
+    /**
+     * Resolves the backend delegate selected by the options type
+     * @protected
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {Promise<ISecretManager>} Promise resolving to the backend delegate
+     * @throws {Error} When the dependency injection or the backend type is not configured
+     */
+    protected async getManager(options: ISecretManagerOptions): Promise<ISecretManager> {
+        if (!this.assistant) {
+            throw new Error("Incorrect dependency injection configuration.");
+        }
+        if (!options?.type) {
+            throw new Error("SecretManager options or type is not defined.");
+        }
+        return await this.getDelegate<ISecretManager>(options.type.toLowerCase());
+    }
+
+    /**
+     * Retrieves the cache, sized by the configuration on first use
+     * @protected
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {SecretCache} The cache
+     */
+    protected getCache(options: ISecretManagerOptions): SecretCache {
+        this.cache = this.cache || new SecretCache(options.cache?.size ?? 500);
+        return this.cache;
+    }
+
+    /**
+     * Resolves a key through the chain and stores the result with the TTL of its key or of the provider holding it
+     * A failed or empty refresh keeps serving the stale value until its stale window ends, a refused expired secret does not
+     * @protected
+     * @param {string} id - The cache entry identifier
+     * @param {string} key - The secret key to resolve
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @param {ISecretResult} [stale] - The stale result being revalidated
+     * @returns {Promise<ISecretResult>} Promise resolving to the secret value and the provider it came from
+     */
+    protected refresh(id: string, key: string, options: ISecretManagerOptions, stale?: ISecretResult): Promise<ISecretResult> {
+        return this.getCache(options).refresh(id, async () => {
+            const result = await this.getResult(key, options).catch(error => {
+                // a refused secret must not keep being served from its stale entry
+                error instanceof SecretExpiredError && this.cache?.invalidate(this.codec.parseKey(key).name);
+                throw error;
+            });
+            this.redactor.add(result.value);
+            const missing = result.value === null || result.value === undefined;
+            if (missing && stale && stale.value !== null && stale.value !== undefined) {
+                return { result: stale, entry: null };
+            }
+            this.logCache('refresh', key, options);
+            return { result, entry: this.getCacheEntry(key, result, options) };
+        });
+    }
+
+    /**
+     * Builds the cache entry of a result with the TTL of its key or of the provider holding it
+     * @protected
+     * @param {string} key - The secret key
+     * @param {ISecretResult} result - The resolve result
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {ISecretCacheEntry | null} The entry, null when the result must not be cached
+     */
+    protected getCacheEntry(key: string, result: ISecretResult, options: ISecretManagerOptions): ISecretCacheEntry | null {
+        const missing = result.value === null || result.value === undefined;
+        const provider = this.getProviders(options).find(item => item.type === result.provider);
+        const ttl = missing ? (options.cache?.negativeTtl ?? 5000) : this.getTtl(key, provider || options);
+        const now = Date.now();
+        return ttl > 0 ? {
+            name: this.codec.parseKey(key).name,
+            result,
+            expiresAt: now + ttl,
+            staleUntil: now + ttl + (missing ? 0 : options.cache?.stale ?? 0)
+        } : null;
+    }
+
+    /**
+     * Builds the cache entry identifier of a key under the call selectors, the scope and the provider chain
+     * @protected
+     * @param {string} key - The secret key
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {string} The cache entry identifier
+     */
+    protected getCacheId(key: string, options: ISecretManagerOptions): string {
+        return JSON.stringify([
+            key,
+            options.version ?? null,
+            options.stage ?? null,
+            options.encoding ?? null,
+            options.chain ?? options.type ?? null,
+            this.getScope(options),
+            options.inherit !== false
+        ]);
+    }
+
+    /**
+     * Undoes a failed rotation: the target system gets the former value back, then the former version is promoted again
+     * @protected
+     * @param {string} key - The secret key
+     * @param {ISecretRotator} rotator - The rotation handler
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {boolean} applied - Whether the new value may have reached the target system
+     * @param {string | number | null} [previous] - The former current version once the new one is saved, null for a new secret
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {Promise<ISecretRotationStep>} Promise resolving to the outcome of the rollback step
+     */
+    protected async restore(key: string, rotator: ISecretRotator, context: ISecretRotationContext, applied: boolean, previous: string | number | null | undefined, options: ISecretManagerOptions): Promise<ISecretRotationStep> {
+        const errors: string[] = [];
+        if (applied && context.current !== null && context.current !== undefined) {
+            try {
+                await rotator.revert(context);
+            } catch (error) {
+                errors.push(`target system: ${(error as Error).message}`);
+            }
+        }
+        if (previous !== undefined) {
+            try {
+                const restored = previous === null ? await this.delete(key, options) : await this.rollback(key, previous, options);
+                if (!restored) {
+                    errors.push(previous === null ? 'the new secret could not be deleted' : `version '${previous}' could not be promoted`);
+                }
+            } catch (error) {
+                errors.push((error as Error).message);
+            }
+        }
+        if (!errors.length) {
+            return { step: 'rollback', status: 'ok' };
+        }
+        this.logger?.error({
+            flow: options.flow,
+            category: VCategory.core.secret,
+            src: 'Secret:Service:Manager:restore',
+            message: `Failed to undo the rotation of secret '${key}': ${errors.join('; ')}.`
+        });
+        return { step: 'rollback', status: 'failed', message: errors.join('; ') };
+    }
+
+    /**
+     * Retrieves the rotation rule of a key, a trailing '*' matches a prefix and the longest pattern wins
+     * @protected
+     * @param {string} key - The secret key
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {ISecretRotationRule} The rotation rule, empty when none matches
+     */
+    protected getRotation(key: string, options: ISecretManagerOptions): ISecretRotationRule {
+        const keys = options.rotation?.keys || {};
+        const match = Object.keys(keys)
+            .filter(pattern => pattern === key || (pattern.endsWith('*') && key.startsWith(pattern.slice(0, -1))))
+            .sort((a, b) => b.length - a.length)[0];
+        return match !== undefined ? keys[match] : {};
+    }
+
+    /**
+     * Resolves a rotation handler registered as 'secret:rotator:<name>'
+     * @protected
+     * @param {string} name - The handler name
+     * @returns {Promise<ISecretRotator>} Promise resolving to the rotation handler
+     * @throws {Error} When the handler is not registered
+     */
+    protected async getRotator(name: string): Promise<ISecretRotator> {
+        if (!this.assistant) {
+            throw new Error("Incorrect dependency injection configuration.");
+        }
+        const rotator = await this.assistant.resolve<ISecretRotator>(`secret:rotator:${name}`).catch(() => null);
+        if (!rotator) {
+            throw new Error(`Unknown rotation handler '${name}', expected one registered as 'secret:rotator:${name}'.`);
+        }
+        return rotator;
+    }
+
+    /**
+     * Watches by polling, for backends without change notifications: the versions of the watched secrets are compared
+     * every 'watch.interval' milliseconds and the changed ones are resolved again
+     * @protected
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix
+     * @param {SecretWatchCallback} callback - Receives the changes one at a time
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {Promise<ISecretWatcher>} Promise resolving to the handle stopping the polling
+     * @throws {Error} When the watched secrets cannot be listed
+     */
+    protected async poll(pattern: string, callback: SecretWatchCallback, options: ISecretManagerOptions): Promise<ISecretWatcher> {
+        const interval = Math.max(1000, Number(options.watch?.interval) || 30000);
+        let known = await this.getStamps(pattern, options);
+        let closed = false;
+        let timer: NodeJS.Timeout | undefined;
+        let running: Promise<void> = Promise.resolve();
+
+        const tick = async () => {
+            try {
+                const stamps = await this.getStamps(pattern, options);
+                for (const key of new Set([...known.keys(), ...stamps.keys()])) {
+                    if (closed || known.get(key)?.stamp === stamps.get(key)?.stamp) {
+                        continue;
+                    }
+                    // a key that fails is compared again on the next tick
+                    try {
+                        const value = stamps.has(key) ? await this.resolve(key, options) : null;
+                        const deleted = value === null || value === undefined;
+                        await callback({ key, type: deleted ? 'delete' : 'update', value: deleted ? undefined : value, version: stamps.get(key)?.version, provider: options.type, at: new Date() });
+                        if (stamps.has(key)) {
+                            known.set(key, stamps.get(key)!);
+                        } else {
+                            known.delete(key);
+                        }
+                    } catch (error) {
+                        this.logger?.warn({
+                            flow: options.flow,
+                            category: VCategory.core.secret,
+                            src: 'Secret:Service:Manager:poll',
+                            message: `Failed to notify the change of secret '${key}', retrying on the next poll. ${(error as Error).message}`
+                        });
+                    }
+                }
+            } catch (error) {
+                this.logger?.warn({
+                    flow: options.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:Manager:poll',
+                    message: `Failed to poll the secrets matching '${pattern}'. ${(error as Error).message}`
+                });
+            }
+            if (!closed) {
+                timer = setTimeout(schedule, interval);
+            }
+        };
+        const schedule = () => {
+            running = tick();
+        };
+        timer = setTimeout(schedule, interval);
+
+        return {
+            close: async () => {
+                closed = true;
+                clearTimeout(timer);
+                await running;
+            }
+        };
+    }
+
+    /**
+     * Retrieves the version stamps of the watched secrets, a stamp changes with every new or promoted version
+     * @protected
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {Promise<Map<string, { stamp: string, version?: string | number }>>} Promise resolving to the stamps by key
+     */
+    protected async getStamps(pattern: string, options: ISecretManagerOptions): Promise<Map<string, { stamp: string, version?: string | number }>> {
+        const prefix = pattern.endsWith('*') ? pattern.slice(0, -1) : null;
+        const items = prefix === null
+            ? [await this.describe(pattern, options)].filter((item): item is ISecretMetadata => !!item)
+            : await this.list({ prefix }, options);
+        return new Map(items.map(item => [item.key, {
+            stamp: `${item.version ?? ''}|${item.updatedAt ? new Date(item.updatedAt).getTime() : ''}`,
+            version: item.version
+        }]));
+    }
+
+    /**
+     * Checks whether a key is watched
+     * @protected
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix
+     * @param {string} key - The secret key
+     * @returns {boolean} True if the key matches the pattern
+     */
+    protected isWatched(pattern: string, key: string): boolean {
+        return pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern;
+    }
+
+    /**
+     * Restricts the configuration to one backend of a synchronization, its chain settings are kept and the cache is bypassed
+     * @protected
+     * @param {string} type - The backend type
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {ISecretManagerOptions} Configuration whose chain is the backend alone
+     * @throws {Error} When the backend is the env provider
+     */
+    protected getBackend(type: string, options: ISecretManagerOptions): ISecretManagerOptions {
+        type = (type || '').toLowerCase();
+        if (!type || type === 'env') {
+            throw new Error(`Unsupported synchronization backend '${type}', the env provider can neither be listed nor written.`);
+        }
+        const entry = options.chain?.map(item => typeof item === 'string' ? { type: item } : item).find(item => item.type?.toLowerCase() === type);
+        return {
+            ...options,
+            type,
+            chain: [{ ...entry, type, environments: undefined }],
+            write: undefined,
+            cache: { ...options.cache, enabled: false }
+        };
+    }
+
+    /**
+     * Compares a source secret with the target one and applies the conflict policy
+     * @protected
+     * @param {ISecretMetadata} metadata - Source metadata
+     * @param {SecretValue} value - Source value
+     * @param {ISecretMetadata | undefined} existing - Target metadata, undefined when the target lacks the key
+     * @param {ISecretBatchResult | undefined} current - Target value
+     * @param {string} conflict - Conflict policy: overwrite, skip or newest-wins
+     * @returns {ISecretSyncItem} The action to take
+     */
+    protected getSyncItem(metadata: ISecretMetadata, value: SecretValue, existing: ISecretMetadata | undefined, current: ISecretBatchResult | undefined, conflict: string): ISecretSyncItem {
+        const key = metadata.key;
+        if (current?.error) {
+            return { key, action: 'error', reason: `target: ${current.error}` };
+        }
+        if (!existing || current?.value === null || current?.value === undefined) {
+            return { key, action: 'add' };
+        }
+        if (this.codec.stringify(current.value) === this.codec.stringify(value)) {
+            return { key, action: 'unchanged' };
+        }
+        if (conflict === 'skip') {
+            return { key, action: 'skip', reason: 'the target holds another value' };
+        }
+        if (conflict === 'newest-wins') {
+            const source = metadata.updatedAt ? new Date(metadata.updatedAt).getTime() : NaN;
+            const target = existing.updatedAt ? new Date(existing.updatedAt).getTime() : NaN;
+            if (isNaN(source) || isNaN(target)) {
+                return { key, action: 'skip', reason: 'no modification date to compare' };
+            }
+            if (source <= target) {
+                return { key, action: 'skip', reason: 'the target value is newer' };
+            }
+        }
+        return { key, action: 'change' };
+    }
+
+    /**
+     * Reads the checkpoint of an interrupted synchronization
+     * @protected
+     * @param {string} file - The checkpoint file
+     * @param {Pick<ISecretSyncCheckpoint, 'from' | 'to' | 'prefix'>} scope - Source, target and prefix of the run
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {Promise<ISecretSyncCheckpoint | null>} Promise resolving to the checkpoint, null when there is none for this run
+     */
+    protected async readCheckpoint(file: string, scope: Pick<ISecretSyncCheckpoint, 'from' | 'to' | 'prefix'>, options: ISecretManagerOptions): Promise<ISecretSyncCheckpoint | null> {
+        let checkpoint: ISecretSyncCheckpoint;
+        try {
+            checkpoint = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw new Error(`Unreadable checkpoint '${file}', delete it to start over. ${(error as Error).message}`);
+        }
+        if (checkpoint.from !== scope.from || checkpoint.to !== scope.to || checkpoint.prefix !== scope.prefix || typeof checkpoint.key !== 'string') {
+            throw new Error(`The checkpoint '${file}' belongs to another synchronization, delete it or choose another checkpoint file.`);
+        }
+        this.logger?.info({
+            flow: options.flow,
+            category: VCategory.core.secret,
+            src: 'Secret:Service:Manager:sync',
+            message: `Resuming the synchronization from '${scope.from}' to '${scope.to}' after '${checkpoint.key}' (${checkpoint.updatedAt}).`
+        });
+        return checkpoint;
+    }
+
+    /**
+     * Writes the checkpoint of a synchronization, readable by the owner only
+     * @protected
+     * @param {string} file - The checkpoint file
+     * @param {ISecretSyncCheckpoint} checkpoint - The progress to record
+     * @returns {Promise<void>} Promise resolving when the checkpoint is written
+     */
+    protected async writeCheckpoint(file: string, checkpoint: ISecretSyncCheckpoint): Promise<void> {
+        // write then rename, an interruption never leaves a truncated checkpoint
+        const temporary = `${file}.${process.pid}.tmp`;
+        await fs.promises.writeFile(temporary, JSON.stringify(checkpoint, null, 2), { mode: 0o600 });
+        await fs.promises.rename(temporary, file);
+    }
+
+    /**
+     * Retrieves the TTL of a key: a key override first, then the provider setting, then the global one
+     * @protected
+     * @param {string} key - The secret key
+     * @param {ISecretManagerOptions} options - Provider or effective configuration options
+     * @returns {number} The TTL in milliseconds
+     */
+    protected getTtl(key: string, options: ISecretManagerOptions): number {
+        const { name } = this.codec.parseKey(key);
+        const keys = options.cache?.keys || {};
+        const match = Object.keys(keys)
+            .filter(pattern => pattern === name || (pattern.endsWith('*') && name.startsWith(pattern.slice(0, -1))))
+            .sort((a, b) => b.length - a.length)[0];
+        return match !== undefined ? keys[match] : options.cache?.ttl ?? 60000;
+    }
+
+    /**
+     * Logs a cache event, values are never logged
+     * @protected
+     * @param {string} event - The cache event: hit, stale, miss, refresh or invalidate
+     * @param {string} key - The secret key
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     */
+    protected logCache(event: string, key: string, options: ISecretManagerOptions): void {
+        this.logger?.debug({
+            flow: options?.flow,
+            category: VCategory.core.secret,
+            src: 'Secret:Service:Manager:cache',
+            message: `Cache ${event} for secret '${key}'.`
+        });
+    }
+
+    /**
+     * Validates the lifecycle metadata of a save operation
+     * @protected
+     * @param {ISecretLease} [lease] - The lifecycle metadata
+     * @returns {ISecretLease | undefined} The metadata with the expiry as a Date and the rotation period as a number
+     * @throws {Error} When the expiry date or the rotation period is invalid
+     */
+    protected getLease(lease?: ISecretLease): ISecretLease | undefined {
+        if (!lease) {
+            return undefined;
+        }
+        const expiresAt = lease.expiresAt ? new Date(lease.expiresAt) : undefined;
+        if (expiresAt && isNaN(expiresAt.getTime())) {
+            throw new Error(`Invalid expiry date '${lease.expiresAt}', expected an ISO 8601 date.`);
+        }
+        if (lease.rotateEvery !== undefined && lease.rotateEvery !== null && !(Number(lease.rotateEvery) > 0)) {
+            throw new Error(`Invalid rotation period '${lease.rotateEvery}', expected a positive number of days.`);
+        }
+        return { ...lease, expiresAt, rotateEvery: lease.rotateEvery ? Number(lease.rotateEvery) : undefined };
+    }
+
+    /**
+     * Applies the expiry handling to a resolved value: warn, refuse or ignore
+     * @protected
+     * @param {string} key - The secret key
+     * @param {Date | string | null} [expiresAt] - The expiry date of the resolved version
+     * @param {ISecretManagerOptions} [options] - Effective configuration options
+     * @throws {SecretExpiredError} When the secret expired and expired secrets are refused
+     */
+    protected checkExpiry(key: string, expiresAt?: Date | string | null, options?: ISecretManagerOptions): void {
+        const mode = (options?.expiry || this.options?.expiry || 'warn').toLowerCase();
+        if (!expiresAt || mode === 'ignore' || new Date(expiresAt).getTime() > Date.now()) {
+            return;
+        }
+        const error = new SecretExpiredError(key, new Date(expiresAt));
+        if (mode === 'refuse') {
+            throw error;
+        }
+        this.logger?.warn({
+            flow: options?.flow,
+            category: VCategory.core.secret,
+            src: 'Secret:Service:Manager:checkExpiry',
+            message: error.message
+        });
+    }
+
+    /**
+     * Computes the nearest expiry or rotation date of a secret
+     * @protected
+     * @param {ISecretMetadata} item - The secret metadata
+     * @returns {ISecretDue | null} The secret with the reason and the due date, null without expiry or rotation period
+     */
+    protected getDue(item: ISecretMetadata): ISecretDue | null {
+        const dates: ISecretDue[] = [];
+        const changed = item.updatedAt || item.createdAt;
+        item.expiresAt && dates.push({ ...item, reason: 'expiry', dueAt: new Date(item.expiresAt) });
+        item.rotateEvery && changed && dates.push({ ...item, reason: 'rotation', dueAt: new Date(new Date(changed).getTime() + item.rotateEvery * 86400000) });
+        return dates.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())[0] || null;
+    }
+
+    /**
+     * Records audit events of an operation with the flow, actor and source of the options, keys carry their scope prefix
+     * @protected
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @param {Array} events - Action, key, backend, outcome and error of every event
+     * @returns {Promise<void>} Promise resolving when the events are recorded
+     * @throws {Error} When the events cannot be written and auditing is required
+     */
+    protected async audit(options: ISecretManagerOptions, ...events: Array<Pick<ISecretAuditRecord, 'action' | 'key' | 'outcome'> & Partial<ISecretAuditRecord>>): Promise<void> {
+        await this.auditor?.record(...events.map(event => ({
+            flow: options.flow,
+            actor: this.getActor(options),
+            source: options.source || 'api',
+            ...event,
+            key: this.getScopedKey(event.key, options)
+        })));
+    }
+
+    /**
+     * Retrieves the identity performing the operations: the configured actor, KOZEN_SM_ACTOR or the operating system user
+     * @protected
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {string} The actor
+     */
+    protected getActor(options: ISecretManagerOptions): string {
+        if (options.actor || process.env.KOZEN_SM_ACTOR) {
+            return (options.actor || process.env.KOZEN_SM_ACTOR)!;
+        }
+        try {
+            return os.userInfo().username;
+        } catch {
+            return 'unknown';
+        }
+    }
+
+    /**
+     * Evaluates the access policy of an operation, denials are logged with the deciding rule and audited
+     * @protected
+     * @param {string} operation - The operation: resolve, save, delete, rollback, rotate, list, describe or history
+     * @param {string} key - The secret key, or the key prefix of list operations
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {Promise<string | null>} Promise resolving to the denial message, null when the operation is allowed
+     */
+    protected async authorize(operation: string, key: string, options: ISecretManagerOptions): Promise<string | null> {
+        const request = this.getAccess(operation, key, options);
+        const decision = await this.policy?.evaluate(request);
+        if (!decision || decision.allowed) {
+            return null;
+        }
+        const message = `Access denied: ${request.action} '${key}' by rule '${decision.rule}'.`;
+        this.logger?.warn({
+            flow: options.flow,
+            category: VCategory.core.secret,
+            src: 'Secret:Service:Manager:authorize',
+            message,
+            data: { ...request, rule: decision.rule }
+        });
+        ['resolve', 'save', 'delete', 'rollback', 'rotate'].includes(operation) && await this.audit(options, {
+            action: operation as ISecretAuditRecord['action'],
+            key,
+            outcome: 'denied',
+            error: message
+        });
+        return message;
+    }
+
+    /**
+     * Builds the access request of an operation with the caller roles, identity, entry point and flow
+     * Reads cover resolve, describe and history; writes cover save and rollback
+     * Keys carry their scope prefix, so rules may match a namespace or an environment, e.g. 'acme/prod/*'
+     * @protected
+     * @param {string} operation - The operation
+     * @param {string} key - The secret key, field selectors are ignored
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {ISecretAccessRequest} The access request
+     */
+    protected getAccess(operation: string, key: string, options: ISecretManagerOptions): ISecretAccessRequest {
+        const actions: Record<string, string> = { resolve: 'read', describe: 'read', history: 'read', save: 'write', rollback: 'write' };
+        return {
+            action: actions[operation] || operation,
+            key: this.getScopedKey(key && this.codec.parseKey(key).name, options),
+            roles: (options.role || process.env.KOZEN_SM_ROLE || '').split(',').map(item => item.trim()).filter(Boolean),
+            actor: this.getActor(options),
+            source: options.source || 'api',
+            flow: options.flow
+        };
+    }
+
+    /**
+     * Retrieves a secret value from the environment variables, decoded like the values of any other backend
+     * @protected
+     * @param {string} key - The variable name, optionally followed by a '#jsonPath' selector
+     * @param {ISecretManagerOptions} options - Effective configuration options
+     * @returns {SecretValue} The decoded value or null if the variable is not set
+     */
+    protected getEnv(key: string, options: ISecretManagerOptions): SecretValue {
+        const { name, path } = this.codec.parseKey(key);
+        return this.codec.decode(process.env[name], { path, encoding: options.encoding });
+    }
+
+    /**
+     * Retrieves secret value from a backend delegate, failures are logged so the chain can fall back
+     * An expired secret refused by the delegate is not a failure, it ends the chain
+     * @protected
+     * @param {string} key - The secret key to resolve
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<SecretValue>} Promise resolving to secret value or null
+     * @throws {SecretExpiredError} When the secret expired and expired secrets are refused
+     */
+    protected async getValue(key: string, options?: ISecretManagerOptions): Promise<SecretValue> {
+        try {
+            options = { ...this.options, ...options };
+            const controller = await this.getManager(options);
             return await controller.resolve(key, options);
         }
         catch (error) {
+            if (error instanceof SecretExpiredError) {
+                throw error;
+            }
             this.logger?.error({
                 flow: options?.flow,
                 category: VCategory.core.secret,
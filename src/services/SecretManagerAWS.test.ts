@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { DescribeSecretCommand, GetSecretValueCommand, PutSecretValueCommand, SecretsManagerClient, TagResourceCommand } from "@aws-sdk/client-secrets-manager";
+import { ISecretManagerOptions, SecretExpiredError } from "../models/Secret";
+import { SecretManagerAWS } from "./SecretManagerAWS";
+
+describe('SecretManagerAWS', () => {
+    const options: ISecretManagerOptions = { type: 'aws', expiry: 'refuse', namespace: '', environment: '' };
+    const past = new Date(Date.now() - 60000).toISOString();
+    let versions: Record<string, string>;
+    let tags: Array<{ Key: string, Value: string }>;
+    let describes: number;
+
+    beforeEach(() => {
+        versions = { current: 'v2', previous: 'v1' };
+        tags = [{ Key: 'kozen:expires-at', Value: past }, { Key: 'kozen:expires-version', Value: 'v2' }];
+        describes = 0;
+        mock.method(SecretsManagerClient.prototype, 'send', async (command: unknown) => {
+            if (command instanceof GetSecretValueCommand) {
+                const version = command.input.VersionId || (command.input.VersionStage === 'AWSPREVIOUS' ? versions.previous : versions.current);
+                return { VersionId: version, SecretString: `value-${version}` };
+            }
+            if (command instanceof DescribeSecretCommand) {
+                describes++;
+                return { Name: command.input.SecretId, Tags: tags };
+            }
+            if (command instanceof PutSecretValueCommand) {
+                versions = { current: command.input.ClientRequestToken!, previous: versions.current };
+                return {};
+            }
+            if (command instanceof TagResourceCommand) {
+                tags = command.input.Tags as Array<{ Key: string, Value: string }>;
+                return {};
+            }
+            throw new Error(`Unexpected command ${(command as object).constructor.name}`);
+        });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('judges each version by its own expiry', async () => {
+        const manager = new SecretManagerAWS(options);
+        await assert.rejects(manager.resolve('db', options), SecretExpiredError);
+        assert.equal(await manager.resolve('db', { ...options, stage: 'previous' }), 'value-v1');
+        assert.equal(await manager.resolve('db', { ...options, version: 'v1' }), 'value-v1');
+        await assert.rejects(manager.resolve('db', { ...options, version: 'v2' }), SecretExpiredError);
+    });
+
+    it('reuses the expiry of a version and drops it on save', async () => {
+        const manager = new SecretManagerAWS(options);
+        await assert.rejects(manager.resolve('db', options), SecretExpiredError);
+        await assert.rejects(manager.resolve('db', options), SecretExpiredError);
+        assert.equal(describes, 1);
+
+        await manager.save('db', 'rotated', options);
+        assert.equal(await manager.resolve('db', options), `value-${versions.current}`);
+        assert.equal(describes, 2);
+    });
+});
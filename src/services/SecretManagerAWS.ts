@@ -5,9 +5,29 @@
  * @since 1.0.4
  * @version 1.0.5
  */
-import { GetSecretValueCommand, SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import {
+    BatchGetSecretValueCommand,
+    CreateSecretCommand,
+    DeleteSecretCommand,
+    DescribeSecretCommand,
+    DescribeSecretCommandOutput,
+    GetSecretValueCommand,
+    ListSecretVersionIdsCommand,
+    ListSecretsCommand,
+    PutSecretValueCommand,
+    ResourceNotFoundException,
+    SecretListEntry,
+    SecretValueEntry,
+    SecretsManagerClient,
+    Tag,
+    TagResourceCommand,
+    UpdateSecretCommand,
+    UpdateSecretVersionStageCommand
+} from "@aws-sdk/client-secrets-manager";
+import crypto from "crypto";
 import { Binary } from "mongodb";
-import { ISecretManagerOptions } from "../models/Secret";
+import { ISecretBatchResult, ISecretEntry, ISecretFilter, ISecretLease, ISecretManagerOptions, ISecretMetadata, ISecretSaveResult, SecretExpiredError, SecretValue } from "../models/Secret";
+import { ISecretWatcher, SecretWatchCallback } from "../models/SecretWatch";
 import SecretManager from "./SecretManager";
 import { VCategory } from "@kozen/engine";
 
@@ -18,26 +38,37 @@ import { VCategory } from "@kozen/engine";
  */
 export class SecretManagerAWS extends SecretManager {
 
+    /**
+     * Expiry dates read from the tags by secret id and VersionId, the value APIs return no tags
+     * @protected
+     * @type {Map<string, Map<string, { expiresAt?: Date, readAt: number }>>}
+     */
+    protected expiries = new Map<string, Map<string, { expiresAt?: Date, readAt: number }>>();
+
     /**
      * Resolves a secret value from AWS Secrets Manager
+     * The version and stage selectors map onto VersionId and VersionStage, SecretString and SecretBinary are decoded by the codec
+     * Secret names live under the 'namespace/environment/' path prefix of the scope, see getSecretId
      * @public
-     * @param {string} key - The name, ARN, or partial ARN of the secret to retrieve
-     * @param {ISecretManagerOptions} [options] - Optional configuration override
-     * @returns {Promise<string | null | undefined | number | boolean>} Promise resolving to the parsed secret value
+     * @param {string} key - The name, ARN, or partial ARN of the secret to retrieve, optionally followed by a '#jsonPath' selector
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including version or stage selectors
+     * @returns {Promise<SecretValue>} Promise resolving to the decoded secret value
      * @throws {Error} When secret retrieval fails
      */
-    public async resolve(key: string, options?: ISecretManagerOptions): Promise<string | null | undefined | number | boolean> {
+    public async resolve(key: string, options?: ISecretManagerOptions): Promise<SecretValue> {
         try {
             options = options || this.options;
             const client = this.createClient(options);
-            const command = new GetSecretValueCommand({ SecretId: key });
+            const { name, path } = this.codec.parseKey(key);
+            const command = new GetSecretValueCommand({
+                SecretId: this.getSecretId(name, options),
+                VersionId: options.version !== undefined && options.version !== null ? String(options.version) : undefined,
+                VersionStage: options.stage ? this.toStage(options.stage) : undefined
+            });
             const data = await client.send(command);
+            this.checkExpiry(key, await this.getExpiry(name, data.VersionId, options), options);
 
-            if (data.SecretString) {
-                return JSON.parse(data.SecretString);
-            }
-
-            throw new Error(`Secret '${key}' was found but the SecretString is empty.`);
+            return this.codec.decode(data.SecretString ?? data.SecretBinary, { path, encoding: options.encoding });
         } catch (error) {
             this.logger?.error({
                 flow: options?.flow,
@@ -50,16 +81,475 @@ export class SecretManagerAWS extends SecretManager {
     }
 
     /**
-     * Saves a secret value to AWS Secrets Manager (not implemented)
+     * Saves a secret value to AWS Secrets Manager
+     * Adds a new version when the secret exists, otherwise creates it with the configured KMS key and tags
+     * The lifecycle metadata maps onto the description and onto 'kozen:' tags, see getTags
+     * @public
+     * @param {string} key - The name or ARN of the secret to store
+     * @param {string | Binary | Record<string, any>} value - Plain string, JSON object or binary value to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the secret is successfully saved
+     * @throws {Error} When secret storage fails
+     */
+    public async save(key: string, value: string | Binary | Record<string, any>, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            key = this.codec.getName(key);
+            const id = this.getSecretId(key, options);
+            const client = this.createClient(options);
+            const payload = this.getPayload(value);
+            const lease = this.getLease(options.lease);
+            // the version id is chosen upfront so the expiry tag can name the version it applies to
+            const version = crypto.randomUUID();
+            const tags = this.getTags(options, lease, version);
+
+            try {
+                await client.send(new PutSecretValueCommand({ SecretId: id, ClientRequestToken: version, ...payload }));
+                tags && await client.send(new TagResourceCommand({ SecretId: id, Tags: tags }));
+                lease?.description && await client.send(new UpdateSecretCommand({ SecretId: id, Description: lease.description }));
+            } catch (error) {
+                if (!(error instanceof ResourceNotFoundException)) {
+                    throw error;
+                }
+                await client.send(new CreateSecretCommand({
+                    Name: id,
+                    ClientRequestToken: version,
+                    KmsKeyId: options.cloud?.kmsKeyId,
+                    Description: lease?.description,
+                    Tags: tags,
+                    ...payload
+                }));
+            }
+            this.expiries.delete(id);
+
+            return true;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:AWS:save',
+                message: `Failed to store secret '${key}' in AWS Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Resolves several secrets with BatchGetSecretValue, 20 secrets per request
+     * Version and stage selectors are not supported by the batch API, those calls resolve the keys one by one
      * @public
-     * @param {string} key - The secret key to store
-     * @param {string | Binary} value - The secret value to store
+     * @param {string[]} keys - The secret names or ARNs, optionally followed by a '#jsonPath' selector
      * @param {ISecretManagerOptions} [options] - Optional configuration override
-     * @returns {Promise<boolean>} Promise resolving to false (not implemented)
-     * @throws {Error} When save operation is attempted
+     * @returns {Promise<ISecretBatchResult[]>} Promise resolving to one result per key, missing secrets have a null value
+     * @throws {Error} When the batch request fails as a whole
      */
-    public async save(key: string, value: string | Binary, options?: ISecretManagerOptions): Promise<boolean> {
-        throw new Error("Save operation not implemented for AWS Secrets Manager");
+    public async resolveMany(keys: string[], options?: ISecretManagerOptions): Promise<ISecretBatchResult[]> {
+        try {
+            options = options || this.options;
+            if ((options.version !== undefined && options.version !== null) || options.stage) {
+                return await this.resolveEach(keys, options);
+            }
+            const client = this.createClient(options);
+            // secret ids by scoped name, the describe calls below take the names
+            const names = new Map(keys.map(key => this.codec.parseKey(key).name).map(name => [this.getSecretId(name, options!), name]));
+            const ids = [...names.keys()];
+            const values = new Map<string, SecretValueEntry>();
+            const errors = new Map<string, { code?: string, message?: string }>();
+            for (let i = 0; i < ids.length; i += 20) {
+                const chunk = ids.slice(i, i + 20);
+                let token: string | undefined;
+                do {
+                    const data = await client.send(new BatchGetSecretValueCommand({ SecretIdList: chunk, NextToken: token }));
+                    for (const entry of data.SecretValues || []) {
+                        const id = chunk.find(item => item === entry.Name || item === entry.ARN || !!entry.ARN?.startsWith(item));
+                        id && values.set(id, entry);
+                    }
+                    for (const error of data.Errors || []) {
+                        error.SecretId && errors.set(error.SecretId, { code: error.ErrorCode, message: error.Message });
+                    }
+                    token = data.NextToken;
+                } while (token);
+            }
+
+            // the batch API returns no tags, the expiry dates of the returned versions are read apart
+            const expiries = new Map<string, Date | undefined>();
+            await Promise.all([...values.entries()].map(async ([id, entry]) => {
+                expiries.set(id, await this.getExpiry(names.get(id)!, entry.VersionId, options!));
+            }));
+
+            return keys.map(key => {
+                const { name, path } = this.codec.parseKey(key);
+                const id = this.getSecretId(name, options!);
+                const entry = values.get(id);
+                const error = errors.get(id);
+                if (!entry) {
+                    return !error || error.code === 'ResourceNotFoundException'
+                        ? { key, value: null }
+                        : { key, value: null, error: `${error.code}: ${error.message}` };
+                }
+                try {
+                    this.checkExpiry(key, expiries.get(id), options);
+                    return { key, value: this.codec.decode(entry.SecretString ?? entry.SecretBinary, { path, encoding: options!.encoding }) };
+                } catch (error) {
+                    return { key, value: null, error: (error as Error).message, expired: error instanceof SecretExpiredError || undefined };
+                }
+            });
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:AWS:resolveMany',
+                message: `Failed to retrieve secrets from AWS Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Saves several secrets, AWS Secrets Manager has no batch write API so each one is a separate request
+     * @public
+     * @param {ISecretEntry[]} entries - The secret entries to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretSaveResult[]>} Promise resolving to one result per entry
+     */
+    public async saveMany(entries: ISecretEntry[], options?: ISecretManagerOptions): Promise<ISecretSaveResult[]> {
+        return await this.saveEach(entries, options || this.options);
+    }
+
+    /**
+     * Deletes a secret from AWS Secrets Manager
+     * Uses the configured recovery window, or deletes immediately when it is set to 0
+     * @public
+     * @param {string} key - The name or ARN of the secret to delete
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the secret existed and was scheduled for deletion
+     * @throws {Error} When secret deletion fails
+     */
+    public async delete(key: string, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            const client = this.createClient(options);
+            const recoveryWindow = options.cloud?.recoveryWindow;
+            await client.send(new DeleteSecretCommand({
+                SecretId: this.getSecretId(key, options),
+                ForceDeleteWithoutRecovery: recoveryWindow === 0 || undefined,
+                RecoveryWindowInDays: recoveryWindow || undefined
+            }));
+            this.expiries.delete(this.getSecretId(key, options));
+            return true;
+        } catch (error) {
+            if (error instanceof ResourceNotFoundException) {
+                return false;
+            }
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:AWS:delete',
+                message: `Failed to delete secret '${key}' from AWS Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists secret metadata from AWS Secrets Manager, excluding values
+     * Only the secrets of the scope are listed, their keys without the scope prefix
+     * @public
+     * @param {ISecretFilter} [filter] - Optional prefix and limit filter
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the secret metadata list
+     * @throws {Error} When listing fails
+     */
+    public async list(filter?: ISecretFilter, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        try {
+            options = options || this.options;
+            const client = this.createClient(options);
+            const prefix = this.getScopedKey(filter?.prefix || '', options);
+            const result: ISecretMetadata[] = [];
+            let NextToken: string | undefined;
+            do {
+                const data = await client.send(new ListSecretsCommand({
+                    NextToken,
+                    Filters: prefix ? [{ Key: 'name', Values: [prefix] }] : undefined
+                }));
+                for (const entry of data.SecretList || []) {
+                    // the name filter also matches words inside the name, keep strict prefixes only
+                    if (!prefix || entry.Name?.startsWith(prefix)) {
+                        const metadata = this.getMetadata(entry);
+                        result.push({ ...metadata, key: this.getUnscopedKey(metadata.key, options) });
+                    }
+                }
+                NextToken = data.NextToken;
+            } while (NextToken && (!filter?.limit || result.length < filter.limit));
+
+            return filter?.limit ? result.slice(0, filter.limit) : result;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:AWS:list',
+                message: `Failed to list secrets from AWS Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Describes a secret from AWS Secrets Manager, excluding its value
+     * @public
+     * @param {string} key - The name or ARN of the secret to describe
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata | null>} Promise resolving to the secret metadata or null if not found
+     * @throws {Error} When the describe operation fails
+     */
+    public async describe(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata | null> {
+        try {
+            options = options || this.options;
+            const client = this.createClient(options);
+            const data = await client.send(new DescribeSecretCommand({ SecretId: this.getSecretId(key, options) }));
+            const metadata = this.getMetadata(data);
+            return { ...metadata, key: this.getUnscopedKey(metadata.key, options) };
+        } catch (error) {
+            if (error instanceof ResourceNotFoundException) {
+                return null;
+            }
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:AWS:describe',
+                message: `Failed to describe secret '${key}' from AWS Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the versions of a secret from AWS Secrets Manager, newest first
+     * @public
+     * @param {string} key - The name or ARN of the secret to inspect
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the version metadata list
+     * @throws {Error} When the history cannot be retrieved
+     */
+    public async history(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        try {
+            options = options || this.options;
+            const client = this.createClient(options);
+            const result: ISecretMetadata[] = [];
+            let NextToken: string | undefined;
+            do {
+                const data = await client.send(new ListSecretVersionIdsCommand({ SecretId: this.getSecretId(key, options), IncludeDeprecated: true, NextToken }));
+                for (const entry of data.Versions || []) {
+                    result.push({
+                        key: data.Name ? this.getUnscopedKey(data.Name, options) : key,
+                        type: 'aws',
+                        encrypted: true,
+                        version: entry.VersionId,
+                        stage: entry.VersionStages?.map(stage => this.fromStage(stage)).join(','),
+                        createdAt: entry.CreatedDate
+                    });
+                }
+                NextToken = data.NextToken;
+            } while (NextToken);
+
+            return result.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:AWS:history',
+                message: `Failed to retrieve the history of secret '${key}' from AWS Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Moves the AWSCURRENT stage to a previous version, AWS relabels the former current version as AWSPREVIOUS
+     * @public
+     * @param {string} key - The name or ARN of the secret to roll back
+     * @param {string | number} version - The VersionId to promote
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the version was promoted, false if it does not exist
+     * @throws {Error} When the rollback fails
+     */
+    public async rollback(key: string, version: string | number, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            const versions = await this.history(key, options);
+            const target = versions.find(item => item.version === String(version));
+            if (!target) {
+                return false;
+            }
+            const current = versions.find(item => item.stage?.split(',').includes('current'));
+            if (current?.version === target.version) {
+                return true;
+            }
+            const client = this.createClient(options);
+            await client.send(new UpdateSecretVersionStageCommand({
+                SecretId: this.getSecretId(key, options),
+                VersionStage: 'AWSCURRENT',
+                MoveToVersionId: String(version),
+                RemoveFromVersionId: current?.version as string | undefined
+            }));
+            this.expiries.delete(this.getSecretId(key, options));
+            return true;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:AWS:rollback',
+                message: `Failed to roll back secret '${key}' to version '${version}' in AWS Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Notifies the changes of a secret or of a prefix, AWS Secrets Manager has no change notifications, the secrets are polled
+     * @public
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix
+     * @param {SecretWatchCallback} callback - Receives the changes one at a time
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including the polling interval
+     * @returns {Promise<ISecretWatcher>} Promise resolving to the handle stopping the polling
+     */
+    public async watch(pattern: string, callback: SecretWatchCallback, options?: ISecretManagerOptions): Promise<ISecretWatcher> {
+        return await this.poll(pattern, callback, options || this.options);
+    }
+
+    /**
+     * Maps a key onto the secret id: the secret name under the namespace and environment path prefix, ARNs are kept
+     * @protected
+     * @param {string} key - The secret name or ARN
+     * @param {ISecretManagerOptions} options - Configuration options holding the scope
+     * @returns {string} The secret id
+     */
+    protected getSecretId(key: string, options: ISecretManagerOptions): string {
+        return key.startsWith('arn:') ? key : this.getScopedKey(key, options);
+    }
+
+    /**
+     * Reads the expiry date of a version from the tags, which name the version the expiry was saved with
+     * The outcome is reused for EXPIRY_TTL milliseconds per version, saving or rolling back the secret drops it
+     * @protected
+     * @param {string} name - The secret name or ARN
+     * @param {string} [version] - The VersionId of the returned value
+     * @param {ISecretManagerOptions} options - Configuration options holding the scope
+     * @returns {Promise<Date | undefined>} Promise resolving to the expiry date, undefined when the version has none
+     */
+    protected async getExpiry(name: string, version: string | undefined, options: ISecretManagerOptions): Promise<Date | undefined> {
+        if (!version) {
+            return undefined;
+        }
+        const id = this.getSecretId(name, options);
+        const versions = this.expiries.get(id) || new Map<string, { expiresAt?: Date, readAt: number }>();
+        const cached = versions.get(version);
+        if (cached && Date.now() - cached.readAt < EXPIRY_TTL) {
+            return cached.expiresAt;
+        }
+        let tags: Record<string, string> = {};
+        try {
+            const data = await this.createClient(options).send(new DescribeSecretCommand({ SecretId: id }));
+            tags = Object.fromEntries((data.Tags || []).map(tag => [tag.Key || '', tag.Value || '']));
+        } catch (error) {
+            if (!(error instanceof ResourceNotFoundException)) {
+                throw error;
+            }
+        }
+        const expiresAt = tags[`${TAG}expires-at`] && tags[`${TAG}expires-version`] === version ? new Date(tags[`${TAG}expires-at`]) : undefined;
+        for (const [item, entry] of versions) {
+            Date.now() - entry.readAt >= EXPIRY_TTL && versions.delete(item);
+        }
+        this.expiries.set(id, versions.set(version, { expiresAt, readAt: Date.now() }));
+        return expiresAt;
+    }
+
+    /**
+     * Maps a generic stage label onto the AWS staging label
+     * @protected
+     * @param {string} stage - Generic stage label such as current, previous or pending
+     * @returns {string} The AWS staging label, custom labels are kept as provided
+     */
+    protected toStage(stage: string): string {
+        const stages: Record<string, string> = { current: 'AWSCURRENT', previous: 'AWSPREVIOUS', pending: 'AWSPENDING' };
+        return stages[stage.toLowerCase()] || stage;
+    }
+
+    /**
+     * Maps an AWS staging label onto the generic stage label
+     * @protected
+     * @param {string} stage - AWS staging label
+     * @returns {string} The generic stage label, custom labels are kept as provided
+     */
+    protected fromStage(stage: string): string {
+        return stage.startsWith('AWS') ? stage.substring(3).toLowerCase() : stage;
+    }
+
+    /**
+     * Maps an AWS secret description onto the public secret metadata
+     * The 'kozen:' tags hold the owner, the rotation period and the expiry, which only applies while the version it
+     * was saved with is current
+     * @protected
+     * @param {SecretListEntry | DescribeSecretCommandOutput} entry - AWS secret description
+     * @returns {ISecretMetadata} The secret metadata
+     */
+    protected getMetadata(entry: SecretListEntry | DescribeSecretCommandOutput): ISecretMetadata {
+        const all = Object.fromEntries((entry.Tags || []).map(tag => [tag.Key || '', tag.Value || '']));
+        const tags = Object.fromEntries(Object.entries(all).filter(([name]) => !name.startsWith(TAG)));
+        const stages = (entry as DescribeSecretCommandOutput).VersionIdsToStages || (entry as SecretListEntry).SecretVersionsToStages || {};
+        const expiring = all[`${TAG}expires-version`];
+        return {
+            key: entry.Name || entry.ARN || '',
+            type: 'aws',
+            encrypted: true,
+            description: entry.Description,
+            tags: Object.keys(tags).length ? tags : undefined,
+            owner: all[`${TAG}owner`],
+            rotateEvery: all[`${TAG}rotate-every`] ? Number(all[`${TAG}rotate-every`]) : undefined,
+            expiresAt: all[`${TAG}expires-at`] && stages[expiring]?.includes('AWSCURRENT') ? new Date(all[`${TAG}expires-at`]) : undefined,
+            createdAt: entry.CreatedDate,
+            updatedAt: entry.LastChangedDate
+        };
+    }
+
+    /**
+     * Maps a secret value onto the SecretString or SecretBinary request fields
+     * @protected
+     * @param {string | Binary | Record<string, any>} value - The secret value to store
+     * @returns {{ SecretString?: string, SecretBinary?: Uint8Array }} Request payload for create and put operations
+     */
+    protected getPayload(value: string | Binary | Record<string, any>): { SecretString?: string, SecretBinary?: Uint8Array } {
+        if (value instanceof Binary) {
+            return { SecretBinary: value.value() };
+        }
+        if (typeof value === 'string') {
+            return { SecretString: value };
+        }
+        return { SecretString: JSON.stringify(value) };
+    }
+
+    /**
+     * Converts the configured tag map and the lifecycle metadata into the AWS tag list format
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options holding the tag map
+     * @param {ISecretLease} [lease] - Lifecycle metadata of the save operation
+     * @param {string} [version] - Version id the expiry applies to
+     * @returns {Tag[] | undefined} AWS tag list or undefined when no tags are configured
+     */
+    protected getTags(options: ISecretManagerOptions, lease?: ISecretLease, version?: string): Tag[] | undefined {
+        const expiresAt = lease?.expiresAt ? new Date(lease.expiresAt).toISOString() : undefined;
+        const entries = {
+            ...options.cloud?.tags,
+            ...lease?.tags,
+            [`${TAG}owner`]: lease?.owner,
+            [`${TAG}rotate-every`]: lease?.rotateEvery !== undefined ? String(lease.rotateEvery) : undefined,
+            [`${TAG}expires-at`]: expiresAt,
+            [`${TAG}expires-version`]: expiresAt && version
+        };
+        const tags = Object.entries(entries)
+            .filter(([, Value]) => Value !== undefined && Value !== null && Value !== '')
+            .map(([Key, Value]) => ({ Key, Value: Value as string }));
+        return tags.length ? tags : undefined;
     }
 
     /**
@@ -76,10 +566,21 @@ export class SecretManagerAWS extends SecretManager {
         const region = options.cloud?.region || process.env.AWS_REGION || "us-east-1";
         const accessKeyId = process.env[keyAKeyId] || "";
         const secretAccessKey = process.env[keySAKey] || "";
+        const endpoint = options.cloud?.endpoint || process.env.AWS_ENDPOINT_URL_SECRETS_MANAGER || process.env.AWS_ENDPOINT_URL;
 
-        return new SecretsManagerClient({ region, credentials: { accessKeyId, secretAccessKey } });
+        return new SecretsManagerClient({ region, endpoint, credentials: { accessKeyId, secretAccessKey } });
     }
 
 }
 
+/**
+ * Prefix of the tags holding the lifecycle metadata
+ */
+const TAG = 'kozen:';
+
+/**
+ * Time in milliseconds the expiry date of a secret version is reused before its tags are read again
+ */
+const EXPIRY_TTL = 60000;
+
 export default SecretManagerAWS;
\ No newline at end of file
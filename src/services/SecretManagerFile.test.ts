@@ -0,0 +1,70 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ISecretManagerOptions } from "../models/Secret";
+import { SecretManagerFile } from "./SecretManagerFile";
+
+describe('SecretManagerFile', () => {
+    let dir: string;
+    let options: ISecretManagerOptions;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kozen-file-'));
+        options = { type: 'file', file: { path: path.join(dir, 'secrets.enc'), key: 'KOZEN_TEST_FILE_KEY', passphrase: 'KOZEN_TEST_FILE_PASSPHRASE' } };
+        process.env.KOZEN_TEST_FILE_KEY = crypto.randomBytes(32).toString('base64');
+    });
+
+    after(() => {
+        delete process.env.KOZEN_TEST_FILE_KEY;
+        delete process.env.KOZEN_TEST_FILE_PASSPHRASE;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('round-trips text and JSON values without storing them in clear', async () => {
+        const manager = new SecretManagerFile(options);
+        assert.equal(await manager.save('db/password', 's3cr3t', options), true);
+        assert.equal(await manager.save('db/creds', { user: 'admin', password: 'pw' }, options), true);
+
+        assert.equal(await manager.resolve('db/password', options), 's3cr3t');
+        assert.deepEqual(await manager.resolve('db/creds', options), { user: 'admin', password: 'pw' });
+        assert.equal(await manager.resolve('db/creds#password', options), 'pw');
+        assert.equal(await manager.resolve('missing', options), null);
+        assert.doesNotMatch(fs.readFileSync(options.file!.path!, 'utf-8'), /s3cr3t/);
+    });
+
+    it('keeps the versions and rolls back to a former one', async () => {
+        const manager = new SecretManagerFile(options);
+        await manager.save('api/token', 'one', options);
+        await manager.save('api/token', 'two', options);
+
+        assert.deepEqual((await manager.history('api/token', options)).map(item => [item.version, item.stage]), [[2, 'current'], [1, 'previous']]);
+        assert.equal(await manager.resolve('api/token', { ...options, version: 1 }), 'one');
+        assert.equal(await manager.rollback('api/token', 1, options), true);
+        assert.equal(await manager.resolve('api/token', options), 'one');
+        assert.equal(await manager.delete('api/token', options), true);
+        assert.equal(await manager.resolve('api/token', options), null);
+    });
+
+    it('reads a file encrypted with a passphrase back after several writes', async () => {
+        const settings: ISecretManagerOptions = { ...options, file: { ...options.file, path: path.join(dir, 'passphrase.enc'), key: 'KOZEN_TEST_FILE_NO_KEY' } };
+        process.env.KOZEN_TEST_FILE_PASSPHRASE = 'correct horse battery staple';
+        const manager = new SecretManagerFile(settings);
+        await manager.save('a', '1', settings);
+        await manager.save('b', '2', settings);
+
+        assert.equal(await manager.resolve('a', settings), '1');
+        assert.equal(await manager.resolve('b', settings), '2');
+        process.env.KOZEN_TEST_FILE_PASSPHRASE = 'wrong';
+        await assert.rejects(manager.resolve('a', settings), /Unable to decrypt/);
+    });
+
+    it('takes over the lock left by a process that is no longer running', async () => {
+        const manager = new SecretManagerFile(options);
+        fs.writeFileSync(`${options.file!.path}.lock`, '2147483646');
+        assert.equal(await manager.save('locked', 'value', { ...options, file: { ...options.file, lockTimeout: 60000 } }), true);
+        assert.equal(fs.existsSync(`${options.file!.path}.lock`), false);
+    });
+});
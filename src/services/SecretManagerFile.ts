@@ -0,0 +1,649 @@
+/**
+ * @fileoverview File Secret Manager Service - Local Encrypted File Implementation
+ * Local file implementation of the secret management bridge for offline, development and CI use.
+ * Secrets are kept in a single AES-256-GCM encrypted file, written atomically under a lock file.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Binary, BSON } from "mongodb";
+import { ISecretBatchResult, ISecretEntry, ISecretFilter, ISecretLease, ISecretManagerOptions, ISecretMetadata, ISecretSaveResult, SecretExpiredError, SecretValue } from "../models/Secret";
+import { ISecretWatcher, SecretWatchCallback } from "../models/SecretWatch";
+import SecretManager from "./SecretManager";
+import { VCategory } from "@kozen/engine";
+
+/**
+ * Decrypted content of the secrets file
+ * @interface IFileStore
+ */
+interface IFileStore {
+    secrets: Record<string, IFileSecret>;
+}
+
+/**
+ * Stored secret with its versions
+ * @interface IFileSecret
+ */
+interface IFileSecret {
+    createdAt: Date;
+    updatedAt: Date;
+    owner?: string;
+    description?: string;
+    tags?: Record<string, string>;
+    rotateEvery?: number;
+    versions: IFileVersion[];
+}
+
+/**
+ * Stored version of a secret
+ * @interface IFileVersion
+ */
+interface IFileVersion {
+    version: number;
+    value: any;
+    stage?: string;
+    flow?: string;
+    expiresAt?: Date;
+    createdAt: Date;
+}
+
+/**
+ * Encrypted envelope persisted on disk
+ * @interface IFileEnvelope
+ */
+interface IFileEnvelope {
+    format: number;
+    salt?: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+/**
+ * Key material of the secrets file, kept from a read so the write back does not derive it again
+ * @interface IFileKeyMaterial
+ */
+interface IFileKeyMaterial {
+    salt?: Buffer;
+    key: Buffer;
+}
+
+/**
+ * @class SecretManagerFile
+ * @extends SecretManager
+ * Local encrypted file implementation with atomic writes and file locking
+ */
+export class SecretManagerFile extends SecretManager {
+
+    /**
+     * Resolves a secret value from the encrypted file
+     * @public
+     * @param {string} key - The secret key to retrieve, optionally followed by a '#jsonPath' selector
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including version or stage selectors
+     * @returns {Promise<SecretValue>} Promise resolving to the secret value or null if not found
+     * @throws {Error} When the file cannot be read or decrypted
+     */
+    public async resolve(key: string, options?: ISecretManagerOptions): Promise<SecretValue> {
+        try {
+            options = options || this.options;
+            const { name, path } = this.codec.parseKey(key);
+            const store = await this.read(options);
+            const entry = this.getEntry(store.secrets[this.getScopedKey(name, options)], options);
+            entry && this.checkExpiry(key, entry.expiresAt, options);
+            return entry ? this.codec.decode(entry.value, { path, encoding: options.encoding }) : null;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:resolve',
+                message: `Failed to retrieve secret '${key}' from the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Saves a secret value as a new current version in the encrypted file
+     * @public
+     * @param {string} key - The secret key to store
+     * @param {string | Binary | Record<string, any>} value - The secret value to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the secret is successfully saved
+     * @throws {Error} When the file cannot be written
+     */
+    public async save(key: string, value: string | Binary | Record<string, any>, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            key = this.codec.getName(key);
+            const flow = options.flow;
+            const lease = this.getLease(options.lease);
+            await this.update(options, (store) => this.addVersion(store, this.getScopedKey(key, options), value, flow, lease));
+            return true;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:save',
+                message: `Failed to store secret '${key}' in the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Resolves several secrets with a single read of the encrypted file
+     * @public
+     * @param {string[]} keys - The secret keys, optionally followed by a '#jsonPath' selector
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including version or stage selectors
+     * @returns {Promise<ISecretBatchResult[]>} Promise resolving to one result per key, missing secrets have a null value
+     * @throws {Error} When the file cannot be read or decrypted
+     */
+    public async resolveMany(keys: string[], options?: ISecretManagerOptions): Promise<ISecretBatchResult[]> {
+        try {
+            options = options || this.options;
+            const store = await this.read(options);
+            return keys.map(key => {
+                try {
+                    const { name, path } = this.codec.parseKey(key);
+                    const entry = this.getEntry(store.secrets[this.getScopedKey(name, options)], options!);
+                    entry && this.checkExpiry(key, entry.expiresAt, options);
+                    return { key, value: entry ? this.codec.decode(entry.value, { path, encoding: options!.encoding }) : null };
+                } catch (error) {
+                    return { key, value: null, error: (error as Error).message, expired: error instanceof SecretExpiredError || undefined };
+                }
+            });
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:resolveMany',
+                message: `Failed to retrieve secrets from the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Saves several secrets as new current versions with a single locked write of the encrypted file
+     * @public
+     * @param {ISecretEntry[]} entries - The secret entries to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretSaveResult[]>} Promise resolving to one result per entry
+     * @throws {Error} When the file cannot be written
+     */
+    public async saveMany(entries: ISecretEntry[], options?: ISecretManagerOptions): Promise<ISecretSaveResult[]> {
+        try {
+            options = options || this.options;
+            const flow = options.flow;
+            const results: ISecretSaveResult[] = [];
+            await this.update(options, (store) => {
+                for (const { key, value, lease } of entries) {
+                    try {
+                        this.addVersion(store, this.getScopedKey(this.codec.getName(key), options), value, flow, this.getLease(lease));
+                        results.push({ key, saved: true });
+                    } catch (error) {
+                        results.push({ key, saved: false, error: (error as Error).message });
+                    }
+                }
+            });
+            return results;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:saveMany',
+                message: `Failed to store secrets in the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes a secret and all of its versions from the encrypted file
+     * @public
+     * @param {string} key - The secret key to delete
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the secret existed and was deleted
+     * @throws {Error} When the file cannot be written
+     */
+    public async delete(key: string, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            const id = this.getScopedKey(key, options);
+            let deleted = false;
+            await this.update(options, (store) => {
+                deleted = !!store.secrets[id];
+                delete store.secrets[id];
+            });
+            return deleted;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:delete',
+                message: `Failed to delete secret '${key}' from the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists secret metadata from the encrypted file, excluding values
+     * Only the secrets of the scope are listed, their keys without the scope prefix
+     * @public
+     * @param {ISecretFilter} [filter] - Optional prefix and limit filter
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the secret metadata list
+     * @throws {Error} When the file cannot be read or decrypted
+     */
+    public async list(filter?: ISecretFilter, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        try {
+            options = options || this.options;
+            const store = await this.read(options);
+            const prefix = this.getScopedKey(filter?.prefix || '', options);
+            const result = Object.keys(store.secrets)
+                .filter(id => id.startsWith(prefix))
+                .sort()
+                .map(id => this.getMetadata(this.getUnscopedKey(id, options), store.secrets[id]));
+            return filter?.limit ? result.slice(0, filter.limit) : result;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:list',
+                message: `Failed to list secrets from the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Describes a secret from the encrypted file, excluding its value
+     * @public
+     * @param {string} key - The secret key to describe
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata | null>} Promise resolving to the secret metadata or null if not found
+     * @throws {Error} When the file cannot be read or decrypted
+     */
+    public async describe(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata | null> {
+        try {
+            options = options || this.options;
+            const store = await this.read(options);
+            const secret = store.secrets[this.getScopedKey(key, options)];
+            return secret ? this.getMetadata(key, secret) : null;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:describe',
+                message: `Failed to describe secret '${key}' from the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the stored versions of a secret, newest first, excluding values
+     * @public
+     * @param {string} key - The secret key to inspect
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the version metadata list
+     * @throws {Error} When the file cannot be read or decrypted
+     */
+    public async history(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        try {
+            options = options || this.options;
+            const store = await this.read(options);
+            return (store.secrets[this.getScopedKey(key, options)]?.versions || []).map(item => ({
+                key,
+                type: 'file',
+                encrypted: true,
+                version: item.version,
+                stage: item.stage,
+                flow: item.flow,
+                expiresAt: item.expiresAt,
+                createdAt: item.createdAt
+            }));
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:history',
+                message: `Failed to retrieve the history of secret '${key}' from the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Promotes a stored version back to the current stage, the former current version becomes previous
+     * @public
+     * @param {string} key - The secret key to roll back
+     * @param {string | number} version - The version number to promote
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the version was promoted, false if it does not exist
+     * @throws {Error} When the file cannot be written
+     */
+    public async rollback(key: string, version: string | number, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            const id = this.getScopedKey(key, options);
+            let found = false;
+            await this.update(options, (store) => {
+                const versions = store.secrets[id]?.versions || [];
+                const target = versions.find(item => item.version === Number(version));
+                if (!target || target.stage === 'current') {
+                    found = !!target;
+                    return;
+                }
+                for (const item of versions) {
+                    item.stage = item.stage === 'current' ? 'previous' : undefined;
+                }
+                target.stage = 'current';
+                found = true;
+            });
+            return found;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:File:rollback',
+                message: `Failed to roll back secret '${key}' to version '${version}' in the secrets file. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Notifies the changes of a secret or of a prefix, the secrets file is polled
+     * @public
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix
+     * @param {SecretWatchCallback} callback - Receives the changes one at a time
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including the polling interval
+     * @returns {Promise<ISecretWatcher>} Promise resolving to the handle stopping the polling
+     */
+    public async watch(pattern: string, callback: SecretWatchCallback, options?: ISecretManagerOptions): Promise<ISecretWatcher> {
+        return await this.poll(pattern, callback, options || this.options);
+    }
+
+    /**
+     * Selects the stored version matching the version or stage selectors, the current one by default
+     * @protected
+     * @param {IFileSecret | undefined} secret - The stored secret
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {IFileVersion | undefined} The matching version, undefined when there is none
+     */
+    protected getEntry(secret: IFileSecret | undefined, options: ISecretManagerOptions): IFileVersion | undefined {
+        const versions = secret?.versions || [];
+        return options.version !== undefined && options.version !== null
+            ? versions.find(item => item.version === Number(options.version))
+            : versions.find(item => item.stage === (options.stage || 'current'));
+    }
+
+    /**
+     * Adds a value as the new current version of a secret, the former current version becomes previous
+     * The owner, description, tags and rotation period are kept on the secret, the expiry on the new version
+     * @protected
+     * @param {IFileStore} store - The decrypted store
+     * @param {string} key - The secret key
+     * @param {any} value - The secret value
+     * @param {string} [flow] - The flow identifier
+     * @param {ISecretLease} [lease] - The lifecycle metadata
+     */
+    protected addVersion(store: IFileStore, key: string, value: any, flow?: string, lease?: ISecretLease): void {
+        const now = new Date();
+        const secret = store.secrets[key] = store.secrets[key] || { createdAt: now, updatedAt: now, versions: [] };
+        const version = secret.versions.reduce((max, item) => Math.max(max, item.version), 0) + 1;
+        for (const item of secret.versions) {
+            item.stage = item.stage === 'current' ? 'previous' : undefined;
+        }
+        secret.versions.unshift({ version, value, stage: 'current', flow, expiresAt: lease?.expiresAt as Date | undefined, createdAt: now });
+        secret.updatedAt = now;
+        secret.owner = lease?.owner ?? secret.owner;
+        secret.description = lease?.description ?? secret.description;
+        secret.tags = lease?.tags ?? secret.tags;
+        secret.rotateEvery = lease?.rotateEvery ?? secret.rotateEvery;
+    }
+
+    /**
+     * Maps a stored secret onto its public metadata, dropping the values
+     * @protected
+     * @param {string} key - The secret key
+     * @param {IFileSecret} secret - The stored secret
+     * @returns {ISecretMetadata} The secret metadata
+     */
+    protected getMetadata(key: string, secret: IFileSecret): ISecretMetadata {
+        const current = secret.versions.find(item => item.stage === 'current');
+        return {
+            key,
+            type: 'file',
+            encrypted: true,
+            version: current?.version,
+            stage: current?.stage,
+            flow: current?.flow,
+            description: secret.description,
+            tags: secret.tags,
+            owner: secret.owner,
+            rotateEvery: secret.rotateEvery,
+            expiresAt: current?.expiresAt,
+            createdAt: secret.createdAt,
+            updatedAt: secret.updatedAt
+        };
+    }
+
+    /**
+     * Resolves the path of the secrets file
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {string} The absolute file path
+     */
+    protected getPath(options: ISecretManagerOptions): string {
+        return path.resolve(options.file?.path || '.kozen/secrets.enc');
+    }
+
+    /**
+     * Reads and decrypts the secrets file, a missing file is an empty store
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {Promise<IFileStore>} Promise resolving to the decrypted store
+     * @throws {Error} When the file is corrupted or the key does not match
+     */
+    protected async read(options: ISecretManagerOptions): Promise<IFileStore> {
+        return (await this.load(options)).store;
+    }
+
+    /**
+     * Reads and decrypts the secrets file along with its key material, a missing file is an empty store without any
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {Promise<{ store: IFileStore, material?: IFileKeyMaterial }>} Promise resolving to the decrypted store and its key material
+     * @throws {Error} When the file is corrupted or the key does not match
+     */
+    protected async load(options: ISecretManagerOptions): Promise<{ store: IFileStore, material?: IFileKeyMaterial }> {
+        const file = this.getPath(options);
+        let content: string;
+        try {
+            content = await fs.promises.readFile(file, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return { store: { secrets: {} } };
+            }
+            throw error;
+        }
+
+        const envelope = JSON.parse(content) as IFileEnvelope;
+        const salt = envelope.salt ? Buffer.from(envelope.salt, 'base64') : undefined;
+        const key = await this.getKey(options, salt);
+        try {
+            const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+            decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+            const data = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+            return { store: BSON.EJSON.parse(data.toString('utf-8'), { relaxed: true }) as IFileStore, material: { salt, key } };
+        } catch (error) {
+            throw new Error(`Unable to decrypt '${file}': the key or passphrase does not match, or the file was modified.`);
+        }
+    }
+
+    /**
+     * Applies a change to the store under the file lock and writes it back atomically
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @param {Function} change - Mutation applied to the decrypted store
+     * @returns {Promise<void>} Promise resolving when the file is written and the lock released
+     */
+    protected async update(options: ISecretManagerOptions, change: (store: IFileStore) => void): Promise<void> {
+        const file = this.getPath(options);
+        await fs.promises.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+        const release = await this.lock(file, options.file?.lockTimeout ?? 10000);
+        try {
+            const { store, material } = await this.load(options);
+            change(store);
+            await this.write(options, store, material);
+        } finally {
+            await release();
+        }
+    }
+
+    /**
+     * Encrypts the store and replaces the secrets file through a rename, so readers never see a partial file
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @param {IFileStore} store - The store to persist
+     * @param {IFileKeyMaterial} [material] - Key material of the file read under the same lock, derived when missing
+     * @returns {Promise<void>} Promise resolving when the file is replaced
+     */
+    protected async write(options: ISecretManagerOptions, store: IFileStore, material?: IFileKeyMaterial): Promise<void> {
+        const file = this.getPath(options);
+        const salt = material ? material.salt : await this.getSalt(options);
+        const key = material?.key || await this.getKey(options, salt);
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+        const data = Buffer.concat([cipher.update(BSON.EJSON.stringify(store, { relaxed: false }), 'utf-8'), cipher.final()]);
+        const envelope: IFileEnvelope = {
+            format: 1,
+            salt: salt?.toString('base64'),
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64')
+        };
+
+        const temp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+        const handle = await fs.promises.open(temp, 'wx', 0o600);
+        try {
+            await handle.writeFile(JSON.stringify(envelope), 'utf-8');
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+        await fs.promises.rename(temp, file);
+    }
+
+    /**
+     * Acquires an exclusive lock file next to the secrets file, the lock of a process that is no longer running is stale
+     * @protected
+     * @param {string} file - The secrets file path
+     * @param {number} timeout - Maximum wait time in milliseconds
+     * @returns {Promise<() => Promise<void>>} Promise resolving to the lock release function
+     * @throws {Error} When the lock cannot be acquired in time
+     */
+    protected async lock(file: string, timeout: number): Promise<() => Promise<void>> {
+        const lockFile = `${file}.lock`;
+        const start = Date.now();
+        while (true) {
+            try {
+                const handle = await fs.promises.open(lockFile, 'wx', 0o600);
+                await handle.writeFile(String(process.pid));
+                await handle.close();
+                return () => fs.promises.rm(lockFile, { force: true });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+            if (await this.isStale(lockFile, timeout)) {
+                await fs.promises.rm(lockFile, { force: true });
+                continue;
+            }
+            if (Date.now() - start > timeout) {
+                throw new Error(`Timed out waiting for the lock '${lockFile}' held by another process.`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+    }
+
+    /**
+     * Checks whether the process recorded in a lock file is gone, a lock without a process id is stale after the timeout
+     * @protected
+     * @param {string} lockFile - The lock file path
+     * @param {number} timeout - Time in milliseconds a holder may take to record its process id
+     * @returns {Promise<boolean>} Promise resolving to true if the lock may be removed
+     */
+    protected async isStale(lockFile: string, timeout: number): Promise<boolean> {
+        const content = await fs.promises.readFile(lockFile, 'utf-8').catch(() => null);
+        const pid = Number(content);
+        if (content === null || !Number.isInteger(pid) || pid <= 0) {
+            const stat = await fs.promises.stat(lockFile).catch(() => null);
+            return !!stat && Date.now() - stat.mtimeMs > timeout;
+        }
+        try {
+            // signal 0 only checks that the process exists, EPERM means it runs under another user
+            process.kill(pid, 0);
+            return false;
+        } catch (error) {
+            return (error as NodeJS.ErrnoException).code === 'ESRCH';
+        }
+    }
+
+    /**
+     * Retrieves the scrypt salt, reusing the one of the existing file
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {Promise<Buffer | undefined>} Promise resolving to the salt, undefined when a raw key is configured
+     */
+    protected async getSalt(options: ISecretManagerOptions): Promise<Buffer | undefined> {
+        if (process.env[options.file?.key || 'KOZEN_SM_FILE_KEY']) {
+            return undefined;
+        }
+        const content = await fs.promises.readFile(this.getPath(options), 'utf-8').catch(() => null);
+        const salt = content && (JSON.parse(content) as IFileEnvelope).salt;
+        return salt ? Buffer.from(salt, 'base64') : crypto.randomBytes(16);
+    }
+
+    /**
+     * Retrieves the AES-256-GCM key from the raw key variable, or derives it from the passphrase with scrypt
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @param {Buffer} [salt] - The scrypt salt of the file
+     * @returns {Promise<Buffer>} Promise resolving to the 32-byte key
+     * @throws {Error} When neither a key nor a passphrase is configured, or the key is malformed
+     */
+    protected async getKey(options: ISecretManagerOptions, salt?: Buffer): Promise<Buffer> {
+        const keyName = options.file?.key || 'KOZEN_SM_FILE_KEY';
+        const passphraseName = options.file?.passphrase || 'KOZEN_SM_FILE_PASSPHRASE';
+
+        const raw = process.env[keyName];
+        if (raw) {
+            const key = Buffer.from(raw.trim(), 'base64');
+            if (key.length !== 32) {
+                throw new Error(`The file backend key in '${keyName}' must be a base64 encoded 32-byte key, got ${key.length} bytes.`);
+            }
+            return key;
+        }
+
+        const passphrase = process.env[passphraseName];
+        if (!passphrase) {
+            throw new Error(`The file backend key is not configured: set '${keyName}' to a base64 encoded 32-byte key or '${passphraseName}' to a passphrase.`);
+        }
+        if (!salt) {
+            throw new Error(`The secrets file was encrypted with a raw key, set '${keyName}' to read it.`);
+        }
+        return await new Promise<Buffer>((resolve, reject) => {
+            crypto.scrypt(passphrase, salt, 32, { N: 32768, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }, (error, key) => error ? reject(error) : resolve(key));
+        });
+    }
+}
+
+export default SecretManagerFile;
@@ -6,11 +6,111 @@
  * @version 1.0.6
  */
 
-import { Binary, ClientEncryption, ClientEncryptionEncryptOptions, ClientEncryptionOptions, KMSProviders, MongoClient } from "mongodb";
-import { ISecretManagerOptions } from "../models/Secret";
+import {
+    AWSEncryptionKeyOptions,
+    AzureEncryptionKeyOptions,
+    Binary,
+    ChangeStream,
+    ChangeStreamDocument,
+    ClientEncryption,
+    ClientEncryptionDataKeyProvider,
+    ClientEncryptionEncryptOptions,
+    ClientEncryptionOptions,
+    ClientSession,
+    Collection,
+    DataKey,
+    Document,
+    Filter,
+    GCPEncryptionKeyOptions,
+    KMIPEncryptionKeyOptions,
+    KMSProviders,
+    MongoBulkWriteError,
+    MongoClient,
+    MongoServerError,
+    ResumeToken,
+    WriteError
+} from "mongodb";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ISecretBatchResult, ISecretEntry, ISecretFilter, ISecretLease, ISecretManagerOptions, ISecretMetadata, ISecretRotateResult, ISecretSaveResult, SecretExpiredError, SecretValue } from "../models/Secret";
+import { ISecretWatcher, ISecretWatchEvent, SecretWatchCallback } from "../models/SecretWatch";
 import SecretManager from "./SecretManager";
 import { VCategory } from "@kozen/engine";
 
+/**
+ * Watched secrets of a change stream
+ * @interface IWatchState
+ */
+interface IWatchState {
+    /**
+     * Keys of the watched version documents by document id, deletions only carry the id
+     */
+    keys: Map<string, string>;
+
+    /**
+     * Document id of the current version by key, as last delivered
+     */
+    versions: Map<string, string>;
+}
+
+/**
+ * Bookkeeping document of the metadata collection
+ * @interface IMetaDocument
+ */
+interface IMetaDocument {
+    /**
+     * Name of the document, e.g. 'kozen.master-key.local'
+     */
+    _id: string;
+
+    /**
+     * KMS provider of the master key
+     */
+    provider?: string;
+
+    /**
+     * SHA-256 fingerprint of the local master key
+     */
+    fingerprint?: string;
+
+    /**
+     * Phase reached by an interrupted master key rotation
+     */
+    phase?: string;
+
+    /**
+     * Alternative name of the data key being rotated
+     */
+    keyAltName?: string;
+
+    /**
+     * Identifier of the data key being replaced
+     */
+    oldKeyId?: Binary;
+
+    /**
+     * Identifier of the replacing data key
+     */
+    newKeyId?: Binary;
+
+    /**
+     * Identifiers of the data keys deleted once the rotation completes
+     */
+    retired?: Binary[];
+
+    /**
+     * Resume token of the last change delivered by a watch
+     */
+    token?: ResumeToken;
+
+    createdAt?: Date;
+    startedAt?: Date;
+    updatedAt?: Date;
+    rotatedAt?: Date;
+}
+
 /**
  * @class SecretManagerMDB
  * @extends SecretManager
@@ -25,130 +125,1247 @@ export class SecretManagerMDB extends SecretManager {
     protected client: MongoClient | null = null;
 
     /**
-     * Client-Side Field Level Encryption instance used for encryption and decryption
-     * @private
-     * @type {ClientEncryption | null}
+     * Client-Side Field Level Encryption instance used for encryption and decryption
+     * @private
+     * @type {ClientEncryption | null}
+     */
+    protected encryption: ClientEncryption | null = null;
+
+    /**
+     * KMS providers configuration for encryption operations
+     * @private
+     * @type {KMSProviders | null}
+     */
+    protected kmsProviders: KMSProviders | null = null;
+
+    /**
+     * Whether the version index of the secrets collection was already ensured
+     * @protected
+     * @type {boolean}
+     */
+    protected indexed: boolean = false;
+
+    /**
+     * Resolves a secret value from MongoDB with optional decryption.
+     * Returns the current version unless a version or stage selector is provided.
+     * @public
+     * @param {string} key - The secret key to search for in the MongoDB collection, optionally followed by a '#jsonPath' selector.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including version or stage selectors.
+     * @returns {Promise<SecretValue>} Promise resolving the decrypted and decoded secret value.
+     * @throws {Error} When secret resolution fails.
+     */
+    public async resolve(
+        key: string,
+        options?: ISecretManagerOptions
+    ): Promise<SecretValue> {
+        try {
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const { name, path } = this.codec.parseKey(key);
+
+            // Query the secret document by key and version selector
+            const secretDocument = await collection.findOne(this.getVersionFilter(await this.getKeyFilter(name, options), options), { sort: { version: -1 } });
+            if (!secretDocument) {
+                this.logger?.warn({
+                    flow: options?.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:MDB:resolve',
+                    message: `Secret '${key}' not found in MongoDB collection: '${collection.collectionName}'.`
+                });
+                return null;
+            }
+            this.checkExpiry(key, secretDocument.expiresAt, options);
+
+            // Decrypt the encrypted value if applicable
+            let resolvedValue = secretDocument.value;
+            if (secretDocument.encrypted && this.encryption) {
+                resolvedValue = await this.encryption.decrypt(resolvedValue);
+            }
+
+            return this.codec.decode(resolvedValue, { path, encoding: options?.encoding });
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:resolve',
+                message: `Failed to retrieve secret '${key}' from MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Saves a secret value to MongoDB with optional encryption.
+     * Every save writes a new version document labelled as current, the former current version becomes previous.
+     * The lifecycle metadata of the options is stored in the document, see getLeaseFields.
+     * The namespace and environment of the scope are stored in their own fields, see getScopeFilter.
+     * @public
+     * @param {string} key - The secret key to store in the MongoDB collection.
+     * @param {string} value - The secret value to store in the MongoDB collection.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<boolean>} Promise resolving to true if the secret is successfully saved.
+     * @throws {Error} When secret storage fails.
+     */
+    public async save(key: string, value: string | Binary | Record<string, any>, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            key = this.codec.getName(key);
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const { flow } = options;
+            await this.ensureIndexes(collection, options);
+
+            const keyFilter = await this.getKeyFilter(key, options);
+            const scope = this.getScopeFilter(options);
+            const lease = this.getLease(options?.lease);
+
+            // Encrypt the value if necessary
+            value = await this.encryption!.encrypt(value, {
+                algorithm: this.getAlgorithm(options),
+                keyId: await this.createDataKey(options, this.getKeyAlt(options, this.getScopedKey(key, options)))
+            });
+            const stored = await this.getStoredKey(key, options);
+
+            // Read the highest version, insert the next one and shift the stage labels of the former ones in one
+            // transaction; a concurrent save taking the same version fails on the unique index and is retried
+            let acknowledged = false;
+            for (let attempt = 1; ; attempt++) {
+                try {
+                    await this.transact(async (session) => {
+                        // Documents written before versioning become version 0
+                        await collection.updateOne({ key: keyFilter, ...scope, version: { $exists: false } }, { $set: { version: 0, stage: 'current' } }, { session });
+                        const latest = await collection.findOne({ key: keyFilter, ...scope }, { sort: { version: -1 }, projection: { value: 0 }, session });
+                        const version = (latest?.version ?? 0) + 1;
+                        const document = {
+                            key: stored,
+                            ...scope,
+                            value,
+                            encrypted: true,
+                            version,
+                            stage: 'current',
+                            flow,
+                            createdAt: new Date(),
+                            ...this.getLeaseFields(lease, latest)
+                        };
+                        acknowledged = (await collection.insertOne(document, { session })).acknowledged;
+                        await collection.updateMany({ key: keyFilter, ...scope, stage: 'previous' }, { $unset: { stage: '' } }, { session });
+                        await collection.updateMany({ key: keyFilter, ...scope, stage: 'current', version: { $ne: version } }, { $set: { stage: 'previous' } }, { session });
+                    });
+                    break;
+                } catch (error) {
+                    if ((error as MongoServerError).code !== 11000 || attempt >= SAVE_ATTEMPTS) {
+                        throw error;
+                    }
+                }
+            }
+
+            return acknowledged;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:save',
+                message: `Failed to store secret '${key}' in MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Resolves several secrets with a single query over every stored key form.
+     * @public
+     * @param {string[]} keys - The secret keys, optionally followed by a '#jsonPath' selector.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including version or stage selectors.
+     * @returns {Promise<ISecretBatchResult[]>} Promise resolving to one result per key, missing secrets have a null value.
+     * @throws {Error} When the query fails as a whole.
+     */
+    public async resolveMany(keys: string[], options?: ISecretManagerOptions): Promise<ISecretBatchResult[]> {
+        try {
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const parsed = await Promise.all(keys.map(async (key) => {
+                const { name, path } = this.codec.parseKey(key);
+                return { key, path, forms: await this.getKeyForms(name, options) };
+            }));
+
+            // Query every key at once, then match the documents back to their keys
+            const documents = await collection
+                .find(this.getVersionFilter({ $in: parsed.flatMap(item => item.forms) }, options))
+                .toArray();
+
+            return await Promise.all(parsed.map(async ({ key, path, forms }) => {
+                try {
+                    const document = documents
+                        .filter(doc => forms.some(form => this.isStoredKey(doc.key, form)))
+                        .sort((a, b) => (b.version ?? -1) - (a.version ?? -1))[0];
+                    if (!document) {
+                        return { key, value: null };
+                    }
+                    this.checkExpiry(key, document.expiresAt, options);
+                    let value = document.value;
+                    if (document.encrypted && this.encryption) {
+                        value = await this.encryption.decrypt(value);
+                    }
+                    return { key, value: this.codec.decode(value, { path, encoding: options?.encoding }) };
+                } catch (error) {
+                    return { key, value: null, error: (error as Error).message, expired: error instanceof SecretExpiredError || undefined };
+                }
+            }));
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:resolveMany',
+                message: `Failed to retrieve secrets from MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Saves several secrets as new versions with one bulk insert, followed by one bulk update of the stage labels.
+     * Entries that fail to encrypt or insert are reported without affecting the other ones.
+     * @public
+     * @param {ISecretEntry[]} entries - The secret entries to store.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<ISecretSaveResult[]>} Promise resolving to one result per entry.
+     * @throws {Error} When the collection cannot be reached at all.
+     */
+    public async saveMany(entries: ISecretEntry[], options?: ISecretManagerOptions): Promise<ISecretSaveResult[]> {
+        try {
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const { flow } = options;
+            await this.ensureIndexes(collection, options);
+            const scope = this.getScopeFilter(options);
+            const results: ISecretSaveResult[] = entries.map(entry => ({ key: entry.key, saved: false }));
+
+            // Resolve the stored forms of every key
+            const prepared: Array<{ index: number, name: string, stored: string | Binary, forms: Array<string | Binary> }> = [];
+            for (const [index, entry] of entries.entries()) {
+                try {
+                    const name = this.codec.getName(entry.key);
+                    const forms = await this.getKeyForms(name, options);
+                    prepared.push({ index, name, stored: forms[0], forms });
+                } catch (error) {
+                    results[index].error = (error as Error).message;
+                }
+            }
+            const forms = prepared.flatMap(item => item.forms);
+
+            // Documents written before versioning become version 0, then the latest version of every key is read at once
+            await collection.updateMany({ key: { $in: forms }, ...scope, version: { $exists: false } }, { $set: { version: 0, stage: 'current' } });
+            const latest = await collection
+                .aggregate([
+                    { $match: { key: { $in: forms }, ...scope } },
+                    { $sort: { version: -1 } },
+                    {
+                        $group: {
+                            _id: '$key',
+                            version: { $max: '$version' },
+                            owner: { $first: '$owner' },
+                            description: { $first: '$description' },
+                            tags: { $first: '$tags' },
+                            rotateEvery: { $first: '$rotateEvery' }
+                        }
+                    }
+                ])
+                .toArray();
+
+            // Encrypt every value, repeated keys get consecutive versions and keep the metadata of the former entry
+            const formers = new Map<string, Document>();
+            const ready: Array<{ index: number, name: string, forms: Array<string | Binary>, version: number, document: Document }> = [];
+            for (const item of prepared) {
+                try {
+                    const former = formers.get(item.name) ?? latest
+                        .filter(doc => item.forms.some(form => this.isStoredKey(doc._id, form)))
+                        .sort((a, b) => (b.version ?? 0) - (a.version ?? 0))[0];
+                    const version = (former?.version ?? 0) + 1;
+                    const lease = this.getLeaseFields(this.getLease(entries[item.index].lease), former);
+                    formers.set(item.name, { version, ...lease });
+                    const value = await this.encryption!.encrypt(entries[item.index].value, {
+                        algorithm: this.getAlgorithm(options),
+                        keyId: await this.createDataKey(options, this.getKeyAlt(options, this.getScopedKey(item.name, options)))
+                    });
+                    ready.push({
+                        ...item,
+                        version,
+                        document: { key: item.stored, ...scope, value, encrypted: true, version, stage: 'current', flow, createdAt: new Date(), ...lease }
+                    });
+                } catch (error) {
+                    results[item.index].error = (error as Error).message;
+                }
+            }
+
+            // Insert the new versions, a failed insert does not stop the other ones
+            const failed = new Map<number, string>();
+            if (ready.length) {
+                try {
+                    await collection.bulkWrite(ready.map(item => ({ insertOne: { document: item.document } })), { ordered: false });
+                } catch (error) {
+                    if (!(error instanceof MongoBulkWriteError)) {
+                        throw error;
+                    }
+                    for (const writeError of ([] as WriteError[]).concat(error.writeErrors)) {
+                        failed.set(writeError.index, writeError.errmsg ?? `Write error ${writeError.code}`);
+                    }
+                }
+            }
+
+            // Shift the stage labels of the keys whose new version was inserted; until then readers take the highest
+            // current version, the new one, a failed insert must not abort the other ones in a transaction
+            const current = new Map<string, { filter: string | Filter<Document>, version: number }>();
+            ready.forEach((item, position) => {
+                if (failed.has(position)) {
+                    results[item.index].error = failed.get(position);
+                    return;
+                }
+                results[item.index].saved = true;
+                current.set(item.name, { filter: item.forms.length > 1 ? { $in: item.forms } : item.name, version: item.version });
+            });
+            const shifts = [...current.values()].flatMap(({ filter, version }) => [
+                { updateMany: { filter: { key: filter, ...scope, stage: 'previous' }, update: { $unset: { stage: '' } } } },
+                { updateMany: { filter: { key: filter, ...scope, stage: 'current', version: { $ne: version } }, update: { $set: { stage: 'previous' } } } }
+            ]);
+            shifts.length && await collection.bulkWrite(shifts, { ordered: true });
+
+            return results;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:saveMany',
+                message: `Failed to store secrets in MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes a secret from MongoDB, including all of its versions.
+     * With the per-secret key strategy, the shred flag also destroys the data key of the secret.
+     * @public
+     * @param {string} key - The secret key to delete from the MongoDB collection.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including the shred flag.
+     * @returns {Promise<boolean>} Promise resolving to true if a secret document was deleted.
+     * @throws {Error} When secret deletion fails.
+     */
+    public async delete(key: string, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const result = await collection.deleteMany({ key: await this.getKeyFilter(key, options), ...this.getScopeFilter(options) });
+
+            if (options?.shred) {
+                if (options.mdb?.keyStrategy !== 'secret') {
+                    throw new Error("Shredding requires the 'secret' key strategy, the data key is shared with other secrets.");
+                }
+                const dek = await this.encryption!.getKeyByAltName(this.getKeyAlt(options, this.getScopedKey(key, options)));
+                dek && await this.encryption!.deleteKey(dek._id);
+                return result.deletedCount > 0 || !!dek;
+            }
+
+            return result.deletedCount > 0;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:delete',
+                message: `Failed to delete secret '${key}' from MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists secret metadata stored in MongoDB, excluding values.
+     * @public
+     * @param {ISecretFilter} [filter] - Optional prefix and limit filter.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the secret metadata list.
+     * @throws {Error} When listing fails.
+     */
+    public async list(filter?: ISecretFilter, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        try {
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const scope = this.getScopeFilter(options);
+
+            // Encrypted keys cannot be matched by prefix on the server, they are filtered once decrypted
+            if (options.mdb?.encryptKey) {
+                const documents = await collection.find({ key: { $exists: true }, ...scope, ...this.getCurrentFilter() }, { projection: { value: 0 } }).toArray();
+                const result: ISecretMetadata[] = [];
+                for (const doc of documents) {
+                    const key = doc.key instanceof Binary ? await this.encryption!.decrypt(doc.key) : doc.key;
+                    (!filter?.prefix || String(key).startsWith(filter.prefix)) && result.push({ ...this.getMetadata(doc), key });
+                }
+                result.sort((a, b) => a.key.localeCompare(b.key));
+                return filter?.limit ? result.slice(0, filter.limit) : result;
+            }
+
+            const query: Filter<Document> = {
+                key: filter?.prefix ? { $regex: `^${filter.prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` } : { $exists: true },
+                ...scope,
+                ...this.getCurrentFilter()
+            };
+            const cursor = collection.find(query, { projection: { value: 0 } }).sort({ key: 1 });
+            filter?.limit && cursor.limit(filter.limit);
+            const documents = await cursor.toArray();
+            return documents.map(doc => this.getMetadata(doc));
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:list',
+                message: `Failed to list secrets from MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Describes a secret stored in MongoDB, excluding its value.
+     * @public
+     * @param {string} key - The secret key to describe.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<ISecretMetadata | null>} Promise resolving to the secret metadata or null if not found.
+     * @throws {Error} When the describe operation fails.
+     */
+    public async describe(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata | null> {
+        try {
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const document = await collection.findOne(
+                { key: await this.getKeyFilter(key, options), ...this.getScopeFilter(options), ...this.getCurrentFilter() },
+                { projection: { value: 0 }, sort: { version: -1 } }
+            );
+            return document ? { ...this.getMetadata(document), key } : null;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:describe',
+                message: `Failed to describe secret '${key}' from MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the stored versions of a secret, newest first, excluding values.
+     * @public
+     * @param {string} key - The secret key to inspect.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the version metadata list.
+     * @throws {Error} When the history cannot be retrieved.
+     */
+    public async history(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        try {
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const documents = await collection.find({ key: await this.getKeyFilter(key, options), ...this.getScopeFilter(options) }, { projection: { value: 0 } }).sort({ version: -1 }).toArray();
+            return documents.map(doc => ({ ...this.getMetadata(doc), key }));
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:history',
+                message: `Failed to retrieve the history of secret '${key}' from MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Promotes a stored version back to the current stage, the former current version becomes previous.
+     * @public
+     * @param {string} key - The secret key to roll back.
+     * @param {string | number} version - The version number to promote.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<boolean>} Promise resolving to true if the version was promoted, false if it does not exist.
+     * @throws {Error} When the rollback fails.
+     */
+    public async rollback(key: string, version: string | number, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = this.mergeOptions(options);
+            const collection = await this.getCollection(options);
+            const keyFilter = await this.getKeyFilter(key, options);
+            const scope = this.getScopeFilter(options);
+            const target = await collection.findOne({ key: keyFilter, ...scope, version: Number(version) }, { projection: { value: 0 } });
+            if (!target) {
+                return false;
+            }
+            if (target.stage !== 'current') {
+                // the target is promoted before the former current version is demoted, so a key never lacks one
+                await this.transact(async (session) => {
+                    await collection.updateMany({ key: keyFilter, ...scope, stage: 'previous' }, { $unset: { stage: '' } }, { session });
+                    await collection.updateOne({ _id: target._id }, { $set: { stage: 'current' } }, { session });
+                    await collection.updateMany({ key: keyFilter, ...scope, stage: 'current', _id: { $ne: target._id } }, { $set: { stage: 'previous' } }, { session });
+                });
+            }
+            return true;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:rollback',
+                message: `Failed to roll back secret '${key}' to version '${version}' in MongoDB Secrets Manager. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Notifies the changes of a secret or of a prefix through a change stream over the secrets collection.
+     * Every event re-reads the current version of its key, so saves, rollbacks and deletions are delivered once with
+     * the decrypted value while re-encryptions and stage shifts of former versions are not. The resume token is stored
+     * in the metadata collection after each event and a reconnection resumes from it; when the oplog no longer
+     * holds it, the current versions are compared with the delivered ones instead. Deployments without change
+     * streams, such as standalone servers, are polled.
+     * @public
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix.
+     * @param {SecretWatchCallback} callback - Receives the changes one at a time.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including the watch settings.
+     * @returns {Promise<ISecretWatcher>} Promise resolving to the handle closing the change stream.
+     * @throws {Error} When the collection cannot be reached.
+     */
+    public async watch(pattern: string, callback: SecretWatchCallback, options?: ISecretManagerOptions): Promise<ISecretWatcher> {
+        options = this.mergeOptions(options);
+        const collection = await this.getCollection(options);
+        const retry = Math.max(100, Number(options.watch?.retry) || 5000);
+        const meta = this.getMetaCollection(options);
+        const checkpointId = `kozen.watch.${options.watch?.id || `${os.hostname()}:${this.getScopedKey(pattern, options)}`}`;
+        const state = await this.getWatchState(collection, pattern, options);
+        const log = (message: string) => this.logger?.warn({
+            flow: options?.flow,
+            category: VCategory.core.secret,
+            src: 'Secret:Service:MDB:watch',
+            message
+        });
+
+        const pipeline = [{ $match: { operationType: { $in: ['insert', 'update', 'replace', 'delete'] } } }];
+        let token = (await meta.findOne({ _id: checkpointId }))?.token;
+        let stream: ChangeStream<Document> | null = null;
+        let fallback: ISecretWatcher | null = null;
+        let closed = false;
+        let wake: (() => void) | undefined;
+
+        const run = async () => {
+            while (!closed) {
+                try {
+                    stream = collection.watch(pipeline, { fullDocument: 'updateLookup', ...(token ? { resumeAfter: token } : {}) });
+                    for await (const change of stream) {
+                        const key = await this.getChangeKey(change, pattern, state, options);
+                        try {
+                            const event = key && await this.getChange(collection, key, state, options);
+                            event && await callback(event);
+                        } catch (error) {
+                            this.logger?.error({
+                                flow: options?.flow,
+                                category: VCategory.core.secret,
+                                src: 'Secret:Service:MDB:watch',
+                                message: `Failed to notify the change of secret '${key}'. ${(error as Error).message}`
+                            });
+                        }
+                        token = change._id;
+                        await meta.updateOne({ _id: checkpointId }, { $set: { token, updatedAt: new Date() } }, { upsert: true });
+                    }
+                } catch (error) {
+                    if (closed) {
+                        break;
+                    }
+                    const code = (error as MongoServerError).code;
+                    if (code === 40573) {
+                        log(`Change streams require a replica set, polling the secrets matching '${pattern}' instead.`);
+                        fallback = await this.poll(pattern, callback, options);
+                        break;
+                    }
+                    if (code === 280 || code === 286) {
+                        log(`The resume token of the watch '${checkpointId}' is no longer valid, comparing the current versions. ${(error as Error).message}`);
+                        token = undefined;
+                        await this.reconcile(collection, pattern, state, callback, options).catch(cause => log(`Failed to compare the current versions. ${(cause as Error).message}`));
+                    } else {
+                        log(`The change stream of the secrets matching '${pattern}' failed, reconnecting in ${retry} ms. ${(error as Error).message}`);
+                    }
+                } finally {
+                    await stream?.close().catch(() => undefined);
+                }
+                if (!closed) {
+                    await new Promise<void>(resolve => {
+                        const timer = setTimeout(resolve, retry);
+                        wake = () => {
+                            clearTimeout(timer);
+                            resolve();
+                        };
+                    });
+                }
+            }
+        };
+        const running = run();
+
+        return {
+            close: async () => {
+                closed = true;
+                wake?.();
+                await stream?.close().catch(() => undefined);
+                await running;
+                await (fallback as ISecretWatcher | null)?.close();
+            }
+        };
+    }
+
+    /**
+     * Reads the watched version documents: their keys by document id and the current version of each key.
+     * @protected
+     * @param {Collection<Document>} collection - The secrets collection.
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix.
+     * @param {ISecretManagerOptions} [options] - Options holding the scope.
+     * @returns {Promise<IWatchState>} Promise resolving to the watched documents.
+     */
+    protected async getWatchState(collection: Collection<Document>, pattern: string, options?: ISecretManagerOptions): Promise<IWatchState> {
+        const prefix = pattern.endsWith('*') ? pattern.slice(0, -1) : null;
+        const query: Filter<Document> = prefix === null
+            ? { key: await this.getKeyFilter(pattern, options), ...this.getScopeFilter(options) }
+            : { key: prefix && !(options || this.options).mdb?.encryptKey ? { $regex: `^${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` } : { $exists: true }, ...this.getScopeFilter(options) };
+        const documents = await collection.find(query, { projection: { key: 1, version: 1, stage: 1 } }).toArray();
+        const state: IWatchState = { keys: new Map(), versions: new Map() };
+        for (const document of documents) {
+            const key = String(document.key instanceof Binary ? await this.encryption!.decrypt(document.key) : document.key);
+            if (!this.isWatched(pattern, key)) {
+                continue;
+            }
+            state.keys.set(String(document._id), key);
+            (document.stage === 'current' || document.version === undefined) && state.versions.set(key, String(document._id));
+        }
+        return state;
+    }
+
+    /**
+     * Retrieves the watched key a change stream event concerns.
+     * @protected
+     * @param {ChangeStreamDocument<Document>} change - The change stream event.
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix.
+     * @param {IWatchState} state - The watched documents, new ones are added.
+     * @param {ISecretManagerOptions} [options] - Options holding the scope.
+     * @returns {Promise<string | null>} Promise resolving to the key, null when the document is not watched.
+     */
+    protected async getChangeKey(change: ChangeStreamDocument<Document>, pattern: string, state: IWatchState, options?: ISecretManagerOptions): Promise<string | null> {
+        if (!('documentKey' in change)) {
+            return null;
+        }
+        const id = String(change.documentKey._id);
+        const known = state.keys.get(id);
+        const document = 'fullDocument' in change ? change.fullDocument : undefined;
+        if (known || !document?.key) {
+            return known || null;
+        }
+        const scope = this.getScopeFilter(options);
+        if ((document.namespace ?? null) !== scope.namespace || (document.environment ?? null) !== scope.environment) {
+            return null;
+        }
+        const key = String(document.key instanceof Binary ? await this.encryption!.decrypt(document.key) : document.key);
+        if (!this.isWatched(pattern, key)) {
+            return null;
+        }
+        state.keys.set(id, key);
+        return key;
+    }
+
+    /**
+     * Compares the current version of a key with the last delivered one.
+     * @protected
+     * @param {Collection<Document>} collection - The secrets collection.
+     * @param {string} key - The secret key.
+     * @param {IWatchState} state - The watched documents, the delivered version is updated.
+     * @param {ISecretManagerOptions} [options] - Options holding the scope and the value encoding.
+     * @returns {Promise<ISecretWatchEvent | null>} Promise resolving to the change to deliver, null when there is none.
+     */
+    protected async getChange(collection: Collection<Document>, key: string, state: IWatchState, options?: ISecretManagerOptions): Promise<ISecretWatchEvent | null> {
+        const document = await collection.findOne(this.getVersionFilter(await this.getKeyFilter(key, options), options), { sort: { version: -1 } });
+        if (!document) {
+            return state.versions.delete(key) ? { key, type: 'delete', provider: 'mdb', at: new Date() } : null;
+        }
+        if (state.versions.get(key) === String(document._id)) {
+            return null;
+        }
+        let value = document.value;
+        if (document.encrypted && this.encryption) {
+            value = await this.encryption.decrypt(value);
+        }
+        const event: ISecretWatchEvent = { key, type: 'update', value: this.codec.decode(value, { encoding: options?.encoding }), version: document.version, provider: 'mdb', at: new Date() };
+        state.versions.set(key, String(document._id));
+        return event;
+    }
+
+    /**
+     * Delivers the differences between the current versions and the delivered ones, after changes were missed.
+     * @protected
+     * @param {Collection<Document>} collection - The secrets collection.
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix.
+     * @param {IWatchState} state - The watched documents, replaced by the current ones.
+     * @param {SecretWatchCallback} callback - Receives the changes one at a time.
+     * @param {ISecretManagerOptions} [options] - Options holding the scope and the value encoding.
+     * @returns {Promise<void>} Promise resolving once every difference is delivered.
+     */
+    protected async reconcile(collection: Collection<Document>, pattern: string, state: IWatchState, callback: SecretWatchCallback, options?: ISecretManagerOptions): Promise<void> {
+        const current = await this.getWatchState(collection, pattern, options);
+        state.keys = current.keys;
+        for (const key of new Set([...state.versions.keys(), ...current.versions.keys()])) {
+            const event = await this.getChange(collection, key, state, options);
+            event && await callback(event);
+        }
+    }
+
+    /**
+     * Rotates the customer master key or the data encryption key of the secrets collection.
+     * Master rotation rewraps every data key with the configured KMS provider; for the local provider the former key
+     * is read from the variable named by `mdb.previousKey`. Data rotation replaces every data key of the collection:
+     * it creates a new key, re-encrypts the secrets, hands it the keyAltName and deletes the former key. Both keep a
+     * checkpoint so an interrupted run resumes where it stopped.
+     * @public
+     * @param {string} target - Key type to rotate: master or data.
+     * @param {boolean} [dryRun] - Reports the planned changes without applying them.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<ISecretRotateResult>} Promise resolving to the rotation outcome.
+     * @throws {Error} When the rotation fails.
+     */
+    public async rotate(target: string, dryRun?: boolean, options?: ISecretManagerOptions): Promise<ISecretRotateResult> {
+        const settings = this.mergeOptions(options);
+        const denial = await this.authorize('rotate', `${target}-key`, settings);
+        if (denial) {
+            throw new Error(denial);
+        }
+        try {
+            let result: ISecretRotateResult;
+            switch ((target || '').toLowerCase()) {
+                case 'master':
+                    result = await this.rotateMasterKey(!!dryRun, settings);
+                    break;
+                case 'data':
+                    result = await this.rotateDataKey(!!dryRun, settings);
+                    break;
+                default:
+                    throw new Error(`Unsupported rotation target '${target}', expected master or data.`);
+            }
+            !dryRun && await this.audit(settings, { action: 'rotate', key: `${target}-key`, backend: 'mdb', outcome: 'success' });
+            return result;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:rotate',
+                message: `Failed to rotate the ${target} key. ${(error as Error).message}`
+            });
+            !dryRun && await this.audit(settings, { action: 'rotate', key: `${target}-key`, backend: 'mdb', outcome: 'failure', error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Rewraps every data key with the configured master key.
+     * @protected
+     * @param {boolean} dryRun - Reports the planned changes without applying them.
+     * @param {ISecretManagerOptions} options - Effective configuration options.
+     * @returns {Promise<ISecretRotateResult>} Promise resolving to the rotation outcome.
+     * @throws {Error} When the former local master key is missing or cannot unwrap the data keys.
+     */
+    protected async rotateMasterKey(dryRun: boolean, options: ISecretManagerOptions): Promise<ISecretRotateResult> {
+        const { mdb, flow } = options;
+        if (!mdb?.collection) {
+            throw new Error("MongoDB collection is not defined.");
+        }
+
+        const client = await this.connect(options);
+        const meta = this.getMetaCollection(options);
+        const keyVault = this.getKeyVault(options);
+        const keyVaultNamespace = this.getkeyVaultNamespace(options);
+        const provider = this.getKmsProvider(options);
+        const checkpointId = 'kozen.rotation.master';
+        const log = (message: string) => this.logger?.info({
+            flow,
+            category: VCategory.core.secret,
+            src: 'Secret:Service:MDB:rotateMasterKey',
+            message
+        });
+
+        if (provider !== 'local') {
+            const keys = await keyVault.countDocuments({});
+            log(`${dryRun ? '[dry-run] ' : ''}Rewrapping ${keys} data key(s) with the '${provider}' KMS provider.`);
+            if (!dryRun) {
+                const encryption = new ClientEncryption(client, this.getOptions(options));
+                await encryption.rewrapManyDataKey({}, { provider, masterKey: this.getMasterKey(options) });
+                this.encryption = null;
+            }
+            return { target: 'master', dryRun, keys, secrets: 0 };
+        }
+
+        // The local key cannot be registered twice, the rewrap goes through a transient 'local:next' provider
+        const next = this.getLocalMasterKey(options, true)!;
+        const previousName = mdb.previousKey || 'MDB_MASTER_KEY_PREVIOUS';
+        const keys = await keyVault.countDocuments({ 'masterKey.provider': { $in: ['local', 'local:next'] } });
+        const state = await meta.findOne({ _id: checkpointId });
+        log(`${dryRun ? '[dry-run] ' : ''}Rewrapping ${keys} local data key(s) with the new master key${state ? `, resuming from the '${state.phase}' phase` : ''}.`);
+        if (dryRun) {
+            return { target: 'master', dryRun, keys, secrets: 0 };
+        }
+
+        if (state?.phase !== 'finalize') {
+            const previous = process.env[previousName];
+            if (!previous) {
+                throw new Error(`Set '${previousName}' to the current master key and '${mdb.key || 'MDB_MASTER_KEY'}' to the new one before rotating the master key.`);
+            }
+            await meta.updateOne({ _id: checkpointId }, { $set: { phase: 'rewrap', updatedAt: new Date() } }, { upsert: true });
+            const staging = new ClientEncryption(client, {
+                keyVaultNamespace,
+                kmsProviders: { local: { key: Buffer.from(previous.trim(), 'base64') }, 'local:next': { key: next } }
+            });
+            await staging.rewrapManyDataKey({ 'masterKey.provider': 'local' }, { provider: 'local:next' });
+            await meta.updateOne({ _id: checkpointId }, { $set: { phase: 'finalize', updatedAt: new Date() } });
+            log(`Data keys wrapped with the new master key, finalizing the provider name.`);
+        }
+
+        const final = new ClientEncryption(client, {
+            keyVaultNamespace,
+            kmsProviders: { local: { key: next }, 'local:next': { key: next } }
+        });
+        await final.rewrapManyDataKey({ 'masterKey.provider': 'local:next' }, { provider: 'local' });
+        await this.getMetaCollection(options).updateOne(
+            { _id: 'kozen.master-key.local' },
+            { $set: { provider: 'local', fingerprint: crypto.createHash('sha256').update(next).digest('hex'), rotatedAt: new Date() } },
+            { upsert: true }
+        );
+        await meta.deleteOne({ _id: checkpointId });
+        this.encryption = null;
+        log(`Master key rotation completed, '${previousName}' can now be removed.`);
+
+        return { target: 'master', dryRun, keys, secrets: 0 };
+    }
+
+    /**
+     * Replaces every data key of the secrets collection: the shared one, the ones of the namespace and secret key
+     * strategies and the one encrypting the keys. Each keyAltName keeps its own checkpoint.
+     * @protected
+     * @param {boolean} dryRun - Reports the planned changes without applying them.
+     * @param {ISecretManagerOptions} options - Effective configuration options.
+     * @returns {Promise<ISecretRotateResult>} Promise resolving to the rotation outcome.
+     * @throws {Error} When no data key exists for the collection.
+     */
+    protected async rotateDataKey(dryRun: boolean, options: ISecretManagerOptions): Promise<ISecretRotateResult> {
+        const collection = await this.getCollection(options);
+        const shared = this.getKeyAlt(options);
+        const pattern = `^${shared.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\.key|/.*)?$`;
+
+        // interrupted rotations are resumed even when their former key already handed over the keyAltName
+        const names = new Set<string>();
+        for await (const dek of this.getKeyVault(options).find({ keyAltNames: { $regex: pattern } }, { projection: { keyAltNames: 1 } })) {
+            (dek.keyAltNames as string[]).filter(name => new RegExp(pattern).test(name)).forEach(name => names.add(name));
+        }
+        for await (const state of this.getMetaCollection(options).find({ _id: { $regex: '^kozen\\.rotation\\.data\\.' } })) {
+            state.keyAltName && names.add(state.keyAltName);
+        }
+        if (!names.size) {
+            throw new Error(`No data key found with the '${shared}' alternative name.`);
+        }
+
+        let secrets = 0;
+        for (const keyAltName of [...names].sort()) {
+            secrets += await this.rotateDataKeyAlt(collection, keyAltName, keyAltName === `${shared}.key` ? 'key' : 'value', dryRun, options);
+        }
+        return { target: 'data', dryRun, keys: names.size, secrets };
+    }
+
+    /**
+     * Replaces the data key of one keyAltName and re-encrypts every secret field protected by it.
+     * The new key is created under a temporary name and only takes the keyAltName once the secrets are moved, so
+     * concurrent writers always find a data key; versions they write with the former key meanwhile are moved after.
+     * @protected
+     * @param {Collection<Document>} collection - The secrets collection.
+     * @param {string} keyAltName - Alternative name of the data key.
+     * @param {'key' | 'value'} field - The secret field encrypted with the data key.
+     * @param {boolean} dryRun - Reports the planned changes without applying them.
+     * @param {ISecretManagerOptions} options - Effective configuration options.
+     * @returns {Promise<number>} Promise resolving to the number of re-encrypted documents.
+     * @throws {Error} When no data key exists for the keyAltName.
+     */
+    protected async rotateDataKeyAlt(collection: Collection<Document>, keyAltName: string, field: 'key' | 'value', dryRun: boolean, options: ISecretManagerOptions): Promise<number> {
+        const { flow } = options;
+        const encryption = this.encryption!;
+        const pendingAltName = `rotating:${keyAltName}`;
+        const meta = this.getMetaCollection(options);
+        const checkpointId = `kozen.rotation.data.${keyAltName}`;
+        const log = (message: string) => this.logger?.info({
+            flow,
+            category: VCategory.core.secret,
+            src: 'Secret:Service:MDB:rotateDataKey',
+            message
+        });
+
+        const state = await meta.findOne({ _id: checkpointId });
+        const oldKeyId: Binary | undefined = state?.oldKeyId || (await encryption.getKeyByAltName(keyAltName))?._id;
+        if (!oldKeyId) {
+            throw new Error(`No data key found with the '${keyAltName}' alternative name.`);
+        }
+
+        if (dryRun) {
+            let secrets = 0;
+            for await (const doc of collection.find(this.getEncryptedFilter(field), { projection: { key: 1, version: 1, value: 1 } })) {
+                if (this.isEncryptedWith(doc[field], oldKeyId)) {
+                    secrets++;
+                    log(`[dry-run] Would re-encrypt secret '${doc.key}'${doc.version !== undefined ? ` version ${doc.version}` : ''}.`);
+                }
+            }
+            log(`[dry-run] Would replace data key '${keyAltName}' and re-encrypt ${secrets} secret document(s).`);
+            return secrets;
+        }
+
+        // Create the new data key under the temporary name, the former one keeps serving the writers
+        let newKeyId: Binary | undefined = state?.newKeyId;
+        let retired: Binary[] = state?.retired || [oldKeyId];
+        if (!newKeyId) {
+            await meta.updateOne(
+                { _id: checkpointId },
+                { $setOnInsert: { keyAltName, oldKeyId, retired, startedAt: new Date() } },
+                { upsert: true }
+            );
+            newKeyId = (await encryption.getKeyByAltName(pendingAltName))?._id || await encryption.createDataKey(this.getKmsProvider(options), {
+                keyAltNames: [pendingAltName],
+                masterKey: this.getMasterKey(options)
+            });
+            await meta.updateOne({ _id: checkpointId }, { $set: { newKeyId } });
+            log(`Created the new data key for '${keyAltName}'.`);
+        } else {
+            log(`Resuming the rotation of data key '${keyAltName}'.`);
+        }
+
+        // Re-encrypt the secrets, documents already moved to the new key are skipped on resume
+        let secrets = await this.reencrypt(collection, field, retired, newKeyId, log, options);
+
+        // Hand the keyAltName over to the new key
+        if (!(await encryption.getKey(newKeyId))?.keyAltNames?.includes(keyAltName)) {
+            await encryption.removeKeyAltName(oldKeyId, keyAltName);
+            try {
+                await encryption.addKeyAltName(newKeyId, keyAltName);
+            } catch (error) {
+                // DuplicateKey: a writer created a data key in between, it becomes the new key and ours is retired too
+                const current = (error as MongoServerError).code === 11000 && await encryption.getKeyByAltName(keyAltName);
+                if (!current) {
+                    throw error;
+                }
+                retired = [...retired, newKeyId];
+                newKeyId = current._id;
+                await meta.updateOne({ _id: checkpointId }, { $set: { newKeyId, retired } });
+                log(`Data key '${keyAltName}' was created by a concurrent writer, adopting it as the new key.`);
+            }
+        }
+        await encryption.removeKeyAltName(newKeyId, pendingAltName);
+
+        // Move the versions written with a retired key while the new one was pending, then retire them
+        secrets += await this.reencrypt(collection, field, retired, newKeyId, log, options);
+        for (const keyId of retired) {
+            await encryption.deleteKey(keyId);
+        }
+        await meta.deleteOne({ _id: checkpointId });
+        log(`Data key rotation of '${keyAltName}' completed, ${secrets} secret document(s) re-encrypted.`);
+
+        return secrets;
+    }
+
+    /**
+     * Re-encrypts with the given data key every secret field encrypted with one of the retired keys.
+     * @protected
+     * @param {Collection<Document>} collection - The secrets collection.
+     * @param {'key' | 'value'} field - The secret field encrypted with the data keys.
+     * @param {Binary[]} retired - Identifiers of the data keys being replaced.
+     * @param {Binary} keyId - Identifier of the replacing data key.
+     * @param {(message: string) => void} log - Progress logger.
+     * @param {ISecretManagerOptions} options - Effective configuration options.
+     * @returns {Promise<number>} Promise resolving to the number of re-encrypted documents.
+     */
+    protected async reencrypt(collection: Collection<Document>, field: 'key' | 'value', retired: Binary[], keyId: Binary, log: (message: string) => void, options: ISecretManagerOptions): Promise<number> {
+        // keys are encrypted deterministically so they can still be matched
+        const algorithm = field === 'key' ? 'AEAD_AES_256_CBC_HMAC_SHA_512-Deterministic' : this.getAlgorithm(options);
+        let secrets = 0;
+        for await (const doc of collection.find(this.getEncryptedFilter(field), { projection: { [field]: 1 } })) {
+            if (!retired.some(id => this.isEncryptedWith(doc[field], id))) {
+                continue;
+            }
+            const value = await this.encryption!.decrypt(doc[field]);
+            const encrypted = await this.encryption!.encrypt(value, { algorithm, keyId });
+            await collection.updateOne({ _id: doc._id }, { $set: { [field]: encrypted } });
+            secrets++;
+            secrets % 100 === 0 && log(`Re-encrypted ${secrets} secret document(s).`);
+        }
+        return secrets;
+    }
+
+    /**
+     * Builds the query matching the secret documents whose given field is encrypted.
+     * @protected
+     * @param {'key' | 'value'} field - The secret field.
+     * @returns {Filter<Document>} The encrypted field query.
+     */
+    protected getEncryptedFilter(field: 'key' | 'value'): Filter<Document> {
+        return field === 'key' ? { key: { $type: 'binData' } } : { encrypted: true };
+    }
+
+    /**
+     * Checks whether an encrypted value was produced with the given data key.
+     * @protected
+     * @param {any} value - The stored value.
+     * @param {Binary} keyId - The data key identifier.
+     * @returns {boolean} True if the ciphertext references the data key.
+     */
+    protected isEncryptedWith(value: any, keyId: Binary): boolean {
+        // CSFLE ciphertext: 1 byte blob subtype followed by the 16 bytes key UUID
+        return value instanceof Binary && value.sub_type === Binary.SUBTYPE_ENCRYPTED && this.isSameKey(value.buffer.subarray(1, 17), keyId);
+    }
+
+    /**
+     * Compares two data key identifiers.
+     * @protected
+     * @param {Binary | Uint8Array} a - First key identifier.
+     * @param {Binary | Uint8Array} b - Second key identifier.
+     * @returns {boolean} True if both identifiers are equal.
+     */
+    protected isSameKey(a: Binary | Uint8Array, b: Binary | Uint8Array): boolean {
+        const bytes = (id: Binary | Uint8Array) => Buffer.from(id instanceof Binary ? id.buffer.subarray(0, id.position) : id);
+        return bytes(a).equals(bytes(b));
+    }
+
+    /**
+     * Compares a stored key with one of the stored forms of a secret key.
+     * @protected
+     * @param {any} value - The key field of a secret document.
+     * @param {string | Binary} form - The plain or encrypted key form.
+     * @returns {boolean} True if the stored key matches the form.
+     */
+    protected isStoredKey(value: any, form: string | Binary): boolean {
+        return typeof form === 'string' ? value === form : value instanceof Binary && this.isSameKey(value, form);
+    }
+
+    /**
+     * Retrieves the encryption algorithm applied to secret values.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {ClientEncryptionEncryptOptions['algorithm']} The configured algorithm, random by default.
+     */
+    protected getAlgorithm(options?: ISecretManagerOptions): ClientEncryptionEncryptOptions['algorithm'] {
+        return (options || this.options)?.mdb?.algorithm as ClientEncryptionEncryptOptions['algorithm'] || 'AEAD_AES_256_CBC_HMAC_SHA_512-Random';
+    }
+
+    /**
+     * Builds the query selecting a secret version of the scope from the version or stage selectors.
+     * @protected
+     * @param {any} key - The secret key filter, see getKeyFilter.
+     * @param {ISecretManagerOptions} [options] - Options holding the scope and the optional version or stage selectors.
+     * @returns {Filter<Document>} The version query.
+     */
+    protected getVersionFilter(key: any, options?: ISecretManagerOptions): Filter<Document> {
+        const scope = this.getScopeFilter(options);
+        if (options?.version !== undefined && options?.version !== null) {
+            return { key, ...scope, version: Number(options.version) };
+        }
+        if (options?.stage) {
+            return { key, ...scope, stage: options.stage };
+        }
+        return { key, ...scope, ...this.getCurrentFilter() };
+    }
+
+    /**
+     * Builds the query matching the namespace and environment fields of the scope, documents without them are unscoped.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Options holding the scope.
+     * @returns {{ namespace: string | null, environment: string | null }} The scope query, also the scope fields of new documents.
      */
-    protected encryption: ClientEncryption | null = null;
+    protected getScopeFilter(options?: ISecretManagerOptions): { namespace: string | null, environment: string | null } {
+        const { namespace, environment } = this.getScopeFields(options);
+        return { namespace: namespace || null, environment: environment || null };
+    }
 
     /**
-     * KMS providers configuration for encryption operations
-     * @private
-     * @type {KMSProviders | null}
+     * Returns the stored form of a secret key, encrypted with the deterministic algorithm when key encryption is enabled.
+     * @protected
+     * @param {string} key - The secret key.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<string | Binary>} Promise resolving to the stored key.
      */
-    protected kmsProviders: KMSProviders | null = null;
+    protected async getStoredKey(key: string, options?: ISecretManagerOptions): Promise<string | Binary> {
+        options = options || this.options;
+        if (!options?.mdb?.encryptKey) {
+            return key;
+        }
+        return await this.encryption!.encrypt(key, {
+            algorithm: 'AEAD_AES_256_CBC_HMAC_SHA_512-Deterministic',
+            keyId: await this.createDataKey(options, `${this.getKeyAlt(options)}.key`)
+        });
+    }
 
     /**
-     * Resolves a secret value from MongoDB with optional decryption.
-     * @public
-     * @param {string} key - The secret key to search for in the MongoDB collection.
+     * Returns every form a secret key may be stored under: plain, encrypted with the data key of the keys and,
+     * while that data key is being rotated, encrypted with its pending replacement.
+     * @protected
+     * @param {string} key - The secret key.
      * @param {ISecretManagerOptions} [options] - Optional configuration override.
-     * @returns {Promise<string | null | number | boolean>} Promise resolving the decrypted secret value.
-     * @throws {Error} When secret resolution fails.
+     * @returns {Promise<Array<string | Binary>>} Promise resolving to the stored forms, the current one first.
      */
-    public async resolve(
-        key: string,
-        options?: ISecretManagerOptions
-    ): Promise<string | null | undefined | number | boolean> {
-        try {
-            options && (this.options = { ...this.options, ...options });
-            const { mdb } = this.options;
-            if (!mdb) {
-                throw new Error("MongoDB configuration is missing in SecretManager options.");
-            }
-
-            // Initialize MongoDB client
-            const client = await this.initClient(this.options);
-
-            // Validate collection presence
-            if (!mdb.collection) {
-                throw new Error("MongoDB collection is not defined.");
-            }
-
-            // Get collection
-            const collection = client!.db(mdb.database).collection(mdb.collection);
+    protected async getKeyForms(key: string, options?: ISecretManagerOptions): Promise<Array<string | Binary>> {
+        const stored = await this.getStoredKey(key, options);
+        if (stored === key) {
+            return [key];
+        }
+        const pending = await this.encryption!.getKeyByAltName(`rotating:${this.getKeyAlt(options)}.key`);
+        return pending
+            ? [stored, await this.encryption!.encrypt(key, { algorithm: 'AEAD_AES_256_CBC_HMAC_SHA_512-Deterministic', keyId: pending._id }), key]
+            : [stored, key];
+    }
 
-            // Query the secret document by key
-            const secretDocument = await collection.findOne({ key });
-            if (!secretDocument) {
-                this.logger?.warn({
-                    flow: options?.flow,
-                    category: VCategory.core.secret,
-                    src: 'Secret:Service:MDB:resolve',
-                    message: `Secret '${key}' not found in MongoDB collection: '${mdb.collection}'.`
-                });
-                return null;
-            }
+    /**
+     * Builds the key field filter, plain keys written before the key encryption was enabled remain reachable.
+     * @protected
+     * @param {string} key - The secret key.
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<any>} Promise resolving to the key field filter.
+     */
+    protected async getKeyFilter(key: string, options?: ISecretManagerOptions): Promise<any> {
+        const forms = await this.getKeyForms(key, options);
+        return forms.length > 1 ? { $in: forms } : key;
+    }
 
-            // Decrypt the encrypted value if applicable
-            let resolvedValue = secretDocument.value;
-            if (secretDocument.encrypted && this.encryption) {
-                resolvedValue = await this.encryption.decrypt(resolvedValue);
-            }
+    /**
+     * Builds the query matching current versions, including documents written before versioning.
+     * @protected
+     * @returns {Filter<Document>} The current version query.
+     */
+    protected getCurrentFilter(): Filter<Document> {
+        return { $or: [{ stage: 'current' }, { version: { $exists: false } }] };
+    }
 
-            return resolvedValue;
+    /**
+     * Runs the writes of a version change in a transaction, so readers never see the stage labels half shifted.
+     * Standalone servers have no transactions, the writes then run in order; readers take the highest current version.
+     * @protected
+     * @param {(session?: ClientSession) => Promise<void>} work - The writes, run with the session of the transaction.
+     * @returns {Promise<void>} Promise resolving once the writes are committed.
+     */
+    protected async transact(work: (session?: ClientSession) => Promise<void>): Promise<void> {
+        const session = this.client!.startSession();
+        try {
+            await session.withTransaction(() => work(session));
         } catch (error) {
-            this.logger?.error({
-                flow: options?.flow,
-                category: VCategory.core.secret,
-                src: 'Secret:Service:MDB:resolve',
-                message: `Failed to retrieve secret '${key}' from MongoDB Secrets Manager. ${(error as Error).message}`
-            });
-            throw error;
+            // IllegalOperation: transactions require a replica set or a sharded cluster
+            if ((error as MongoServerError).code !== 20) {
+                throw error;
+            }
+            await work();
+        } finally {
+            await session.endSession();
         }
     }
 
     /**
-     * Saves a secret value to MongoDB with optional encryption.
-     * @public
-     * @param {string} key - The secret key to store in the MongoDB collection.
-     * @param {string} value - The secret value to store in the MongoDB collection.
+     * Ensures the unique version index of the secrets collection once per instance.
+     * The index covers the scope fields, the former one over the key alone is dropped so scopes may share keys.
+     * @protected
+     * @param {Collection<Document>} collection - The secrets collection.
      * @param {ISecretManagerOptions} [options] - Optional configuration override.
-     * @returns {Promise<boolean>} Promise resolving to true if the secret is successfully saved.
-     * @throws {Error} When secret storage fails.
+     * @returns {Promise<void>} Promise resolving when the index exists.
      */
-    public async save(key: string, value: string | Binary, options?: ISecretManagerOptions): Promise<boolean> {
-        try {
-            options && (this.options = { ...this.options, ...options });
-            const { mdb } = this.options;
-            if (!mdb) {
-                throw new Error("MongoDB configuration is missing in SecretManager options.");
+    protected async ensureIndexes(collection: Collection<Document>, options?: ISecretManagerOptions): Promise<void> {
+        if (this.indexed) {
+            return;
+        }
+        await collection.createIndex(
+            { namespace: 1, environment: 1, key: 1, version: -1 },
+            { unique: true, partialFilterExpression: { version: { $exists: true } } }
+        );
+        await collection.dropIndex('key_1_version_-1').catch((error: MongoServerError) => {
+            // IndexNotFound once dropped or on new collections
+            if (error.code !== 27) {
+                throw error;
             }
+        });
+        // MongoDB removes the versions whose expiry date has passed
+        (options || this.options).mdb?.ttl && await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+        this.indexed = true;
+    }
 
-            // Initialize MongoDB client
-            const client = await this.initClient(this.options);
-
-            // Validate collection presence
-            if (!mdb.collection) {
-                throw new Error("MongoDB collection is not defined.");
-            }
+    /**
+     * Builds the lifecycle fields of a new version document.
+     * The owner, description, tags and rotation period of the former version are kept unless given, the expiry only
+     * applies to the version saved with it.
+     * @protected
+     * @param {ISecretLease} [lease] - The lifecycle metadata of the save operation.
+     * @param {Document | null} [former] - The former latest version document.
+     * @returns {Document} The lifecycle fields, without unset ones.
+     */
+    protected getLeaseFields(lease?: ISecretLease, former?: Document | null): Document {
+        const fields: Document = {
+            owner: lease?.owner ?? former?.owner,
+            description: lease?.description ?? former?.description,
+            tags: lease?.tags ?? former?.tags,
+            rotateEvery: lease?.rotateEvery ?? former?.rotateEvery,
+            expiresAt: lease?.expiresAt
+        };
+        return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== null));
+    }
 
-            // Get collection for secret storage
-            const collection = client!.db(mdb.database).collection(mdb.collection);
+    /**
+     * Maps a secret document onto its public metadata, dropping the value.
+     * @protected
+     * @param {Document} document - The secret document.
+     * @returns {ISecretMetadata} The secret metadata.
+     */
+    protected getMetadata(document: Document): ISecretMetadata {
+        return {
+            key: document.key,
+            type: 'mdb',
+            encrypted: !!document.encrypted,
+            version: document.version,
+            stage: document.stage,
+            flow: document.flow,
+            description: document.description,
+            tags: document.tags,
+            owner: document.owner,
+            rotateEvery: document.rotateEvery,
+            expiresAt: document.expiresAt,
+            createdAt: document.createdAt,
+            updatedAt: document.updatedAt || document.createdAt
+        };
+    }
 
-            // Encrypt the value if necessary
-            value = await this.encryption!.encrypt(value, {
-                algorithm: mdb.algorithm as ClientEncryptionEncryptOptions['algorithm'] || 'AEAD_AES_256_CBC_HMAC_SHA_512-Random',
-                keyId: await this.createDataKey(options)
-            });
+    /**
+     * Initializes the client and returns the secrets collection.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<Collection<Document>>} Promise resolving the secrets collection.
+     * @throws {Error} When the MongoDB configuration is incomplete.
+     */
+    protected async getCollection(options?: ISecretManagerOptions): Promise<Collection<Document>> {
+        options = this.mergeOptions(options);
+        const { mdb } = options;
+        if (!mdb) {
+            throw new Error("MongoDB configuration is missing in SecretManager options.");
+        }
 
-            // Insert or update the secret document
-            const result = await collection?.updateOne(
-                { key },
-                { $set: { value, encrypted: true } },
-                { upsert: true }
-            );
+        // Initialize MongoDB client
+        const client = await this.initClient(options);
 
-            return result.acknowledged;
-        } catch (error) {
-            this.logger?.error({
-                flow: options?.flow,
-                category: VCategory.core.secret,
-                src: 'Secret:Service:MDB:save',
-                message: `Failed to store secret '${key}' in MongoDB Secrets Manager. ${(error as Error).message}`
-            });
-            throw error;
+        // Validate collection presence
+        if (!mdb.collection) {
+            throw new Error("MongoDB collection is not defined.");
         }
+
+        return client.db(mdb.database).collection(mdb.collection);
+    }
+
+    /**
+     * Builds the options of a call, the backend configuration overridden by the provided options.
+     * The backend configuration is shared by every caller, so it is never changed by a call.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {ISecretManagerOptions} The effective options of the call.
+     */
+    protected mergeOptions(options?: ISecretManagerOptions): ISecretManagerOptions {
+        return { ...this.options, ...options };
     }
 
     /**
@@ -159,6 +1376,31 @@ export class SecretManagerMDB extends SecretManager {
      * @throws {Error} If MongoDB connection or encryption setup fails.
      */
     protected async initClient(options?: ISecretManagerOptions): Promise<MongoClient> {
+        // Validate the encryption settings before opening any connection
+        const settings = this.encryption ? null : this.getOptions(options);
+
+        const client = await this.connect(options);
+
+        // Initialize Client-Side Field Level Encryption if necessary
+        if (settings) {
+            await this.checkKeyVault(options);
+            const encryption = new ClientEncryption(client, settings);
+            await this.verifyMasterKey(encryption, settings.kmsProviders, options);
+            this.kmsProviders = settings.kmsProviders || null;
+            this.encryption = encryption;
+        }
+
+        return client;
+    }
+
+    /**
+     * Opens the MongoDB connection without setting up encryption.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - MongoDB options for configuration.
+     * @returns {Promise<MongoClient>} Promise resolving the MongoDB client instance.
+     * @throws {Error} If the MongoDB URI is missing or the connection fails.
+     */
+    protected async connect(options?: ISecretManagerOptions): Promise<MongoClient> {
         const { mdb } = options || this.options;
 
         if (!mdb?.uri) {
@@ -173,34 +1415,139 @@ export class SecretManagerMDB extends SecretManager {
             await this.client.connect();
         }
 
-        // Initialize Client-Side Field Level Encryption if necessary
-        if (!this.encryption) {
-            this.encryption = new ClientEncryption(this.client, this.getOptions(options));
+        return this.client;
+    }
+
+    /**
+     * Returns the key vault collection holding the data encryption keys.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Collection<Document>} The key vault collection.
+     */
+    protected getKeyVault(options?: ISecretManagerOptions): Collection<Document> {
+        const [database, ...names] = this.getkeyVaultNamespace(options).split('.');
+        return this.client!.db(database).collection(names.join('.'));
+    }
+
+    /**
+     * Returns the collection holding the bookkeeping documents, kept apart from the secrets so they never show up
+     * among them nor in their change streams.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Collection<IMetaDocument>} The metadata collection.
+     * @throws {Error} When the metadata collection is the secrets collection.
+     */
+    protected getMetaCollection(options?: ISecretManagerOptions): Collection<IMetaDocument> {
+        const { mdb } = options || this.options;
+        const name = mdb?.metaCollection || `${mdb?.collection}.meta`;
+        if (name === mdb?.collection) {
+            throw new Error(`The metadata collection must differ from the secrets collection '${mdb?.database}.${mdb?.collection}'.`);
         }
+        return this.client!.db(mdb?.database).collection<IMetaDocument>(name);
+    }
 
-        return this.client;
+    /**
+     * Validates the key vault namespace and ensures its unique keyAltNames index.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<void>} Promise resolving when the key vault is ready.
+     * @throws {Error} When the key vault shares the secrets collection or data keys still need to be migrated.
+     */
+    protected async checkKeyVault(options?: ISecretManagerOptions): Promise<void> {
+        const { mdb } = options || this.options;
+        if (this.getkeyVaultNamespace(options) === `${mdb?.database}.${mdb?.collection}`) {
+            throw new Error(`The key vault namespace must differ from the secrets collection '${mdb?.database}.${mdb?.collection}'.`);
+        }
+
+        if (mdb?.collection) {
+            const legacy = await this.client!.db(mdb.database).collection(mdb.collection).findOne(
+                { keyMaterial: { $exists: true } },
+                { projection: { _id: 1 } }
+            );
+            if (legacy) {
+                throw new Error(`Data keys are still stored in the secrets collection '${mdb.database}.${mdb.collection}', move them to '${this.getkeyVaultNamespace(options)}' with 'kozen --action=secret:migrate-key-vault'.`);
+            }
+        }
+
+        await this.getKeyVault(options).createIndex(
+            { keyAltNames: 1 },
+            { unique: true, partialFilterExpression: { keyAltNames: { $exists: true } } }
+        );
+    }
+
+    /**
+     * Moves the data keys stored in the secrets collection by former releases to the key vault collection.
+     * @public
+     * @param {ISecretManagerOptions} [options] - Optional configuration override.
+     * @returns {Promise<number>} Promise resolving to the number of moved data keys.
+     * @throws {Error} When the migration fails, already moved keys are not copied twice on the next run.
+     */
+    public async migrateKeyVault(options?: ISecretManagerOptions): Promise<number> {
+        try {
+            options = this.mergeOptions(options);
+            const { mdb } = options;
+            if (!mdb?.collection) {
+                throw new Error("MongoDB collection is not defined.");
+            }
+
+            const client = await this.connect(options);
+            const source = client.db(mdb.database).collection(mdb.collection);
+            const target = this.getKeyVault(options);
+            if (target.namespace === source.namespace) {
+                throw new Error(`The key vault namespace must differ from the secrets collection '${source.namespace}'.`);
+            }
+            await target.createIndex(
+                { keyAltNames: 1 },
+                { unique: true, partialFilterExpression: { keyAltNames: { $exists: true } } }
+            );
+
+            const keys = await source.find({ keyMaterial: { $exists: true } }).toArray();
+            for (const key of keys) {
+                await target.replaceOne({ _id: key._id }, key, { upsert: true });
+                await source.deleteOne({ _id: key._id });
+                this.logger?.info({
+                    flow: options.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:MDB:migrateKeyVault',
+                    message: `Moved data key '${key.keyAltNames?.[0] || key._id}' to '${target.namespace}'.`
+                });
+            }
+
+            return keys.length;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:MDB:migrateKeyVault',
+                message: `Failed to migrate the data keys to the key vault collection. ${(error as Error).message}`
+            });
+            throw error;
+        }
     }
 
     /**
      * Creates or retrieves existing data encryption key for MongoDB encryption operations
      * @protected
      * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @param {string} [keyAltName] - Alternative name of the data key, the shared one by default
      * @returns {Promise<any>} Promise resolving to the data encryption key ID
      * @throws {Error} When data key creation fails
      */
-    protected async createDataKey(options?: ISecretManagerOptions) {
-        const keyAltName = this.getKeyAlt(options);
-        const collection = options?.mdb?.database && options?.mdb.collection && this.client!.db(options?.mdb.database).collection(options?.mdb.collection) as any;
-        const existent = await collection?.findOne({ keyAltNames: keyAltName });
+    protected async createDataKey(options?: ISecretManagerOptions, keyAltName: string = this.getKeyAlt(options)) {
+        const existent = await this.encryption!.getKeyByAltName(keyAltName);
 
-        // Create a data encryption key (DEK)
-        const dekId = existent?.["_id"] || await this.encryption!.createDataKey('local', { keyAltNames: [keyAltName] });
+        // Create a data encryption key (DEK) wrapped by the configured KMS provider
+        const dekId = existent?.["_id"] || await this.encryption!.createDataKey(this.getKmsProvider(options), {
+            keyAltNames: [keyAltName],
+            masterKey: this.getMasterKey(options)
+        });
 
-        this.logger?.warn({
+        // only a new data key is worth reporting, this runs on every read and write
+        !existent && this.logger?.info({
             flow: options?.flow,
             category: VCategory.core.secret,
             src: 'Secret:Service:MDB:createDataKey',
-            message: 'Create Data Key',
+            message: `Created data key '${keyAltName}'.`,
             data: { dekId, keyAltName }
         });
 
@@ -209,49 +1556,270 @@ export class SecretManagerMDB extends SecretManager {
 
     /**
      * Generates key alternative name for encryption key identification
+     * Without a secret key, or with the shared strategy, it returns the shared key alternative name
      * @protected
      * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @param {string} [key] - Secret key used by the namespace and secret key strategies
      * @returns {string} The key alternative name for encryption operations
      */
-    protected getKeyAlt(options?: ISecretManagerOptions) {
+    protected getKeyAlt(options?: ISecretManagerOptions, key?: string) {
         const { mdb } = options || this.options;
-        return mdb?.keyAltName || process.env.KOZEN_SM_ALT || `${mdb?.database || 'db'}-${mdb?.collection || 'co'}.alt`;
+        const shared = mdb?.keyAltName || process.env.KOZEN_SM_ALT || `${mdb?.database || 'db'}-${mdb?.collection || 'co'}.alt`;
+        // names derived from encrypted keys are hashed so the key vault does not reveal them
+        const name = (value: string) => mdb?.encryptKey ? crypto.createHash('sha256').update(value).digest('hex') : value;
+
+        switch (key === undefined ? 'shared' : (mdb?.keyStrategy || 'shared').toLowerCase()) {
+            case 'namespace': {
+                const index = key!.lastIndexOf('/');
+                return index > 0 ? `${shared}/${name(key!.substring(0, index))}` : shared;
+            }
+            case 'secret':
+                return `${shared}/${name(key!)}`;
+            default:
+                return shared;
+        }
     }
 
     /**
      * Constructs key vault namespace string for MongoDB encryption operations
+     * The key vault is kept apart from the secrets collection, in the `__keyVault` collection by default
      * @protected
      * @param {ISecretManagerOptions} [options] - Optional configuration override
      * @returns {string} The key vault namespace in database.collection format
      */
     protected getkeyVaultNamespace(options?: ISecretManagerOptions) {
         const { mdb } = options || this.options;
-        return `${mdb?.database || 'db'}.${mdb?.collection || 'keyVault'}`;
+        return `${mdb?.keyVault?.database || mdb?.database || 'db'}.${mdb?.keyVault?.collection || '__keyVault'}`;
+    }
+
+    /**
+     * Retrieves the KMS provider used to wrap new data keys.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Configuration options.
+     * @returns {ClientEncryptionDataKeyProvider} The KMS provider name.
+     * @throws {Error} When the configured provider is not supported.
+     */
+    protected getKmsProvider(options?: ISecretManagerOptions): ClientEncryptionDataKeyProvider {
+        const { mdb } = options || this.options || {};
+        const provider = (mdb?.kms?.provider || 'local').toLowerCase();
+        if (!['local', 'aws', 'azure', 'gcp', 'kmip'].includes(provider)) {
+            throw new Error(`Unsupported KMS provider '${provider}', expected one of: local, aws, azure, gcp, kmip.`);
+        }
+        return provider as ClientEncryptionDataKeyProvider;
     }
 
     /**
      * Retrieves the KMS providers configuration for encryption.
+     * Registers the provider selected for new data keys plus any other configured provider,
+     * so data keys wrapped by former providers remain readable.
      * @protected
      * @param {ISecretManagerOptions} [options] - Configuration options.
      * @returns {KMSProviders} The KMS providers configuration.
      */
     protected getKmsProviders(options?: ISecretManagerOptions): KMSProviders {
         const { cloud, mdb } = options || this.options || {};
-        const localMasterKeyBase64 = process.env[mdb?.key || 'MDB_MASTER_KEY'] || this.getLocalKey();
-        const kmsProviders: KMSProviders = {
-            local: {
-                key: Buffer.from(localMasterKeyBase64, "base64")
+        const kms = mdb?.kms;
+        const provider = this.getKmsProvider(options);
+        const kmsProviders: KMSProviders = {};
+
+        const localMasterKey = this.getLocalMasterKey(options, provider === 'local');
+        if (localMasterKey) {
+            kmsProviders.local = { key: localMasterKey };
+        }
+
+        if (provider === 'aws' || kms?.aws || mdb?.source === 'cloud') {
+            const accessKeyId = process.env[kms?.aws?.accessKeyId || cloud?.accessKeyId || 'AWS_ACCESS_KEY_ID'];
+            const secretAccessKey = process.env[kms?.aws?.secretAccessKey || cloud?.secretAccessKey || 'AWS_SECRET_ACCESS_KEY'];
+            const sessionToken = process.env[kms?.aws?.sessionToken || 'AWS_SESSION_TOKEN'];
+            // empty settings let the driver fetch credentials from the AWS environment
+            kmsProviders.aws = accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey, sessionToken } : {};
+        }
+
+        if (provider === 'azure' || kms?.azure) {
+            const tenantId = process.env[kms?.azure?.tenantId || 'AZURE_TENANT_ID'];
+            const clientId = process.env[kms?.azure?.clientId || 'AZURE_CLIENT_ID'];
+            const clientSecret = process.env[kms?.azure?.clientSecret || 'AZURE_CLIENT_SECRET'];
+            const identityPlatformEndpoint = kms?.azure?.identityPlatformEndpoint;
+            // empty settings let the driver use the Azure managed identity
+            kmsProviders.azure = tenantId && clientId && clientSecret ? { tenantId, clientId, clientSecret, identityPlatformEndpoint } : {};
+        }
+
+        if (provider === 'gcp' || kms?.gcp) {
+            const email = process.env[kms?.gcp?.email || 'GCP_EMAIL'];
+            const privateKey = process.env[kms?.gcp?.privateKey || 'GCP_PRIVATE_KEY'];
+            // empty settings let the driver use the attached GCP service account
+            kmsProviders.gcp = email && privateKey ? { email, privateKey } : {};
+        }
+
+        if (provider === 'kmip' || kms?.kmip) {
+            kmsProviders.kmip = { endpoint: kms?.kmip?.endpoint };
+        }
+
+        return kmsProviders;
+    }
+
+    /**
+     * Builds the master key parameters of the KMS provider used to wrap new data keys.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Configuration options.
+     * @returns {AWSEncryptionKeyOptions | AzureEncryptionKeyOptions | GCPEncryptionKeyOptions | KMIPEncryptionKeyOptions | undefined} The master key parameters, undefined for the local provider.
+     * @throws {Error} When a required master key parameter is missing.
+     */
+    protected getMasterKey(options?: ISecretManagerOptions): AWSEncryptionKeyOptions | AzureEncryptionKeyOptions | GCPEncryptionKeyOptions | KMIPEncryptionKeyOptions | undefined {
+        const { cloud, mdb } = options || this.options || {};
+        const kms = mdb?.kms;
+        const required = (provider: string, params: Record<string, any>, names: string[]) => {
+            const missing = names.filter(name => !params[name]);
+            if (missing.length) {
+                throw new Error(`Missing KMS master key option(s) for the '${provider}' provider: ${missing.map(name => `mdb.kms.${provider}.${name}`).join(', ')}.`);
             }
+            return params;
         };
 
-        if (cloud?.accessKeyId && cloud?.secretAccessKey && mdb?.source === 'cloud') {
-            kmsProviders["aws"] = {
-                accessKeyId: cloud.accessKeyId,
-                secretAccessKey: cloud.secretAccessKey,
-            };
+        switch (this.getKmsProvider(options)) {
+            case 'aws':
+                return required('aws', {
+                    region: kms?.aws?.region || cloud?.region || process.env.AWS_REGION,
+                    key: kms?.aws?.key,
+                    endpoint: kms?.aws?.endpoint
+                }, ['region', 'key']) as AWSEncryptionKeyOptions;
+            case 'azure':
+                return required('azure', {
+                    keyVaultEndpoint: kms?.azure?.keyVaultEndpoint,
+                    keyName: kms?.azure?.keyName,
+                    keyVersion: kms?.azure?.keyVersion
+                }, ['keyVaultEndpoint', 'keyName']) as AzureEncryptionKeyOptions;
+            case 'gcp':
+                return required('gcp', {
+                    projectId: kms?.gcp?.projectId,
+                    location: kms?.gcp?.location,
+                    keyRing: kms?.gcp?.keyRing,
+                    keyName: kms?.gcp?.keyName,
+                    keyVersion: kms?.gcp?.keyVersion,
+                    endpoint: kms?.gcp?.endpoint
+                }, ['projectId', 'location', 'keyRing', 'keyName']) as GCPEncryptionKeyOptions;
+            case 'kmip':
+                return {
+                    keyId: kms?.kmip?.keyId,
+                    delegated: kms?.kmip?.delegated
+                };
+            default:
+                return undefined;
         }
+    }
 
-        return kmsProviders;
+    /**
+     * Reads and validates the local master key from the variable named by `mdb.key` or from `mdb.keyFile`.
+     * A random ephemeral key is only used when strict mode is explicitly disabled.
+     * @protected
+     * @param {ISecretManagerOptions} [options] - Configuration options.
+     * @param {boolean} [required] - Whether the local provider wraps new data keys.
+     * @returns {Buffer | null} The 96-byte master key, or null when it is neither configured nor required.
+     * @throws {Error} When the key is required but missing, or when it is malformed.
+     */
+    protected getLocalMasterKey(options?: ISecretManagerOptions, required?: boolean): Buffer | null {
+        const { mdb } = options || this.options || {};
+        const name = mdb?.key || 'MDB_MASTER_KEY';
+        let source = name;
+        let encoded = process.env[name];
+        if (!encoded && mdb?.keyFile && fs.existsSync(mdb.keyFile)) {
+            source = mdb.keyFile;
+            encoded = fs.readFileSync(mdb.keyFile, 'utf-8');
+        }
+        encoded = encoded?.trim();
+
+        if (!encoded) {
+            if (!required) {
+                return null;
+            }
+            if (mdb?.strict === false) {
+                this.logger?.warn({
+                    flow: options?.flow,
+                    category: VCategory.core.secret,
+                    src: 'Secret:Service:MDB:getLocalMasterKey',
+                    message: `The '${name}' environment variable is not set, using a random ephemeral master key. Secrets saved by this process will not be readable once it exits.`
+                });
+                return Buffer.from(this.getLocalKey(), "base64");
+            }
+            throw new Error(`The local master key is not configured: set the '${name}' environment variable${mdb?.keyFile ? ` or create the '${mdb.keyFile}' file` : ''} to a base64 encoded 96-byte key, e.g. generated with 'kozen --action=secret:init-master-key'.`);
+        }
+
+        if (encoded.length % 4 !== 0 || !/^[A-Za-z0-9+/]+={0,2}$/.test(encoded)) {
+            throw new Error(`The local master key in '${source}' is not a valid base64 value.`);
+        }
+        const key = Buffer.from(encoded, "base64");
+        if (key.length !== 96) {
+            throw new Error(`The local master key in '${source}' must decode to 96 bytes, got ${key.length}.`);
+        }
+        return key;
+    }
+
+    /**
+     * Checks the local master key against the existing data keys before any secret is written.
+     * The key fingerprint is stored on first use, former deployments are verified with a canary encryption.
+     * @protected
+     * @param {ClientEncryption} encryption - Encryption context built with the master key to verify.
+     * @param {KMSProviders} [kmsProviders] - The configured KMS providers.
+     * @param {ISecretManagerOptions} [options] - Configuration options.
+     * @returns {Promise<void>} Promise resolving when the master key is verified.
+     * @throws {Error} When the master key does not match the existing data keys.
+     */
+    protected async verifyMasterKey(encryption: ClientEncryption, kmsProviders?: KMSProviders, options?: ISecretManagerOptions): Promise<void> {
+        const { mdb } = options || this.options;
+        const key = kmsProviders?.local?.key;
+        if (!key || mdb?.strict === false || !mdb?.collection) {
+            return;
+        }
+
+        const name = mdb.key || 'MDB_MASTER_KEY';
+        const fingerprint = crypto.createHash('sha256').update(key as Uint8Array).digest('hex');
+        const meta = this.getMetaCollection(options);
+        let stored = await meta.findOne({ _id: 'kozen.master-key.local' });
+        if (!stored) {
+            // former releases kept the fingerprint in the secrets collection
+            const legacy = await this.client!.db(mdb.database).collection(mdb.collection).findOneAndDelete({ fingerprint: { $exists: true }, key: { $exists: false } });
+            stored = legacy && { _id: 'kozen.master-key.local', provider: legacy.provider, fingerprint: legacy.fingerprint, createdAt: legacy.createdAt };
+            stored && await meta.insertOne(stored);
+        }
+
+        if (stored) {
+            if (stored.fingerprint !== fingerprint) {
+                throw new Error(`The local master key in '${name}' does not match the key protecting the existing data keys (expected fingerprint ${String(stored.fingerprint).substring(0, 16)}). Restore the original key instead of generating a new one.`);
+            }
+            return;
+        }
+
+        const dek = await this.getKeyVault(options).findOne<DataKey>({ 'masterKey.provider': 'local' });
+        if (dek) {
+            try {
+                await encryption.encrypt('kozen', { keyId: dek._id, algorithm: 'AEAD_AES_256_CBC_HMAC_SHA_512-Random' });
+            } catch (error) {
+                throw new Error(`The local master key in '${name}' cannot decrypt the existing data key '${dek.keyAltNames?.[0] || dek._id}'. Restore the original key instead of generating a new one.`);
+            }
+        }
+
+        await meta.updateOne(
+            { _id: 'kozen.master-key.local' },
+            { $setOnInsert: { provider: 'local', fingerprint, createdAt: new Date() } },
+            { upsert: true }
+        );
+    }
+
+    /**
+     * Generates a new local master key and writes it to a file readable only by the owner.
+     * @public
+     * @param {string} file - Destination file path.
+     * @param {boolean} [force] - Overwrites an existing file when true.
+     * @returns {Promise<string>} Promise resolving to the absolute path of the written file.
+     * @throws {Error} When the file already exists and force is not set, or when it cannot be written.
+     */
+    public async initMasterKey(file: string, force?: boolean): Promise<string> {
+        const target = path.resolve(file);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true, mode: 0o700 });
+        await fs.promises.writeFile(target, this.getLocalKey() + '\n', { mode: 0o600, flag: force ? 'w' : 'wx' });
+        // the mode only applies on creation, enforce it when overwriting
+        await fs.promises.chmod(target, 0o600);
+        return target;
     }
 
     /**
@@ -260,7 +1828,6 @@ export class SecretManagerMDB extends SecretManager {
      * @returns {string} Base64-encoded random master key for local encryption
      */
     protected getLocalKey() {
-        const crypto = require('crypto');
         // Generate a 96-byte random key
         const localMasterKey = crypto.randomBytes(96);
         // Encode the key in Base64 format
@@ -274,9 +1841,18 @@ export class SecretManagerMDB extends SecretManager {
      * @returns {ClientEncryptionOptions} The encryption configuration options.
      */
     protected getOptions(options?: ISecretManagerOptions): ClientEncryptionOptions {
+        const kmip = (options || this.options)?.mdb?.kms?.kmip;
+        const tlsCertificateKeyFilePassword = kmip?.tlsCertificateKeyFilePassword && process.env[kmip.tlsCertificateKeyFilePassword];
         return {
             kmsProviders: this.getKmsProviders(options),
-            keyVaultNamespace: this.getkeyVaultNamespace(options)
+            keyVaultNamespace: this.getkeyVaultNamespace(options),
+            tlsOptions: kmip?.tlsCAFile || kmip?.tlsCertificateKeyFile ? {
+                kmip: {
+                    tlsCAFile: kmip.tlsCAFile,
+                    tlsCertificateKeyFile: kmip.tlsCertificateKeyFile,
+                    tlsCertificateKeyFilePassword
+                }
+            } : undefined
         };
     }
 
@@ -294,4 +1870,9 @@ export class SecretManagerMDB extends SecretManager {
     }
 }
 
+/**
+ * Attempts of a save whose version was taken by a concurrent save
+ */
+const SAVE_ATTEMPTS = 5;
+
 export default SecretManagerMDB;
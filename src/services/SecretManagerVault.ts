@@ -0,0 +1,497 @@
+/**
+ * @fileoverview Vault Secret Manager Service - HashiCorp Vault KV v2 Implementation
+ * HashiCorp Vault implementation of the secret management bridge over the KV v2 HTTP API.
+ * Keys address the secret path, an optional 'path#jsonPath' selector reads a field of the secret data map.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import { Binary } from "mongodb";
+import { ISecretBatchResult, ISecretEntry, ISecretFilter, ISecretManagerOptions, ISecretMetadata, ISecretSaveResult, SecretValue } from "../models/Secret";
+import { ISecretWatcher, SecretWatchCallback } from "../models/SecretWatch";
+import SecretManager from "./SecretManager";
+import { VCategory } from "@kozen/engine";
+
+/**
+ * Reply of the AppRole login endpoint, only the fields read by the backend
+ * @interface IVaultLoginResponse
+ */
+interface IVaultLoginResponse {
+    /**
+     * Token issued by the login and its lease in seconds, 0 when it does not expire
+     */
+    auth?: {
+        client_token?: string;
+        lease_duration?: number;
+    };
+
+    /**
+     * Error messages of a failed login
+     */
+    errors?: string[];
+}
+
+/**
+ * @class SecretManagerVault
+ * @extends SecretManager
+ * HashiCorp Vault KV v2 implementation with token and AppRole authentication
+ */
+export class SecretManagerVault extends SecretManager {
+
+    /**
+     * AppRole tokens obtained by login, by server and role
+     * @private
+     * @type {Map<string, { token: string, expiresAt: number }>}
+     */
+    private tokens: Map<string, { token: string, expiresAt: number }> = new Map();
+
+    /**
+     * Resolves a secret value from Vault, a single field when the key carries a '#jsonPath' selector
+     * Secret paths live under the 'namespace/environment/' prefix of the scope
+     * @public
+     * @param {string} key - The secret path, optionally followed by '#jsonPath'
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including version or stage selectors
+     * @returns {Promise<SecretValue>} Promise resolving to the secret value or null if not found
+     * @throws {Error} When the Vault request fails
+     */
+    public async resolve(key: string, options?: ISecretManagerOptions): Promise<SecretValue> {
+        try {
+            options = options || this.options;
+            const { name, path: field } = this.codec.parseKey(key);
+            const path = this.getScopedKey(name, options);
+            const version = await this.getVersion(path, options);
+            if (version === null) {
+                return null;
+            }
+            const query = version !== undefined ? `?version=${encodeURIComponent(String(version))}` : '';
+            const response = await this.request('GET', `${this.getMount(options)}/data/${this.encodePath(path)}${query}`, options);
+            const data = response?.data?.data;
+            if (!data) {
+                return null;
+            }
+            if (field) {
+                return this.codec.decode(data, { path: field, encoding: options.encoding });
+            }
+            const value = options.vault?.field || 'value';
+            return this.codec.decode(value in data ? data[value] : data, { encoding: options.encoding });
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Vault:resolve',
+                message: `Failed to retrieve secret '${key}' from Vault. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Saves a secret value as a new Vault version
+     * Objects replace the whole data map, plain values are written to the configured field,
+     * a '#field' suffix updates that single field and keeps the other ones
+     * @public
+     * @param {string} key - The secret path, optionally followed by '#field'
+     * @param {string | Binary | Record<string, any>} value - The secret value to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the secret is successfully saved
+     * @throws {Error} When the Vault request fails
+     */
+    public async save(key: string, value: string | Binary | Record<string, any>, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            const { name, path: field } = this.codec.parseKey(key);
+            const path = this.getScopedKey(name, options);
+            const content = value instanceof Binary ? Buffer.from(value.value()).toString('base64') : value;
+            const body: { data: Record<string, any>, options?: { cas: number } } = { data: {} };
+            if (field) {
+                const current = await this.request('GET', `${this.getMount(options)}/data/${this.encodePath(path)}`, options);
+                body.data = { ...current?.data?.data, [field]: content };
+                body.options = { cas: current?.data?.metadata?.version ?? 0 };
+            } else {
+                body.data = typeof content === 'object' ? content : { [options.vault?.field || 'value']: content };
+            }
+            await this.request('POST', `${this.getMount(options)}/data/${this.encodePath(path)}`, options, body);
+            return true;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Vault:save',
+                message: `Failed to store secret '${key}' in Vault. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Resolves several secrets, the KV v2 API has no batch read so the requests run concurrently
+     * @public
+     * @param {string[]} keys - The secret paths, optionally followed by '#jsonPath'
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including version or stage selectors
+     * @returns {Promise<ISecretBatchResult[]>} Promise resolving to one result per key
+     */
+    public async resolveMany(keys: string[], options?: ISecretManagerOptions): Promise<ISecretBatchResult[]> {
+        return await this.resolveEach(keys, options || this.options);
+    }
+
+    /**
+     * Saves several secrets, the KV v2 API has no batch write so each one is a separate request
+     * @public
+     * @param {ISecretEntry[]} entries - The secret entries to store
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretSaveResult[]>} Promise resolving to one result per entry
+     */
+    public async saveMany(entries: ISecretEntry[], options?: ISecretManagerOptions): Promise<ISecretSaveResult[]> {
+        return await this.saveEach(entries, options || this.options);
+    }
+
+    /**
+     * Deletes a secret with all of its versions and metadata from Vault
+     * @public
+     * @param {string} key - The secret path
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the secret existed and was deleted
+     * @throws {Error} When the Vault request fails
+     */
+    public async delete(key: string, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            const { name } = this.codec.parseKey(key);
+            const path = this.getScopedKey(name, options);
+            const metadata = await this.request('GET', `${this.getMount(options)}/metadata/${this.encodePath(path)}`, options);
+            if (!metadata) {
+                return false;
+            }
+            await this.request('DELETE', `${this.getMount(options)}/metadata/${this.encodePath(path)}`, options);
+            return true;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Vault:delete',
+                message: `Failed to delete secret '${key}' from Vault. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists secret metadata from Vault, walking the folders below the prefix
+     * Only the secrets of the scope are listed, their keys without the scope prefix
+     * @public
+     * @param {ISecretFilter} [filter] - Optional prefix and limit filter
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the secret metadata list
+     * @throws {Error} When the Vault request fails
+     */
+    public async list(filter?: ISecretFilter, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        try {
+            options = options || this.options;
+            const prefix = this.getScopedKey(filter?.prefix || '', options);
+            const folders = [prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/') + 1) : ''];
+            const result: ISecretMetadata[] = [];
+            while (folders.length && (!filter?.limit || result.length < filter.limit)) {
+                const folder = folders.shift()!;
+                const response = await this.request('LIST', `${this.getMount(options)}/metadata/${this.encodePath(folder)}`, options);
+                for (const name of (response?.data?.keys || []) as string[]) {
+                    const path = folder + name;
+                    if (!path.startsWith(prefix) && !prefix.startsWith(path)) {
+                        continue;
+                    }
+                    if (name.endsWith('/')) {
+                        folders.push(path);
+                    } else if (path.startsWith(prefix)) {
+                        result.push({ key: this.getUnscopedKey(path, options), type: 'vault' });
+                    }
+                }
+            }
+            result.sort((a, b) => a.key.localeCompare(b.key));
+            return filter?.limit ? result.slice(0, filter.limit) : result;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Vault:list',
+                message: `Failed to list secrets from Vault. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Describes a secret from Vault, excluding its value
+     * @public
+     * @param {string} key - The secret path
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata | null>} Promise resolving to the secret metadata or null if not found
+     * @throws {Error} When the Vault request fails
+     */
+    public async describe(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata | null> {
+        try {
+            options = options || this.options;
+            const { name } = this.codec.parseKey(key);
+            const path = this.getScopedKey(name, options);
+            const response = await this.request('GET', `${this.getMount(options)}/metadata/${this.encodePath(path)}`, options);
+            const metadata = response?.data;
+            if (!metadata) {
+                return null;
+            }
+            return {
+                key: name,
+                type: 'vault',
+                encrypted: true,
+                description: metadata.custom_metadata?.description,
+                tags: metadata.custom_metadata || undefined,
+                version: metadata.current_version,
+                stage: 'current',
+                createdAt: metadata.created_time ? new Date(metadata.created_time) : undefined,
+                updatedAt: metadata.updated_time ? new Date(metadata.updated_time) : undefined
+            };
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Vault:describe',
+                message: `Failed to describe secret '${key}' from Vault. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the readable versions of a secret, newest first, excluding values
+     * @public
+     * @param {string} key - The secret path
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<ISecretMetadata[]>} Promise resolving to the version metadata list
+     * @throws {Error} When the Vault request fails
+     */
+    public async history(key: string, options?: ISecretManagerOptions): Promise<ISecretMetadata[]> {
+        try {
+            options = options || this.options;
+            const { name } = this.codec.parseKey(key);
+            const path = this.getScopedKey(name, options);
+            const response = await this.request('GET', `${this.getMount(options)}/metadata/${this.encodePath(path)}`, options);
+            const metadata = response?.data;
+            if (!metadata) {
+                return [];
+            }
+            const previous = this.getPrevious(metadata);
+            return Object.entries(metadata.versions || {})
+                .filter(([, item]: [string, any]) => !item.destroyed && !item.deletion_time)
+                .map(([version, item]: [string, any]) => ({
+                    key: name,
+                    type: 'vault',
+                    encrypted: true,
+                    version: Number(version),
+                    stage: Number(version) === metadata.current_version ? 'current' : Number(version) === previous ? 'previous' : undefined,
+                    createdAt: new Date(item.created_time)
+                }))
+                .sort((a, b) => b.version - a.version);
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Vault:history',
+                message: `Failed to retrieve the history of secret '${key}' from Vault. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Restores a previous version by writing its data as a new current version, the same way 'vault kv rollback' does
+     * @public
+     * @param {string} key - The secret path
+     * @param {string | number} version - The version number to restore
+     * @param {ISecretManagerOptions} [options] - Optional configuration override
+     * @returns {Promise<boolean>} Promise resolving to true if the version was restored, false if it cannot be read
+     * @throws {Error} When the Vault request fails
+     */
+    public async rollback(key: string, version: string | number, options?: ISecretManagerOptions): Promise<boolean> {
+        try {
+            options = options || this.options;
+            const { name } = this.codec.parseKey(key);
+            const path = this.getScopedKey(name, options);
+            const target = this.encodePath(path);
+            const response = await this.request('GET', `${this.getMount(options)}/data/${target}?version=${encodeURIComponent(String(version))}`, options);
+            if (!response?.data?.data) {
+                return false;
+            }
+            const metadata = await this.request('GET', `${this.getMount(options)}/metadata/${target}`, options);
+            await this.request('POST', `${this.getMount(options)}/data/${target}`, options, {
+                data: response.data.data,
+                options: { cas: metadata?.data?.current_version ?? 0 }
+            });
+            return true;
+        } catch (error) {
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Vault:rollback',
+                message: `Failed to roll back secret '${key}' to version '${version}' in Vault. ${(error as Error).message}`
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Notifies the changes of a secret or of a prefix, the KV v2 API has no change notifications, the secrets are polled
+     * @public
+     * @param {string} pattern - The secret key, a trailing '*' watches a prefix
+     * @param {SecretWatchCallback} callback - Receives the changes one at a time
+     * @param {ISecretManagerOptions} [options] - Optional configuration override, including the polling interval
+     * @returns {Promise<ISecretWatcher>} Promise resolving to the handle stopping the polling
+     */
+    public async watch(pattern: string, callback: SecretWatchCallback, options?: ISecretManagerOptions): Promise<ISecretWatcher> {
+        return await this.poll(pattern, callback, options || this.options);
+    }
+
+    /**
+     * Maps the version and stage selectors onto a Vault version number
+     * @protected
+     * @param {string} path - The secret path
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {Promise<string | number | null | undefined>} The version to read, undefined for the latest one, null when the stage has no version
+     */
+    protected async getVersion(path: string, options: ISecretManagerOptions): Promise<string | number | null | undefined> {
+        if (options.version !== undefined && options.version !== null) {
+            return options.version;
+        }
+        if (!options.stage || options.stage.toLowerCase() === 'current') {
+            return undefined;
+        }
+        if (options.stage.toLowerCase() !== 'previous') {
+            throw new Error(`Vault does not support the '${options.stage}' stage, use current, previous or a version number.`);
+        }
+        const metadata = await this.request('GET', `${this.getMount(options)}/metadata/${this.encodePath(path)}`, options);
+        return metadata?.data ? this.getPrevious(metadata.data) : null;
+    }
+
+    /**
+     * Finds the newest readable version older than the current one
+     * @protected
+     * @param {any} metadata - The KV v2 metadata of the secret
+     * @returns {number | null} The previous version number or null if there is none
+     */
+    protected getPrevious(metadata: any): number | null {
+        const versions = Object.entries(metadata.versions || {})
+            .filter(([version, item]: [string, any]) => Number(version) < metadata.current_version && !item.destroyed && !item.deletion_time)
+            .map(([version]) => Number(version));
+        return versions.length ? Math.max(...versions) : null;
+    }
+
+    /**
+     * Retrieves the KV v2 mount path without surrounding slashes
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {string} The mount path
+     */
+    protected getMount(options: ISecretManagerOptions): string {
+        return (options.vault?.mount || 'secret').replace(/^\/+|\/+$/g, '');
+    }
+
+    /**
+     * Encodes every segment of a secret path, keeping the separators
+     * @protected
+     * @param {string} path - The secret path
+     * @returns {string} The URL encoded path
+     */
+    protected encodePath(path: string): string {
+        return path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+    }
+
+    /**
+     * Retrieves the Vault server base URL
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {string} The base URL without trailing slash
+     */
+    protected getUrl(options: ISecretManagerOptions): string {
+        return (options.vault?.url || process.env.VAULT_ADDR || 'http://127.0.0.1:8200').replace(/\/+$/, '');
+    }
+
+    /**
+     * Sends a request to the Vault HTTP API
+     * @protected
+     * @param {string} method - HTTP method, including the Vault LIST verb
+     * @param {string} path - API path below /v1
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @param {any} [body] - Optional JSON body
+     * @returns {Promise<any>} Promise resolving to the response body, null when the resource does not exist
+     * @throws {Error} When Vault answers with an error status
+     */
+    protected async request(method: string, path: string, options: ISecretManagerOptions, body?: any): Promise<any> {
+        const headers: Record<string, string> = {
+            'X-Vault-Token': await this.getToken(options),
+            'Content-Type': 'application/json'
+        };
+        const namespace = options.vault?.namespace || process.env.VAULT_NAMESPACE;
+        namespace && (headers['X-Vault-Namespace'] = namespace);
+
+        const response = await fetch(`${this.getUrl(options)}/v1/${path}`, {
+            method,
+            headers,
+            body: body !== undefined ? JSON.stringify(body) : undefined
+        });
+        if (response.status === 404) {
+            return null;
+        }
+        const text = await response.text();
+        const content = text ? JSON.parse(text) : {};
+        if (!response.ok) {
+            throw new Error(`Vault ${method} ${path} failed with status ${response.status}: ${(content.errors || []).join(', ') || response.statusText}`);
+        }
+        return content;
+    }
+
+    /**
+     * Retrieves the Vault token from its environment variable, or logs in with AppRole and caches the token until it expires
+     * @protected
+     * @param {ISecretManagerOptions} options - Configuration options
+     * @returns {Promise<string>} Promise resolving to the client token
+     * @throws {Error} When neither a token nor AppRole credentials are configured, or the login fails
+     */
+    protected async getToken(options: ISecretManagerOptions): Promise<string> {
+        const tokenName = options.vault?.token || 'VAULT_TOKEN';
+        const token = process.env[tokenName];
+        if (token) {
+            return token;
+        }
+
+        const roleIdName = options.vault?.roleId || 'VAULT_ROLE_ID';
+        const secretIdName = options.vault?.secretId || 'VAULT_SECRET_ID';
+        const roleId = process.env[roleIdName];
+        const secretId = process.env[secretIdName];
+        if (!roleId || !secretId) {
+            throw new Error(`Vault authentication is not configured: set '${tokenName}', or '${roleIdName}' and '${secretIdName}' for AppRole.`);
+        }
+
+        const approle = (options.vault?.approle || 'approle').replace(/^\/+|\/+$/g, '');
+        const cacheKey = `${this.getUrl(options)}|${options.vault?.namespace || ''}|${approle}|${roleId}`;
+        const cached = this.tokens.get(cacheKey);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.token;
+        }
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const namespace = options.vault?.namespace || process.env.VAULT_NAMESPACE;
+        namespace && (headers['X-Vault-Namespace'] = namespace);
+        const response = await fetch(`${this.getUrl(options)}/v1/auth/${approle}/login`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ role_id: roleId, secret_id: secretId })
+        });
+        const content = await response.json().catch(() => ({})) as IVaultLoginResponse;
+        if (!response.ok || !content?.auth?.client_token) {
+            throw new Error(`Vault AppRole login failed with status ${response.status}: ${(content?.errors || []).join(', ') || response.statusText}`);
+        }
+        // Renew a little before the lease ends so in-flight requests do not race the expiry
+        const lease = Number(content.auth.lease_duration) || 0;
+        const expiresAt = lease ? Date.now() + Math.max(lease - 30, lease / 2) * 1000 : Number.MAX_SAFE_INTEGER;
+        this.tokens.set(cacheKey, { token: content.auth.client_token, expiresAt });
+        return content.auth.client_token;
+    }
+}
+
+export default SecretManagerVault;
@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SecretPolicy } from "./SecretPolicy";
+
+describe('SecretPolicy', () => {
+
+    it('parses every clause of a text rule', () => {
+        const policy = new SecretPolicy();
+        assert.deepEqual(policy.parse('ALLOW Read,List prod/* for role deployer,admin for actor ci-* via CLI in flow release'), {
+            id: 'ALLOW Read,List prod/* for role deployer,admin for actor ci-* via CLI in flow release',
+            effect: 'allow',
+            actions: ['read', 'list'],
+            keys: ['prod/*'],
+            roles: ['deployer', 'admin'],
+            actors: ['ci-*'],
+            sources: ['cli'],
+            flows: ['release']
+        });
+        assert.deepEqual(policy.parse('  deny * *  '), { id: 'deny * *', effect: 'deny', actions: ['*'], keys: ['*'], sources: undefined });
+    });
+
+    it('rejects malformed rules', () => {
+        const policy = new SecretPolicy();
+        assert.throws(() => policy.parse('permit read prod/*'), /expected '<allow\|deny> <actions> <keys>/);
+        assert.throws(() => policy.parse('allow read'), /expected '<allow\|deny> <actions> <keys>/);
+        assert.throws(() => policy.parse('allow read prod/* for team ops'), /unexpected 'for'/);
+        assert.throws(() => policy.parse('allow read prod/* via'), /unexpected 'via'/);
+    });
+
+    it('allows everything while disabled', async () => {
+        const policy = new SecretPolicy({ rules: ['deny * *'] });
+        assert.deepEqual(await policy.evaluate({ action: 'read', key: 'prod/db' }), { allowed: true, rule: 'disabled' });
+    });
+
+    it('lets a matching denial override an allowance and falls back to the default', async () => {
+        const policy = new SecretPolicy({
+            enabled: true,
+            default: 'deny',
+            rules: [
+                'allow read,list prod/* for role deployer',
+                'deny read prod/root-* via cli',
+                { effect: 'Allow', actions: ['Write'], keys: ['dev/*'], actors: ['ci-*'] }
+            ]
+        });
+
+        assert.deepEqual(await policy.evaluate({ action: 'read', key: 'prod/db', roles: ['deployer'] }), { allowed: true, rule: 'allow read,list prod/* for role deployer' });
+        assert.deepEqual(await policy.evaluate({ action: 'read', key: 'prod/root-pass', roles: ['deployer'], source: 'CLI' }), { allowed: false, rule: 'deny read prod/root-* via cli' });
+        assert.equal((await policy.evaluate({ action: 'read', key: 'prod/root-pass', roles: ['deployer'] })).allowed, true);
+        assert.deepEqual(await policy.evaluate({ action: 'write', key: 'dev/api', actor: 'ci-build' }), { allowed: true, rule: 'allow write dev/* for actor ci-*' });
+        assert.deepEqual(await policy.evaluate({ action: 'write', key: 'dev/api' }), { allowed: false, rule: 'default' });
+        assert.deepEqual(await policy.evaluate({ action: 'read', key: 'prod.db', roles: ['deployer'] }), { allowed: false, rule: 'default' });
+    });
+
+    it('loads the rules of a policy file after the configured ones', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kozen-policy-'));
+        try {
+            const file = path.join(dir, 'policy.json');
+            fs.writeFileSync(file, JSON.stringify({ rules: ['deny delete *'] }));
+            const policy = new SecretPolicy({ enabled: true, rules: ['allow * *'], file });
+
+            assert.deepEqual(await policy.evaluate({ action: 'delete', key: 'any' }), { allowed: false, rule: 'deny delete *' });
+            assert.equal((await policy.evaluate({ action: 'read', key: 'any' })).allowed, true);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
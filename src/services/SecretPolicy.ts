@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Secret Policy - Access control per key pattern and caller
+ * Evaluates allow and deny rules on the operation, the key, the caller roles and identity, the entry point and the flow.
+ * Rules are written as objects or as text: '<allow|deny> <actions> <keys> [for role <roles>] [for actor <actors>] [via <sources>] [in flow <flows>]'.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import fs from "fs";
+import path from "path";
+import { IPolicyOptions, ISecretAccessRequest, ISecretPolicy, ISecretPolicyDecision, ISecretPolicyRule } from "../models/SecretPolicy";
+import { BaseService, IIoC, ILogger } from "@kozen/engine";
+
+/**
+ * @class SecretPolicy
+ * @extends BaseService
+ * Access policy of the secret operations, explicit denials override allowances and the default applies when no rule matches
+ */
+export class SecretPolicy extends BaseService implements ISecretPolicy {
+
+    /**
+     * Policy configuration options
+     * @public
+     * @type {IPolicyOptions}
+     */
+    public options: IPolicyOptions;
+
+    /**
+     * Parsed rules of the configuration and of the policy file, loaded on first use
+     * @private
+     * @type {Promise<ISecretPolicyRule[]> | null}
+     */
+    private rules: Promise<ISecretPolicyRule[]> | null = null;
+
+    /**
+     * Creates a new SecretPolicy instance
+     * @constructor
+     * @param {IPolicyOptions} [options] - Optional policy configuration
+     */
+    constructor(options?: IPolicyOptions, dep?: { assistant: IIoC, logger: ILogger }) {
+        super(dep);
+        this.options = options || {};
+    }
+
+    /**
+     * Decides whether an operation may proceed, every operation is allowed while the policy is disabled
+     * @public
+     * @param {ISecretAccessRequest} request - The operation and its caller
+     * @returns {Promise<ISecretPolicyDecision>} Promise resolving to the decision and the deciding rule
+     * @throws {Error} When the policy file or a rule is invalid
+     */
+    public async evaluate(request: ISecretAccessRequest): Promise<ISecretPolicyDecision> {
+        if (!this.options.enabled) {
+            return { allowed: true, rule: 'disabled' };
+        }
+        const matched = (await this.getRules()).filter(rule => this.matches(rule, request));
+        const rule = matched.find(item => item.effect === 'deny') || matched.find(item => item.effect === 'allow');
+        if (rule) {
+            return { allowed: rule.effect === 'allow', rule: rule.id || this.format(rule) };
+        }
+        return { allowed: (this.options.default || 'allow').toLowerCase() !== 'deny', rule: 'default' };
+    }
+
+    /**
+     * Parses a text rule, e.g. 'allow read,list prod/* for role deployer via cli'
+     * @public
+     * @param {string} text - The rule text
+     * @returns {ISecretPolicyRule} The rule
+     * @throws {Error} When the rule is malformed
+     */
+    public parse(text: string): ISecretPolicyRule {
+        const tokens = text.trim().split(/\s+/);
+        const [effect, actions, keys] = tokens;
+        if (!['allow', 'deny'].includes((effect || '').toLowerCase()) || !actions || !keys) {
+            throw new Error(`Invalid policy rule '${text}', expected '<allow|deny> <actions> <keys> [for role <roles>] [for actor <actors>] [via <sources>] [in flow <flows>]'.`);
+        }
+        const rule: ISecretPolicyRule = { id: text.trim(), effect: effect.toLowerCase(), actions: this.split(actions), keys: this.split(keys) };
+        for (let i = 3; i < tokens.length; i++) {
+            const clause = tokens.slice(i, i + 2).join(' ').toLowerCase();
+            if (/^for (role|roles)$/.test(clause) && tokens[i + 2]) {
+                rule.roles = this.split(tokens[i + 2]);
+                i += 2;
+            } else if (/^for (actor|actors)$/.test(clause) && tokens[i + 2]) {
+                rule.actors = this.split(tokens[i + 2]);
+                i += 2;
+            } else if (/^in (flow|flows)$/.test(clause) && tokens[i + 2]) {
+                rule.flows = this.split(tokens[i + 2]);
+                i += 2;
+            } else if (tokens[i].toLowerCase() === 'via' && tokens[i + 1]) {
+                rule.sources = this.split(tokens[i + 1]);
+                i += 1;
+            } else {
+                throw new Error(`Invalid policy rule '${text}': unexpected '${tokens[i]}'.`);
+            }
+        }
+        return this.normalize(rule);
+    }
+
+    /**
+     * Retrieves the rules of the configuration followed by the ones of the policy file
+     * @protected
+     * @returns {Promise<ISecretPolicyRule[]>} Promise resolving to the normalized rules
+     */
+    protected getRules(): Promise<ISecretPolicyRule[]> {
+        this.rules = this.rules || (async () => {
+            const rules = [...(this.options.rules || [])];
+            if (this.options.file) {
+                const content = JSON.parse(await fs.promises.readFile(path.resolve(this.options.file), 'utf-8'));
+                rules.push(...(Array.isArray(content) ? content : content?.rules || []));
+            }
+            return rules.map(rule => this.normalize(rule));
+        })();
+        // a failed load is retried on the next evaluation
+        this.rules.catch(() => this.rules = null);
+        return this.rules;
+    }
+
+    /**
+     * Normalizes a rule of the configuration
+     * @protected
+     * @param {ISecretPolicyRule | string} rule - The rule object or text
+     * @returns {ISecretPolicyRule} The rule with lower case effect, actions and sources
+     * @throws {Error} When the rule is malformed
+     */
+    protected normalize(rule: ISecretPolicyRule | string): ISecretPolicyRule {
+        if (typeof rule === 'string') {
+            return this.parse(rule);
+        }
+        const effect = (rule.effect || '').toLowerCase();
+        if (!['allow', 'deny'].includes(effect) || !rule.actions?.length || !rule.keys?.length) {
+            throw new Error(`Invalid policy rule ${JSON.stringify(rule)}: effect, actions and keys are required.`);
+        }
+        return {
+            ...rule,
+            effect,
+            actions: rule.actions.map(item => item.toLowerCase()),
+            sources: rule.sources?.map(item => item.toLowerCase())
+        };
+    }
+
+    /**
+     * Checks whether a rule applies to an operation
+     * @protected
+     * @param {ISecretPolicyRule} rule - The rule
+     * @param {ISecretAccessRequest} request - The operation and its caller
+     * @returns {boolean} True if every condition of the rule matches
+     */
+    protected matches(rule: ISecretPolicyRule, request: ISecretAccessRequest): boolean {
+        return (rule.actions.includes('*') || rule.actions.includes(request.action))
+            && this.match(rule.keys, request.key)
+            && (!rule.roles?.length || rule.roles.some(role => (request.roles || []).includes(role)))
+            && (!rule.actors?.length || this.match(rule.actors, request.actor))
+            && (!rule.sources?.length || rule.sources.includes((request.source || 'api').toLowerCase()))
+            && (!rule.flows?.length || this.match(rule.flows, request.flow));
+    }
+
+    /**
+     * Matches a value against patterns where '*' stands for any characters
+     * @protected
+     * @param {string[]} patterns - The patterns
+     * @param {string} [value] - The value, a missing value only matches '*'
+     * @returns {boolean} True if a pattern matches
+     */
+    protected match(patterns: string[], value?: string): boolean {
+        return patterns.some(pattern => pattern === '*' || (value !== undefined && new RegExp(`^${pattern.split('*').map(item => item.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`).test(value)));
+    }
+
+    /**
+     * Writes a rule object as text for the logs
+     * @protected
+     * @param {ISecretPolicyRule} rule - The rule
+     * @returns {string} The rule text
+     */
+    protected format(rule: ISecretPolicyRule): string {
+        return [
+            rule.effect,
+            rule.actions.join(','),
+            rule.keys.join(','),
+            rule.roles?.length ? `for role ${rule.roles.join(',')}` : '',
+            rule.actors?.length ? `for actor ${rule.actors.join(',')}` : '',
+            rule.sources?.length ? `via ${rule.sources.join(',')}` : '',
+            rule.flows?.length ? `in flow ${rule.flows.join(',')}` : ''
+        ].filter(Boolean).join(' ');
+    }
+
+    /**
+     * Splits a comma separated list
+     * @protected
+     * @param {string} value - The list
+     * @returns {string[]} The items
+     */
+    protected split(value: string): string[] {
+        return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+}
+
+export default SecretPolicy;
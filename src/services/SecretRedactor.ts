@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Secret Redactor - Masks secret values in logs and outputs
+ * Remembers the values resolved or saved through the module and replaces them in any log payload.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import { IRedactOptions } from "../models/RedactOptions";
+import { SecretValue } from "../models/Secret";
+import { ILogger } from "@kozen/engine";
+
+/**
+ * @class SecretRedactor
+ * Bounded registry of known secret values with payload masking
+ */
+export class SecretRedactor {
+
+    /**
+     * Redaction configuration options
+     * @public
+     * @type {IRedactOptions}
+     */
+    public options: IRedactOptions;
+
+    /**
+     * Known secret values in insertion order
+     * @private
+     * @type {Set<string>}
+     */
+    private values: Set<string> = new Set();
+
+    /**
+     * Pattern matching every known value, rebuilt on the next use after a change
+     * @private
+     * @type {RegExp | null}
+     */
+    private pattern: RegExp | null = null;
+
+    /**
+     * Creates a new SecretRedactor instance
+     * @constructor
+     * @param {IRedactOptions} [options] - Optional redaction configuration
+     */
+    constructor(options?: IRedactOptions) {
+        this.options = options || {};
+    }
+
+    /**
+     * Remembers a secret value, documents contribute each of their string fields as well
+     * @public
+     * @param {SecretValue} value - The secret value
+     */
+    public add(value: SecretValue): void {
+        if (value === null || value === undefined || typeof value === 'boolean' || typeof value === 'number') {
+            return;
+        }
+        if (Buffer.isBuffer(value)) {
+            this.remember(value.toString('base64'));
+            return;
+        }
+        if (typeof value === 'object') {
+            const binary = value as { _bsontype?: string, buffer?: Uint8Array };
+            if (binary._bsontype === 'Binary' && binary.buffer) {
+                this.remember(Buffer.from(binary.buffer).toString('base64'));
+                return;
+            }
+            this.remember(JSON.stringify(value));
+            Object.values(value).forEach(item => this.add(item));
+            return;
+        }
+        this.remember(value);
+        // JSON text is also matched field by field
+        if (/^\s*[[{]/.test(value)) {
+            try {
+                const document = JSON.parse(value);
+                document && typeof document === 'object' && Object.values(document).forEach(item => this.add(item as SecretValue));
+            } catch {
+                // not a JSON document
+            }
+        }
+    }
+
+    /**
+     * Builds a copy of a payload with the known secret values masked, strings of nested objects and arrays included
+     * @public
+     * @param {T} payload - The payload, e.g. a log entry
+     * @returns {T} The masked copy
+     */
+    public redact<T>(payload: T): T {
+        return this.values.size ? this.walk(payload, new WeakSet()) : payload;
+    }
+
+    /**
+     * Masks a value entirely, regardless of the known values
+     * @public
+     * @param {SecretValue} value - The value to mask
+     * @returns {string | null} The mask, null when there is no value
+     */
+    public mask(value: SecretValue): string | null {
+        return value === null || value === undefined || value === '' ? null : this.options.mask ?? '********';
+    }
+
+    /**
+     * Wraps a logger so every entry it receives is redacted first
+     * @public
+     * @param {ILogger | null} [logger] - The logger to wrap
+     * @returns {ILogger | null | undefined} The redacting logger
+     */
+    public wrap(logger?: ILogger | null): ILogger | null | undefined {
+        if (!logger || (logger as unknown as Record<symbol, unknown>)[REDACTED]) {
+            return logger;
+        }
+        return new Proxy(logger, {
+            get: (target, property, receiver) => {
+                if (property === REDACTED) {
+                    return true;
+                }
+                const member = Reflect.get(target, property, receiver);
+                return typeof member === 'function' && LEVELS.includes(property as string)
+                    ? (...args: any[]) => member.apply(target, args.map(arg => this.redact(arg)))
+                    : member;
+            }
+        });
+    }
+
+    /**
+     * Forgets every known value
+     * @public
+     */
+    public clear(): void {
+        this.values.clear();
+        this.pattern = null;
+    }
+
+    /**
+     * Stores a value, evicting the oldest ones beyond the size bound
+     * @protected
+     * @param {string} value - The secret text
+     */
+    protected remember(value: string): void {
+        if (value.length < (this.options.minLength ?? 4)) {
+            return;
+        }
+        this.values.delete(value);
+        this.values.add(value);
+        while (this.values.size > Math.max(this.options.size ?? 1000, 1)) {
+            this.values.delete(this.values.values().next().value!);
+        }
+        this.pattern = null;
+    }
+
+    /**
+     * Masks the known values of a payload
+     * @protected
+     * @param {any} payload - The payload
+     * @param {WeakSet<object>} seen - Objects already visited, circular references are replaced
+     * @returns {any} The masked copy
+     */
+    protected walk(payload: any, seen: WeakSet<object>): any {
+        if (typeof payload === 'string') {
+            return payload.replace(this.getPattern(), this.options.mask ?? '********');
+        }
+        if (!payload || typeof payload !== 'object') {
+            return payload;
+        }
+        if (seen.has(payload)) {
+            return '[Circular]';
+        }
+        seen.add(payload);
+        if (Array.isArray(payload)) {
+            return payload.map(item => this.walk(item, seen));
+        }
+        if (payload instanceof Error) {
+            const error = new Error(this.walk(payload.message, seen));
+            error.name = payload.name;
+            error.stack = this.walk(payload.stack, seen);
+            return error;
+        }
+        if (Object.getPrototypeOf(payload) !== Object.prototype && Object.getPrototypeOf(payload) !== null) {
+            return payload;
+        }
+        return Object.fromEntries(Object.entries(payload).map(([name, item]) => [name, this.walk(item, seen)]));
+    }
+
+    /**
+     * Retrieves the pattern matching every known value, the longest values first
+     * @protected
+     * @returns {RegExp} The pattern
+     */
+    protected getPattern(): RegExp {
+        this.pattern = this.pattern || new RegExp([...this.values]
+            .sort((a, b) => b.length - a.length)
+            .map(value => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('|'), 'g');
+        return this.pattern;
+    }
+}
+
+/**
+ * Logger methods whose arguments are redacted
+ */
+const LEVELS = ['info', 'warn', 'error', 'debug', 'log', 'trace', 'fatal'];
+
+/**
+ * Marks a logger that is already redacting
+ */
+const REDACTED = Symbol('redacted');
+
+export default SecretRedactor;
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Secret Rotator - Base class of the rotation handlers
+ * Generates the new value of a secret, the subclasses apply and verify it on their target system.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import { IRotatorOptions, ISecretRotationContext, ISecretRotationRule, ISecretRotator } from "../models/SecretRotator";
+import { BaseService, IIoC, ILogger } from "@kozen/engine";
+
+/**
+ * @class SecretRotator
+ * @extends BaseService
+ * Rotation handler without target system, the generated value only has to be stored
+ */
+export abstract class SecretRotator extends BaseService implements ISecretRotator {
+
+    /**
+     * Default handler settings
+     * @public
+     * @type {IRotatorOptions}
+     */
+    public options: IRotatorOptions;
+
+    /**
+     * Creates a new SecretRotator instance
+     * @constructor
+     * @param {IRotatorOptions} [options] - Optional default handler settings
+     */
+    constructor(options?: IRotatorOptions, dep?: { assistant: IIoC, logger: ILogger }) {
+        super(dep);
+        this.options = options || {};
+    }
+
+    /**
+     * Generates the new value, a JSON secret keeps its other fields when the settings name the rotated field
+     * @public
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @returns {Promise<string | Record<string, any>>} Promise resolving to the new value
+     */
+    public async generate(context: ISecretRotationContext): Promise<string | Record<string, any>> {
+        const secret = this.create(context.settings);
+        const { field } = context.settings;
+        if (!field) {
+            return secret;
+        }
+        const current = context.current;
+        const document = current && typeof current === 'object' && !Array.isArray(current) && !Buffer.isBuffer(current) ? current : {};
+        return { ...document, [field]: secret };
+    }
+
+    /**
+     * Applies the new value to the target system, there is none by default
+     * @public
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {string | Record<string, any>} value - The new value
+     * @returns {Promise<void>} Promise resolving when the target system accepts the value
+     */
+    public async apply(context: ISecretRotationContext, value: string | Record<string, any>): Promise<void> {
+        return;
+    }
+
+    /**
+     * Checks that the target system works with the new value, there is none by default
+     * @public
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {string | Record<string, any>} value - The new value
+     * @returns {Promise<boolean>} Promise resolving to true if the value works
+     */
+    public async verify(context: ISecretRotationContext, value: string | Record<string, any>): Promise<boolean> {
+        return true;
+    }
+
+    /**
+     * Restores the former value on the target system, there is none by default
+     * @public
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @returns {Promise<void>} Promise resolving when the former value is restored
+     */
+    public async revert(context: ISecretRotationContext): Promise<void> {
+        return;
+    }
+
+    /**
+     * Creates the generated part of the new value
+     * @protected
+     * @param {ISecretRotationRule} settings - Effective handler settings
+     * @returns {string} The generated text
+     * @throws {Error} When the settings are invalid
+     */
+    protected abstract create(settings: ISecretRotationRule): string;
+
+    /**
+     * Retrieves the generated part of a value, the rotated field of a JSON secret
+     * @protected
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {any} value - The whole value
+     * @returns {string | undefined} The generated text, undefined when the value has none
+     */
+    protected extract(context: ISecretRotationContext, value: any): string | undefined {
+        const { field } = context.settings;
+        const secret = field ? value?.[field] : value;
+        return typeof secret === 'string' ? secret : undefined;
+    }
+}
+
+export default SecretRotator;
@@ -0,0 +1,132 @@
+/**
+ * @fileoverview MongoDB Secret Rotator - MongoDB database user password rotation handler
+ * Changes the password of a database user with updateUser and checks that the user authenticates with it.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import { MongoClient } from "mongodb";
+import { ISecretRotationContext } from "../models/SecretRotator";
+import SecretRotatorPassword from "./SecretRotatorPassword";
+
+/**
+ * @class SecretRotatorMDB
+ * @extends SecretRotatorPassword
+ * MongoDB database user password rotation handler
+ */
+export class SecretRotatorMDB extends SecretRotatorPassword {
+
+    /**
+     * Sets the new password of the database user
+     * @public
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {string | Record<string, any>} value - The new value
+     * @returns {Promise<void>} Promise resolving when the password is changed
+     * @throws {Error} When the user or the password is missing, or updateUser fails
+     */
+    public async apply(context: ISecretRotationContext, value: string | Record<string, any>): Promise<void> {
+        await this.setPassword(context, this.getPassword(context, value));
+    }
+
+    /**
+     * Authenticates as the database user with the new password
+     * @public
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {string | Record<string, any>} value - The new value
+     * @returns {Promise<boolean>} Promise resolving to true if the user authenticates
+     */
+    public async verify(context: ISecretRotationContext, value: string | Record<string, any>): Promise<boolean> {
+        const url = new URL(this.getUri(context));
+        url.username = encodeURIComponent(this.getUser(context));
+        url.password = encodeURIComponent(this.getPassword(context, value));
+        url.searchParams.set('authSource', context.settings.database || 'admin');
+        const client = new MongoClient(url.toString());
+        try {
+            await client.connect();
+            const result = await client.db(context.settings.database || 'admin').command({ ping: 1 });
+            return result?.ok === 1;
+        } catch {
+            return false;
+        } finally {
+            await client.close();
+        }
+    }
+
+    /**
+     * Sets the former password of the database user back
+     * @public
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @returns {Promise<void>} Promise resolving when the former password is restored
+     * @throws {Error} When there is no former password or updateUser fails
+     */
+    public async revert(context: ISecretRotationContext): Promise<void> {
+        await this.setPassword(context, this.getPassword(context, context.current));
+    }
+
+    /**
+     * Runs updateUser with the connection of the configured administrative user
+     * @protected
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {string} password - The password to set
+     * @returns {Promise<void>} Promise resolving when the password is changed
+     */
+    protected async setPassword(context: ISecretRotationContext, password: string): Promise<void> {
+        const client = new MongoClient(this.getUri(context));
+        try {
+            await client.connect();
+            await client.db(context.settings.database || 'admin').command({ updateUser: this.getUser(context), pwd: password });
+        } finally {
+            await client.close();
+        }
+    }
+
+    /**
+     * Retrieves the connection string of the administrative user
+     * @protected
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @returns {string} The connection string
+     * @throws {Error} When the environment variable is unset
+     */
+    protected getUri(context: ISecretRotationContext): string {
+        const name = context.settings.uri || 'MDB_URI';
+        const uri = process.env[name];
+        if (!uri) {
+            throw new Error(`The '${name}' environment variable is required to rotate MongoDB user passwords.`);
+        }
+        return uri;
+    }
+
+    /**
+     * Retrieves the rotated user: the configured one, else the 'username' or 'user' field of a JSON secret
+     * @protected
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @returns {string} The user name
+     * @throws {Error} When the user is unknown
+     */
+    protected getUser(context: ISecretRotationContext): string {
+        const current = context.current as Record<string, any> | null;
+        const user = context.settings.user || current?.username || current?.user;
+        if (!user || typeof user !== 'string') {
+            throw new Error(`No MongoDB user to rotate for secret '${context.key}', set the 'user' rotation setting.`);
+        }
+        return user;
+    }
+
+    /**
+     * Retrieves the password of a value
+     * @protected
+     * @param {ISecretRotationContext} context - The secret being rotated
+     * @param {any} value - The whole value
+     * @returns {string} The password
+     * @throws {Error} When the value holds no password
+     */
+    protected getPassword(context: ISecretRotationContext, value: any): string {
+        const password = this.extract(context, value);
+        if (!password) {
+            throw new Error(`Secret '${context.key}' holds no password${context.settings.field ? ` in field '${context.settings.field}'` : ''}.`);
+        }
+        return password;
+    }
+}
+
+export default SecretRotatorMDB;
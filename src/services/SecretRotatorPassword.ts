@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Password Secret Rotator - Random password rotation handler
+ * Draws passwords uniformly from a configurable charset.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import crypto from "crypto";
+import { ISecretRotationRule } from "../models/SecretRotator";
+import SecretRotator from "./SecretRotator";
+
+/**
+ * @class SecretRotatorPassword
+ * @extends SecretRotator
+ * Random password rotation handler
+ */
+export class SecretRotatorPassword extends SecretRotator {
+
+    /**
+     * Draws a random password, every character of the charset is equally likely
+     * @protected
+     * @param {ISecretRotationRule} settings - Length and charset settings
+     * @returns {string} The password
+     * @throws {Error} When the length or the charset is invalid
+     */
+    protected create(settings: ISecretRotationRule): string {
+        const length = Number(settings.length ?? 32);
+        const charset = [...new Set(settings.charset ?? CHARSET)];
+        if (!Number.isInteger(length) || length < 1) {
+            throw new Error(`Invalid password length '${settings.length}', expected a positive integer.`);
+        }
+        if (charset.length < 2) {
+            throw new Error("The password charset needs at least two distinct characters.");
+        }
+        return Array.from({ length }, () => charset[crypto.randomInt(charset.length)]).join('');
+    }
+}
+
+/**
+ * Default password charset: letters, digits and common symbols
+ */
+const CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!#$%&*+-=?@^_';
+
+export default SecretRotatorPassword;
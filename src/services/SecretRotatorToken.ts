@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Token Secret Rotator - Random token rotation handler
+ * Generates tokens from random bytes in a configurable text encoding.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import crypto from "crypto";
+import { ISecretRotationRule } from "../models/SecretRotator";
+import SecretRotator from "./SecretRotator";
+
+/**
+ * @class SecretRotatorToken
+ * @extends SecretRotator
+ * Random token rotation handler
+ */
+export class SecretRotatorToken extends SecretRotator {
+
+    /**
+     * Generates a random token
+     * @protected
+     * @param {ISecretRotationRule} settings - Length in bytes and encoding settings
+     * @returns {string} The encoded token
+     * @throws {Error} When the length or the encoding is invalid
+     */
+    protected create(settings: ISecretRotationRule): string {
+        const length = Number(settings.length ?? 32);
+        const encoding = (settings.encoding || 'base64url').toLowerCase();
+        if (!Number.isInteger(length) || length < 1) {
+            throw new Error(`Invalid token length '${settings.length}', expected a positive number of bytes.`);
+        }
+        if (!['base64url', 'base64', 'hex'].includes(encoding)) {
+            throw new Error(`Unsupported token encoding '${settings.encoding}', expected base64url, base64 or hex.`);
+        }
+        return crypto.randomBytes(length).toString(encoding as BufferEncoding);
+    }
+}
+
+export default SecretRotatorToken;
@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Secret Serializer - Env-file formats for secret export and import
+ * Converts flat secret maps from and to dotenv, JSON, YAML and shell export formats, and renames keys.
+ * Only flat documents are supported: a secret set is a map of names to values.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import { SecretFormat } from "../models/Secret";
+
+/**
+ * @class SecretSerializer
+ * Parses and writes flat secret maps in env-file formats
+ */
+export class SecretSerializer {
+
+    /**
+     * Resolves the format of a file from its explicit value or its extension, dotenv by default
+     * @public
+     * @param {string} [file] - The file path
+     * @param {string} [format] - The explicit format
+     * @returns {SecretFormat} The file format
+     * @throws {Error} When the explicit format is not supported
+     */
+    public getFormat(file?: string, format?: string): SecretFormat {
+        if (format) {
+            const value = format.toLowerCase() === 'env' ? 'dotenv' : format.toLowerCase() === 'yml' ? 'yaml' : format.toLowerCase();
+            if (!['dotenv', 'json', 'yaml', 'shell'].includes(value)) {
+                throw new Error(`Unsupported format '${format}', use dotenv, json, yaml or shell.`);
+            }
+            return value as SecretFormat;
+        }
+        const extension = (file || '').toLowerCase().split('.').pop();
+        switch (extension) {
+            case 'json':
+                return 'json';
+            case 'yaml':
+            case 'yml':
+                return 'yaml';
+            case 'sh':
+                return 'shell';
+            default:
+                return 'dotenv';
+        }
+    }
+
+    /**
+     * Writes a secret map in the requested format
+     * @public
+     * @param {Record<string, string>} secrets - Secret values by name
+     * @param {SecretFormat} format - The output format
+     * @returns {string} The serialized content
+     * @throws {Error} When a name is not a valid variable name for the dotenv and shell formats
+     */
+    public stringify(secrets: Record<string, string>, format: SecretFormat): string {
+        const names = Object.keys(secrets);
+        if (format === 'json') {
+            return JSON.stringify(secrets, null, 2) + '\n';
+        }
+        if (format === 'yaml') {
+            return names.map(name => `${this.toYamlKey(name)}: ${JSON.stringify(secrets[name])}`).join('\n') + (names.length ? '\n' : '');
+        }
+        const invalid = names.filter(name => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name));
+        if (invalid.length) {
+            throw new Error(`Invalid variable names for the ${format} format: ${invalid.join(', ')}; rename them with --rename.`);
+        }
+        if (format === 'shell') {
+            return names.map(name => `export ${name}='${secrets[name].replace(/'/g, `'\\''`)}'`).join('\n') + (names.length ? '\n' : '');
+        }
+        return names.map(name => `${name}="${secrets[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r/g, '\\r').replace(/\n/g, '\\n')}"`).join('\n') + (names.length ? '\n' : '');
+    }
+
+    /**
+     * Reads a secret map in the requested format
+     * @public
+     * @param {string} content - The file content
+     * @param {SecretFormat} format - The input format
+     * @returns {Record<string, string | Record<string, any>>} Secret values by name, JSON objects are kept as documents
+     * @throws {Error} When the content is malformed or not a flat map
+     */
+    public parse(content: string, format: SecretFormat): Record<string, string | Record<string, any>> {
+        switch (format) {
+            case 'json': {
+                const document = JSON.parse(content);
+                if (!document || typeof document !== 'object' || Array.isArray(document)) {
+                    throw new Error("The JSON file must hold an object of secret values by name.");
+                }
+                return Object.fromEntries(Object.entries(document)
+                    .filter(([, value]) => value !== null && value !== undefined)
+                    .map(([name, value]) => [name, typeof value === 'object' ? value as Record<string, any> : String(value)]));
+            }
+            case 'yaml':
+                return this.parseYaml(content);
+            default:
+                return this.parseDotenv(content);
+        }
+    }
+
+    /**
+     * Renames a key with comma separated 'from=to' rules; rules ending with '*' replace a prefix, e.g. 'prod/app/*=*'
+     * The first matching rule applies, keys without a matching rule keep their name
+     * @public
+     * @param {string} key - The key to rename
+     * @param {string} [rules] - The renaming rules
+     * @returns {string} The renamed key
+     * @throws {Error} When a rule is malformed
+     */
+    public rename(key: string, rules?: string): string {
+        for (const rule of (rules || '').split(',').map(item => item.trim()).filter(Boolean)) {
+            const index = rule.indexOf('=');
+            if (index < 1) {
+                throw new Error(`Invalid rename rule '${rule}', use 'from=to' or 'prefix*=prefix*'.`);
+            }
+            const from = rule.slice(0, index);
+            const to = rule.slice(index + 1);
+            if (from.endsWith('*')) {
+                const prefix = from.slice(0, -1);
+                if (key.startsWith(prefix)) {
+                    return to.replace(/\*$/, '') + key.slice(prefix.length);
+                }
+            } else if (key === from) {
+                return to;
+            }
+        }
+        return key;
+    }
+
+    /**
+     * Parses dotenv and shell export content, quoted values may span several lines
+     * @protected
+     * @param {string} content - The file content
+     * @returns {Record<string, string>} Secret values by name
+     * @throws {Error} When a line is malformed
+     */
+    protected parseDotenv(content: string): Record<string, string> {
+        const result: Record<string, string> = {};
+        const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+            const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.\-/]*)\s*=\s*(.*)$/.exec(line);
+            if (!match) {
+                throw new Error(`Invalid line ${i + 1}: expected NAME=value.`);
+            }
+            let value = match[2];
+            const quote = value[0];
+            if (quote === '"' || quote === "'") {
+                // gather the following lines until the closing quote
+                let body = value.slice(1);
+                while (!this.isClosed(body, quote) && i + 1 < lines.length) {
+                    body += '\n' + lines[++i];
+                }
+                const end = this.findClose(body, quote);
+                if (end < 0) {
+                    throw new Error(`Unterminated quoted value for '${match[1]}'.`);
+                }
+                value = body.slice(0, end);
+                value = quote === '"'
+                    ? value.replace(/\\([nrt"\\$])/g, (_, char) => ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[char] ?? char)
+                    : value.replace(/'\\''/g, "'");
+            } else {
+                value = value.replace(/\s+#.*$/, '').trim();
+            }
+            result[match[1]] = value;
+        }
+        return result;
+    }
+
+    /**
+     * Parses a flat YAML mapping with plain, quoted and block scalars
+     * @protected
+     * @param {string} content - The file content
+     * @returns {Record<string, string>} Secret values by name
+     * @throws {Error} When the content is not a flat mapping
+     */
+    protected parseYaml(content: string): Record<string, string> {
+        const result: Record<string, string> = {};
+        const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            if (!line.trim() || line.trim().startsWith('#') || line.trim() === '---') {
+                continue;
+            }
+            if (/^\s/.test(line)) {
+                throw new Error(`Invalid line ${i + 1}: nested YAML mappings are not supported.`);
+            }
+            const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^:#]+?)\s*:(?:\s+(.*))?$/.exec(line);
+            if (!match) {
+                throw new Error(`Invalid line ${i + 1}: expected 'name: value'.`);
+            }
+            const name = this.fromYamlScalar(match[1]);
+            const raw = (match[2] || '').trim();
+            if (/^[|>][+-]?$/.test(raw)) {
+                // block scalar: the indented lines that follow
+                const block: string[] = [];
+                while (i + 1 < lines.length && (/^\s/.test(lines[i + 1]) || !lines[i + 1].trim())) {
+                    block.push(lines[++i]);
+                }
+                const indent = Math.min(...block.filter(item => item.trim()).map(item => item.length - item.trimStart().length));
+                const text = block.map(item => item.slice(Number.isFinite(indent) ? indent : 0)).join(raw.startsWith('|') ? '\n' : ' ').replace(/\s+$/, '');
+                result[name] = raw.endsWith('-') ? text : text + '\n';
+            } else if (raw && raw !== '~' && raw !== 'null') {
+                result[name] = this.fromYamlScalar(raw.startsWith('"') || raw.startsWith("'") ? raw : raw.replace(/\s+#.*$/, ''));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Decodes a YAML scalar, double quoted scalars follow the JSON escapes
+     * @protected
+     * @param {string} value - The scalar text
+     * @returns {string} The decoded value
+     */
+    protected fromYamlScalar(value: string): string {
+        value = value.trim();
+        if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+            return JSON.parse(value);
+        }
+        if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+            return value.slice(1, -1).replace(/''/g, "'");
+        }
+        return value;
+    }
+
+    /**
+     * Quotes a YAML key when it is not a plain scalar
+     * @protected
+     * @param {string} name - The key
+     * @returns {string} The YAML key
+     */
+    protected toYamlKey(name: string): string {
+        return /^[A-Za-z_][A-Za-z0-9_.\-/]*$/.test(name) ? name : JSON.stringify(name);
+    }
+
+    /**
+     * Checks whether a quoted value is closed
+     * @protected
+     * @param {string} body - The text after the opening quote
+     * @param {string} quote - The quote character
+     * @returns {boolean} True if the closing quote is present
+     */
+    protected isClosed(body: string, quote: string): boolean {
+        return this.findClose(body, quote) >= 0;
+    }
+
+    /**
+     * Finds the closing quote of a quoted value, double quotes honour backslash escapes
+     * and single quotes the shell "'\''" sequence
+     * @protected
+     * @param {string} body - The text after the opening quote
+     * @param {string} quote - The quote character
+     * @returns {number} The position of the closing quote, -1 when missing
+     */
+    protected findClose(body: string, quote: string): number {
+        for (let i = 0; i < body.length; i++) {
+            if (quote === '"' && body[i] === '\\') {
+                i++;
+            } else if (quote === "'" && body.startsWith("'\\''", i)) {
+                i += 3;
+            } else if (body[i] === quote) {
+                return i;
+            }
+        }
+        return -1;
+    }
+}
+
+export default SecretSerializer;
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Secret Template Resolver - Secret placeholder interpolation
+ * Substitutes secret references in strings, JSON objects and files through the SecretManager bridge.
+ * Supported forms: '${secret:key}', '${secret:backend:key#jsonPath}' and '{{ secret "key" "field" }}'.
+ * @author MDB SAT
+ * @since 1.0.5
+ * @version 1.0.5
+ */
+import fs from "fs";
+import path from "path";
+import { ISecretManagerOptions, SecretValue } from "../models/Secret";
+import { ISecretManager } from "../models/SecretManager";
+import { ISecretReference, ISecretTemplateOptions, ISecretTemplateResolver } from "../models/SecretTemplate";
+import { SecretCodec } from "./SecretCodec";
+import { SecretRedactor } from "./SecretRedactor";
+import { BaseService, IIoC, ILogger, VCategory } from "@kozen/engine";
+
+/**
+ * @class SecretTemplateResolver
+ * @extends BaseService
+ * Resolves secret references in batches per backend, references found in secret values are resolved recursively
+ */
+export class SecretTemplateResolver extends BaseService implements ISecretTemplateResolver {
+
+    /**
+     * Resolver configuration options
+     * @public
+     * @type {ISecretTemplateOptions}
+     */
+    public options: ISecretTemplateOptions;
+
+    /**
+     * Shared value codec formatting the substituted values
+     * @protected
+     * @type {SecretCodec}
+     */
+    protected codec: SecretCodec = new SecretCodec();
+
+    /**
+     * Creates a new SecretTemplateResolver instance
+     * @constructor
+     * @param {ISecretTemplateOptions} [options] - Optional resolver configuration
+     */
+    constructor(options?: ISecretTemplateOptions, dep?: { assistant: IIoC, logger: ILogger, redactor?: SecretRedactor }) {
+        super(dep);
+        this.options = options || {};
+        this.logger = (dep?.redactor || new SecretRedactor()).wrap(this.logger);
+    }
+
+    /**
+     * Finds the secret references of a string
+     * @public
+     * @param {string} text - The text to inspect
+     * @returns {ISecretReference[]} The references in order of appearance
+     */
+    public parse(text: string): ISecretReference[] {
+        return this.scan(text, this.options.backends || ['aws', 'mdb', 'file', 'vault', 'env']).map(item => item.reference);
+    }
+
+    /**
+     * Substitutes the secret references of a string or of every string of an object
+     * A string made of a single reference takes the secret value as is, e.g. a JSON document or a number
+     * @public
+     * @param {T} input - A string, array or object
+     * @param {ISecretManagerOptions} [options] - Optional secret manager configuration override
+     * @returns {Promise<T>} Promise resolving to a rendered copy of the input
+     * @throws {Error} When references cannot be resolved or form a cycle, listing all of them
+     */
+    public async render<T = any>(input: T, options?: ISecretManagerOptions): Promise<T> {
+        const srvSecret = await this.getManager();
+        const backends = this.getBackends(srvSecret, options);
+        const values = new Map<string, SecretValue>();
+        const errors = new Map<string, string>();
+
+        // resolve every reference of the input at once, then substitute them
+        const references = this.collect(input, backends);
+        await this.load(srvSecret, references, [], values, errors, backends, options);
+        if (errors.size) {
+            const message = `Unresolved secret references:\n${[...errors.entries()].map(([raw, error]) => `  - ${raw}: ${error}`).join('\n')}`;
+            this.logger?.error({
+                flow: options?.flow,
+                category: VCategory.core.secret,
+                src: 'Secret:Service:Template:render',
+                message
+            });
+            throw new Error(message);
+        }
+        return this.substitute(input, values, backends);
+    }
+
+    /**
+     * Substitutes the secret references of a file, JSON files are rendered value by value
+     * @public
+     * @param {string} file - The template file
+     * @param {string} [out] - Optional output file, written with 0600 permissions
+     * @param {ISecretManagerOptions} [options] - Optional secret manager configuration override
+     * @returns {Promise<string>} Promise resolving to the rendered content
+     * @throws {Error} When references cannot be resolved or form a cycle, listing all of them
+     */
+    public async renderFile(file: string, out?: string, options?: ISecretManagerOptions): Promise<string> {
+        const content = await fs.promises.readFile(path.resolve(file), 'utf-8');
+        const rendered = path.extname(file).toLowerCase() === '.json'
+            ? JSON.stringify(await this.render(JSON.parse(content), options), null, 2) + '\n'
+            : await this.render(content, options);
+        if (out) {
+            // restrict an existing file before writing, the creation mode only applies to new files
+            const handle = await fs.promises.open(path.resolve(out), 'w', 0o600);
+            try {
+                await handle.chmod(0o600);
+                await handle.writeFile(rendered, 'utf-8');
+            } finally {
+                await handle.close();
+            }
+        }
+        return rendered;
+    }
+
+    /**
+     * Resolves references in one batch per backend, then the references found inside the resolved values
+     * @protected
+     * @param {ISecretManager} srvSecret - Secret manager bridge
+     * @param {ISecretReference[]} references - References to resolve
+     * @param {string[]} stack - Reference identifiers being resolved, used to detect cycles
+     * @param {Map<string, SecretValue>} values - Rendered values by reference identifier
+     * @param {Map<string, string>} errors - Failures by reference text
+     * @param {string[]} backends - Recognised backend names
+     * @param {ISecretManagerOptions} [options] - Optional secret manager configuration override
+     * @returns {Promise<void>} Promise resolving when every reference is either resolved or reported
+     */
+    protected async load(
+        srvSecret: ISecretManager,
+        references: ISecretReference[],
+        stack: string[],
+        values: Map<string, SecretValue>,
+        errors: Map<string, string>,
+        backends: string[],
+        options?: ISecretManagerOptions
+    ): Promise<void> {
+        const pending = new Map<string, ISecretReference>();
+        for (const reference of references) {
+            if (stack.includes(reference.id)) {
+                errors.set(reference.raw, `reference cycle ${[...stack.slice(stack.indexOf(reference.id)), reference.id].join(' -> ')}`);
+            } else if (!values.has(reference.id) && !errors.has(reference.raw)) {
+                pending.set(reference.id, reference);
+            }
+        }
+
+        // one batch per backend, the configured chain applies to references without backend
+        const groups = new Map<string, ISecretReference[]>();
+        for (const reference of pending.values()) {
+            groups.set(reference.backend || '', [...(groups.get(reference.backend || '') || []), reference]);
+        }
+        for (const [backend, group] of groups) {
+            const results = await srvSecret.resolveMany(group.map(item => item.key), backend ? { ...options, chain: [backend] } : options);
+            results.forEach((result, index) => {
+                const reference = group[index];
+                if (result.error) {
+                    errors.set(reference.raw, result.error);
+                } else if (result.value === null || result.value === undefined) {
+                    errors.set(reference.raw, 'not found');
+                } else {
+                    values.set(reference.id, result.value);
+                }
+            });
+        }
+
+        // references inside resolved values
+        const depth = this.options.depth ?? 10;
+        for (const reference of pending.values()) {
+            const value = values.get(reference.id);
+            const nested = typeof value === 'string' ? this.scan(value, backends).map(item => item.reference) : [];
+            if (!nested.length) {
+                continue;
+            }
+            if (stack.length + 1 >= depth) {
+                values.delete(reference.id);
+                errors.set(reference.raw, `nested references deeper than ${depth} levels`);
+                continue;
+            }
+            const before = errors.size;
+            await this.load(srvSecret, nested, [...stack, reference.id], values, errors, backends, options);
+            if (errors.size > before) {
+                values.delete(reference.id);
+                errors.set(reference.raw, errors.get(reference.raw) || 'depends on an unresolved reference');
+            } else {
+                values.set(reference.id, this.substitute(value, values, backends));
+            }
+        }
+    }
+
+    /**
+     * Collects the references of every string of the input
+     * @protected
+     * @param {any} input - A string, array or object
+     * @param {string[]} backends - Recognised backend names
+     * @returns {ISecretReference[]} The references
+     */
+    protected collect(input: any, backends: string[]): ISecretReference[] {
+        if (typeof input === 'string') {
+            return this.scan(input, backends).map(item => item.reference);
+        }
+        if (Array.isArray(input)) {
+            return input.flatMap(item => this.collect(item, backends));
+        }
+        if (input && typeof input === 'object') {
+            return Object.values(input).flatMap(item => this.collect(item, backends));
+        }
+        return [];
+    }
+
+    /**
+     * Builds a copy of the input with the resolved values substituted
+     * @protected
+     * @param {any} input - A string, array or object
+     * @param {Map<string, SecretValue>} values - Rendered values by reference identifier
+     * @param {string[]} backends - Recognised backend names
+     * @returns {any} The rendered copy
+     */
+    protected substitute(input: any, values: Map<string, SecretValue>, backends: string[]): any {
+        if (typeof input === 'string') {
+            const matches = this.scan(input, backends);
+            if (matches.length === 1 && matches[0].reference.raw === input) {
+                const value = values.get(matches[0].reference.id);
+                return Buffer.isBuffer(value) ? this.codec.stringify(value) : value;
+            }
+            let result = '';
+            let last = 0;
+            for (const { reference, index } of matches) {
+                result += input.slice(last, index) + this.codec.stringify(values.get(reference.id));
+                last = index + reference.raw.length;
+            }
+            return result + input.slice(last);
+        }
+        if (Array.isArray(input)) {
+            return input.map(item => this.substitute(item, values, backends));
+        }
+        if (input && typeof input === 'object') {
+            return Object.fromEntries(Object.entries(input).map(([name, item]) => [name, this.substitute(item, values, backends)]));
+        }
+        return input;
+    }
+
+    /**
+     * Finds the references of a string with their positions
+     * @protected
+     * @param {string} text - The text to inspect
+     * @param {string[]} backends - Recognised backend names
+     * @returns {Array<{ reference: ISecretReference, index: number }>} The references in order of appearance
+     */
+    protected scan(text: string, backends: string[]): Array<{ reference: ISecretReference, index: number }> {
+        const pattern = /\$\{secret:([^}]+)\}|\{\{\s*secret\s+"((?:[^"\\]|\\.)*)"(?:\s+"((?:[^"\\]|\\.)*)")?\s*\}\}/g;
+        const result: Array<{ reference: ISecretReference, index: number }> = [];
+        for (const match of text.matchAll(pattern)) {
+            const field = match[3] !== undefined ? JSON.parse(`"${match[3]}"`) : undefined;
+            const target = (match[1] ?? JSON.parse(`"${match[2]}"`)).trim();
+            const separator = target.indexOf(':');
+            const backend = separator > 0 && backends.includes(target.slice(0, separator).toLowerCase()) ? target.slice(0, separator).toLowerCase() : undefined;
+            const key = (backend ? target.slice(separator + 1) : target) + (field ? `#${field}` : '');
+            result.push({ reference: { raw: match[0], backend, key, id: backend ? `${backend}:${key}` : key }, index: match.index! });
+        }
+        return result;
+    }
+
+    /**
+     * Retrieves the backend names recognised in references, the configured ones and the types of the provider chain
+     * @protected
+     * @param {ISecretManager} srvSecret - Secret manager bridge
+     * @param {ISecretManagerOptions} [options] - Optional secret manager configuration override
+     * @returns {string[]} The backend names
+     */
+    protected getBackends(srvSecret: ISecretManager, options?: ISecretManagerOptions): string[] {
+        const chain = options?.chain || srvSecret.options?.chain || [];
+        return [...new Set([
+            ...(this.options.backends || ['aws', 'mdb', 'file', 'vault', 'env']),
+            ...chain.map(item => (typeof item === 'string' ? item : item.type || '').toLowerCase()).filter(Boolean)
+        ])];
+    }
+
+    /**
+     * Resolves the secret manager bridge from the IoC container
+     * @protected
+     * @returns {Promise<ISecretManager>} Promise resolving to the secret manager
+     * @throws {Error} When the dependency injection is not configured
+     */
+    protected async getManager(): Promise<ISecretManager> {
+        const srvSecret = await this.assistant?.resolve<ISecretManager>('secret:manager');
+        if (!srvSecret) {
+            throw new Error("Incorrect dependency injection configuration.");
+        }
+        return srvSecret;
+    }
+}
+
+export default SecretTemplateResolver;